@@ -1,38 +1,241 @@
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { InputPanel } from './components/InputPanel';
 import { FormPreview } from './components/FormPreview';
 import { GoogleFormModal } from './components/GoogleFormModal';
-import { LogoIcon, SparklesIcon, WarningIcon } from './components/icons';
-import { generateFormFromText } from './services/geminiService';
+import { GoogleImportModal } from './components/GoogleImportModal';
+import { JsonImportModal } from './components/JsonImportModal';
+import { ChunkProgressPanel } from './components/ChunkProgressPanel';
+import { WorkspaceSidebar } from './components/WorkspaceSidebar';
+import { FolderIcon, GoogleFormsIcon, LogoIcon, SparklesIcon, UploadIcon, WarningIcon } from './components/icons';
+import { planChunks, runChunks, mergeCompletedChunks, mergeAvailableChunks } from './services/chunkedGeneration';
+import type { ChunkProgress } from './services/chunkedGeneration';
+import { useFormHistory } from './services/formHistory';
+import { hasFormHash, readFormHash } from './services/formJson';
+import { generationSettings } from './services/geminiService';
+import {
+  addRevision, createEntry, getActiveEntryId, getEntry, linkGoogleForm, newId, saveSourceDocument, setActiveEntryId, updateEntry,
+} from './services/workspace';
+import type { FormRevision, GoogleFormLink, WorkspaceEntry } from './services/workspace';
+import type { SourceImage } from './services/formImages';
 import type { Form } from './types';
 
+// Edits are written to the library once typing pauses for this long.
+const AUTOSAVE_DELAY_MS = 800;
+
 const App: React.FC = () => {
-  const [generatedForm, setGeneratedForm] = useState<Form | null>(null);
+  const history = useFormHistory();
+  const generatedForm = history.form;
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
+  const [isImportOpen, setIsImportOpen] = useState<boolean>(false);
+  const [isJsonImportOpen, setIsJsonImportOpen] = useState<boolean>(false);
+  // Per-part progress for long documents. Kept after a run only while some parts failed, so they can be retried.
+  const [chunks, setChunks] = useState<ChunkProgress[]>([]);
+  const abortController = useRef<AbortController | null>(null);
 
-  const handleGenerate = useCallback(async (text: string) => {
-    if (!text.trim()) {
-      setError("Please provide some text or upload a file to generate a form.");
+  // The library entry being worked on. It is created on first save, so an untouched page adds nothing.
+  const [text, setText] = useState('');
+  const [activeEntry, setActiveEntry] = useState<WorkspaceEntry | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const entryId = useRef<Promise<string> | null>(null);
+  // What was last written or read, so that opening an entry doesn't save it straight back.
+  const saved = useRef<{ text: string; form: Form | null }>({ text: '', form: null });
+  // The pictures of the uploaded file, which the text refers to by label.
+  const sourceImages = useRef<SourceImage[]>([]);
+
+  // Resolves to the active entry's ID, creating the entry if there is none yet.
+  const ensureEntry = useCallback(() => {
+    entryId.current ??= createEntry({ text: saved.current.text, form: saved.current.form })
+      .then(entry => {
+        setActiveEntry(entry);
+        setActiveEntryId(entry.id);
+        return entry.id;
+      })
+      .catch(err => {
+        entryId.current = null;
+        throw err;
+      });
+    return entryId.current;
+  }, []);
+
+  const persist = useCallback(async (change: (id: string) => Promise<WorkspaceEntry>) => {
+    try {
+      const entry = await change(await ensureEntry());
+      // Another entry may have been opened while this one was being saved.
+      if ((await entryId.current) === entry.id) setActiveEntry(entry);
+      setSaveError(null);
+    } catch (err) {
+      console.error(err);
+      setSaveError(err instanceof Error ? err.message : 'Your work could not be saved.');
+    }
+  }, [ensureEntry]);
+
+  const openEntry = useCallback((entry: WorkspaceEntry | null) => {
+    entryId.current = entry ? Promise.resolve(entry.id) : null;
+    saved.current = { text: entry?.text ?? '', form: entry?.form ?? null };
+    sourceImages.current = entry?.images ?? [];
+    setActiveEntryId(entry?.id ?? null);
+    setActiveEntry(entry);
+    setText(entry?.text ?? '');
+    setError(null);
+    setChunks([]);
+    history.reset(entry?.form ?? null);
+  }, [history.reset]);
+
+  // An imported form starts a new entry of its own, linked to the Google Form it came from, if any.
+  const openImported = useCallback(async (form: Form, source?: Omit<GoogleFormLink, 'linkedAt'>) => {
+    try {
+      const entry = await createEntry({
+        form,
+        revisions: [{ id: newId(), createdAt: new Date().toISOString(), source: 'imported', form }],
+        googleForms: source ? [{ ...source, linkedAt: new Date().toISOString() }] : [],
+      });
+      openEntry(entry);
+    } catch (err) {
+      console.error(err);
+      setSaveError(err instanceof Error ? err.message : 'The form could not be added to the library.');
+      openEntry(null);
+      history.reset(form);
+    }
+  }, [openEntry, history.reset]);
+
+  // Opens the form carried by a shared link, or else reopens the entry that was active when the page was last closed.
+  useEffect(() => {
+    const { hash, pathname, search } = window.location;
+    if (hasFormHash(hash)) {
+      window.history.replaceState(null, '', pathname + search);
+      readFormHash(hash)
+        .then(loaded => openImported(loaded.form))
+        .catch(err => setError(err instanceof Error ? err.message : 'The form in this link could not be opened.'));
       return;
     }
+    const id = getActiveEntryId();
+    if (!id) return;
+    getEntry(id)
+      .then(entry => openEntry(entry ?? null))
+      .catch(err => {
+        console.error(err);
+        setSaveError(err instanceof Error ? err.message : 'The library could not be opened.');
+      });
+  }, [openEntry, openImported]);
 
+  const recordRevision = useCallback((form: Form) => {
+    saved.current = { ...saved.current, form };
+    persist(id => addRevision(id, form, 'generated', generationSettings()));
+  }, [persist]);
+
+  const runGeneration = useCallback(async (initial: ChunkProgress[]) => {
+    const controller = new AbortController();
+    abortController.current = controller;
     setIsLoading(true);
     setError(null);
-    setGeneratedForm(null);
+    setChunks(initial);
 
     try {
-      const form = await generateFormFromText(text);
-      setGeneratedForm(form);
+      const progress = await runChunks(initial, setChunks, controller.signal, sourceImages.current);
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before the cancel as an editable form.
+        const partial = mergeAvailableChunks(progress);
+        history.reset(partial.items.length > 0 ? partial : null);
+        setChunks([]);
+        return;
+      }
+      const failed = progress.filter(p => p.status === 'failed');
+      // A part that was cut off stays on screen to retry, like a failed one.
+      if (failed.length === 0 && !progress.some(p => p.truncated)) {
+        const form = mergeCompletedChunks(progress);
+        history.reset(form);
+        recordRevision(form);
+        setChunks([]);
+      } else if (progress.length === 1 && failed.length === 1) {
+        setError(failed[0].error || "An unknown error occurred. Please try again.");
+        setChunks([]);
+      }
     } catch (err) {
       console.error(err);
       setError(err instanceof Error ? err.message : "An unknown error occurred. Please try again.");
+      setChunks([]);
     } finally {
+      abortController.current = null;
       setIsLoading(false);
     }
-  }, []);
+  }, [history.reset, recordRevision]);
+
+  const handleCancel = () => abortController.current?.abort();
+
+  // While generating, the items streamed so far across all parts.
+  const liveForm = useMemo(() => (isLoading ? mergeAvailableChunks(chunks) : null), [isLoading, chunks]);
+
+  const handleGenerate = useCallback(async (text: string) => {
+    if (!text.trim()) {
+      setError("Please provide some text or upload a file to generate a form.");
+      return;
+    }
+
+    history.reset(null);
+    await runGeneration(planChunks(text));
+  }, [history.reset, runGeneration]);
+
+  const handleImport = (form: Form, source?: Omit<GoogleFormLink, 'linkedAt'>) => {
+    setIsImportOpen(false);
+    setIsJsonImportOpen(false);
+    openImported(form, source);
+  };
+
+  const handleRetryChunks = () => runGeneration(chunks);
+
+  const handleUseCompletedChunks = () => {
+    const form = mergeCompletedChunks(chunks);
+    history.reset(form);
+    recordRevision(form);
+    setChunks([]);
+  };
+
+  const handleFileLoaded = (file: File, extracted: string, images: SourceImage[]) => {
+    saved.current = { ...saved.current, text: extracted };
+    sourceImages.current = images;
+    persist(async id => {
+      await saveSourceDocument(id, file);
+      return updateEntry(id, entry => ({ ...entry, text: extracted, images }));
+    });
+  };
+
+  const handlePublished = (published: Omit<GoogleFormLink, 'linkedAt'>) => persist(id => linkGoogleForm(id, published));
+
+  const handleRestore = (revision: FormRevision) => {
+    setError(null);
+    history.update(revision.form);
+    setIsLibraryOpen(false);
+  };
+
+  // Saves the text and form once editing pauses. Nothing is saved while a form is being generated.
+  useEffect(() => {
+    if (isLoading) return;
+    if (saved.current.text === text && saved.current.form === generatedForm) return;
+    if (!entryId.current && !text.trim() && !generatedForm) return;
+    const timer = setTimeout(() => {
+      saved.current = { text, form: generatedForm };
+      persist(id => updateEntry(id, entry => ({ ...entry, text, form: generatedForm })));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [text, generatedForm, isLoading, persist]);
+
+  // Undo/redo shortcuts for the editing session. Text fields keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      e.preventDefault();
+      if (e.shiftKey) history.redo();
+      else history.undo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history.undo, history.redo]);
 
   const openModal = () => setIsModalOpen(true);
   const closeModal = () => setIsModalOpen(false);
@@ -44,11 +247,40 @@ const App: React.FC = () => {
           <div className="container mx-auto flex items-center gap-3">
             <LogoIcon className="w-8 h-8 text-cyan-400" />
             <h1 className="text-2xl font-bold tracking-tight text-slate-100">Form Architect AI</h1>
+            {saveError && (
+              <span className="ml-auto flex items-center gap-1 text-sm text-red-300" title={saveError}>
+                <WarningIcon className="w-4 h-4" />
+                Not saved
+              </span>
+            )}
+            <button
+              onClick={() => setIsLibraryOpen(true)}
+              className={`${saveError ? '' : 'ml-auto '}flex items-center gap-2 text-sm bg-slate-700 hover:bg-slate-600 text-slate-300 font-medium py-2 px-3 rounded-md transition-colors`}
+            >
+              <FolderIcon className="w-4 h-4" />
+              <span>Library</span>
+            </button>
+            <button
+              onClick={() => setIsJsonImportOpen(true)}
+              disabled={isLoading}
+              className="flex items-center gap-2 text-sm bg-slate-700 hover:bg-slate-600 text-slate-300 font-medium py-2 px-3 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <UploadIcon className="w-4 h-4" />
+              <span>Open JSON</span>
+            </button>
+            <button
+              onClick={() => setIsImportOpen(true)}
+              disabled={isLoading}
+              className="flex items-center gap-2 text-sm bg-slate-700 hover:bg-slate-600 text-slate-300 font-medium py-2 px-3 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <GoogleFormsIcon className="w-4 h-4" />
+              <span>Import Google Form</span>
+            </button>
           </div>
         </header>
         <main className="container mx-auto p-4 md:p-8">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
-            <InputPanel onGenerate={handleGenerate} isLoading={isLoading} />
+            <InputPanel text={text} onTextChange={setText} onFileLoaded={handleFileLoaded} onGenerate={handleGenerate} isLoading={isLoading} />
 
             <div className="bg-slate-800/50 rounded-xl shadow-lg border border-slate-700 h-full min-h-[500px] flex flex-col">
               <div className="p-5 border-b border-slate-700 flex items-center gap-3">
@@ -56,11 +288,45 @@ const App: React.FC = () => {
                 <h2 className="text-xl font-semibold text-slate-100">Generated Form Preview</h2>
               </div>
               <div className="p-6 flex-grow">
-                {isLoading ? (
-                  <div className="flex flex-col items-center justify-center h-full text-slate-400">
-                    <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-400"></div>
-                    <p className="mt-4 text-lg">Generating your form...</p>
-                    <p className="text-sm">The AI is thinking, this might take a moment.</p>
+                {chunks.length > 0 && !isLoading ? (
+                  <ChunkProgressPanel
+                    progress={chunks}
+                    isRunning={isLoading}
+                    onRetry={handleRetryChunks}
+                    onUseCompleted={handleUseCompletedChunks}
+                  />
+                ) : isLoading ? (
+                  <div className="flex flex-col gap-6 h-full">
+                    {chunks.length > 1 && (
+                      <ChunkProgressPanel
+                        progress={chunks}
+                        isRunning={isLoading}
+                        onRetry={handleRetryChunks}
+                        onUseCompleted={handleUseCompletedChunks}
+                      />
+                    )}
+                    {liveForm && liveForm.items.length > 0 ? (
+                      <FormPreview
+                        form={liveForm}
+                        onChange={history.update}
+                        onUndo={history.undo}
+                        onRedo={history.redo}
+                        canUndo={false}
+                        canRedo={false}
+                        onExportClick={openModal}
+                        streaming
+                        onCancel={handleCancel}
+                      />
+                    ) : (
+                      <div className="flex flex-col items-center justify-center flex-grow text-slate-400">
+                        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-400"></div>
+                        <p className="mt-4 text-lg">Generating your form...</p>
+                        <p className="text-sm">Questions will appear here as soon as they are ready.</p>
+                        <button onClick={handleCancel} className="mt-6 bg-slate-700 hover:bg-slate-600 text-slate-200 font-bold py-2 px-6 rounded-lg transition-colors">
+                          Cancel
+                        </button>
+                      </div>
+                    )}
                   </div>
                 ) : error ? (
                   <div className="flex flex-col items-center justify-center h-full text-red-400 bg-red-900/20 rounded-lg p-6">
@@ -69,7 +335,15 @@ const App: React.FC = () => {
                     <p className="text-center mt-2">{error}</p>
                   </div>
                 ) : generatedForm ? (
-                  <FormPreview form={generatedForm} onExportClick={openModal} />
+                  <FormPreview
+                    form={generatedForm}
+                    onChange={history.update}
+                    onUndo={history.undo}
+                    onRedo={history.redo}
+                    canUndo={history.canUndo}
+                    canRedo={history.canRedo}
+                    onExportClick={openModal}
+                  />
                 ) : (
                   <div className="flex flex-col items-center justify-center h-full text-slate-500">
                     <p className="text-lg">Your generated form will appear here.</p>
@@ -89,6 +363,25 @@ const App: React.FC = () => {
           form={generatedForm}
           isOpen={isModalOpen}
           onClose={closeModal}
+          onPublished={handlePublished}
+        />
+      )}
+      {isImportOpen && <GoogleImportModal onClose={() => setIsImportOpen(false)} onImport={handleImport} />}
+      {isJsonImportOpen && <JsonImportModal onClose={() => setIsJsonImportOpen(false)} onImport={form => handleImport(form)} />}
+      {isLibraryOpen && (
+        <WorkspaceSidebar
+          activeEntry={activeEntry}
+          onOpen={entry => {
+            openEntry(entry);
+            setIsLibraryOpen(false);
+          }}
+          onNew={() => {
+            openEntry(null);
+            setIsLibraryOpen(false);
+          }}
+          onRestore={handleRestore}
+          onActiveChanged={entry => (entry ? setActiveEntry(entry) : openEntry(null))}
+          onClose={() => setIsLibraryOpen(false)}
         />
       )}
     </>
@@ -0,0 +1,82 @@
+import React from 'react';
+import type { ChunkProgress } from '../services/chunkedGeneration';
+import { CheckIcon, WarningIcon } from './icons';
+
+interface ChunkProgressPanelProps {
+  progress: ChunkProgress[];
+  isRunning: boolean;
+  onRetry: () => void;
+  onUseCompleted: () => void;
+}
+
+const preview = (text: string) => {
+  const firstLine = text.split('\n').find(line => line.trim()) || '';
+  return firstLine.length > 60 ? `${firstLine.slice(0, 60)}…` : firstLine;
+};
+
+export const ChunkProgressPanel: React.FC<ChunkProgressPanelProps> = ({ progress, isRunning, onRetry, onUseCompleted }) => {
+  const doneCount = progress.filter(p => p.status === 'done').length;
+  const failedCount = progress.filter(p => p.status === 'failed').length;
+  const truncatedCount = progress.filter(p => p.truncated).length;
+  const retryCount = failedCount + truncatedCount;
+  const cutOff = retryCount === 1 ? 'was cut off' : 'were cut off';
+  const problem = truncatedCount === 0 ? 'failed' : failedCount === 0 ? cutOff : `failed or ${cutOff}`;
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div>
+        <h3 className="text-lg font-semibold text-slate-100">
+          {isRunning ? 'Generating a long document in parts...' : `${retryCount} of ${progress.length} ${progress.length === 1 ? 'part' : 'parts'} ${problem}`}
+        </h3>
+        <p className="text-sm text-slate-400">
+          {doneCount} of {progress.length} parts done. Each part is generated separately and merged into one form.
+        </p>
+      </div>
+
+      <div className="w-full bg-slate-700 rounded-full h-2">
+        <div className="bg-cyan-400 h-2 rounded-full transition-all" style={{ width: `${(doneCount / progress.length) * 100}%` }} />
+      </div>
+
+      <ul className="space-y-2">
+        {progress.map(({ chunk, status, form, truncated, error }) => (
+          <li key={chunk.index} className="flex items-start gap-3 text-sm bg-slate-900/50 border border-slate-700 rounded-md p-3">
+            <div className="flex-shrink-0 w-5 h-5 mt-0.5 flex items-center justify-center">
+              {status === 'running' && <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-cyan-400"></div>}
+              {status === 'done' && !truncated && <CheckIcon className="w-5 h-5 text-green-400" />}
+              {truncated && <WarningIcon className="w-5 h-5 text-yellow-400" />}
+              {status === 'failed' && <WarningIcon className="w-5 h-5 text-red-400" />}
+              {status === 'pending' && <div className="w-2 h-2 rounded-full bg-slate-500"></div>}
+            </div>
+            <div className="min-w-0">
+              <p className="text-slate-200 font-medium">
+                Part {chunk.index + 1}
+                {status === 'done' && form && <span className="text-slate-400 font-normal"> — {form.items.length} items</span>}
+              </p>
+              <p className="text-slate-500 truncate">{preview(chunk.text)}</p>
+              {truncated && <p className="text-yellow-300 mt-1">The AI's answer was still cut off, so some questions from this part are missing.</p>}
+              {error && <p className="text-red-300 mt-1">{error}</p>}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {!isRunning && retryCount > 0 && (
+        <div className="flex flex-col sm:flex-row gap-2">
+          <button
+            onClick={onRetry}
+            className="flex-1 bg-cyan-500 hover:bg-cyan-400 text-slate-900 font-bold py-2 px-4 rounded-lg transition-colors"
+          >
+            {truncatedCount > 0 ? `Retry ${retryCount} ${retryCount === 1 ? 'part' : 'parts'}` : `Retry failed ${failedCount === 1 ? 'part' : 'parts'}`}
+          </button>
+          <button
+            onClick={onUseCompleted}
+            disabled={doneCount === 0}
+            className="flex-1 bg-slate-700 hover:bg-slate-600 text-slate-200 font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Continue with {doneCount} completed {doneCount === 1 ? 'part' : 'parts'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import type { FormDiagnostic } from '../services/formValidator';
+import { WarningIcon } from './icons';
+
+interface DiagnosticListProps {
+  diagnostics: FormDiagnostic[];
+}
+
+const severityStyles: Record<FormDiagnostic['severity'], string> = {
+  error: 'text-red-300 bg-red-900/30 border-red-700/50',
+  warning: 'text-yellow-300 bg-yellow-900/20 border-yellow-700/50',
+  repaired: 'text-slate-400 bg-slate-900/40 border-slate-700',
+};
+
+/**
+ * Lists the validator's findings for a single item. Auto-repairs are hidden once applied,
+ * so in practice this shows only what still needs a human decision.
+ */
+export const DiagnosticList: React.FC<DiagnosticListProps> = ({ diagnostics }) => {
+  const visible = diagnostics.filter(d => d.severity !== 'repaired');
+  if (visible.length === 0) return null;
+
+  return (
+    <ul className="mt-4 space-y-1.5">
+      {visible.map((diagnostic, i) => (
+        <li key={i} className={`flex items-start gap-2 text-xs border rounded-md px-2.5 py-1.5 ${severityStyles[diagnostic.severity]}`}>
+          <WarningIcon className="w-4 h-4 flex-shrink-0" />
+          <span>{diagnostic.message}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
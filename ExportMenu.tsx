@@ -0,0 +1,155 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Form } from '../types';
+import { EXPORT_FORMATS, exportForm } from '../services/exportFormats';
+import type { ExportFormat } from '../services/exportFormats';
+import type { ExportIssue } from '../services/exportText';
+import { openPrintWindow } from '../services/fileDownload';
+import { toFormHash } from '../services/formJson';
+import { toAnswerKeyHtml, toStudentTestHtml } from '../services/printExport';
+import { GameExportModal } from './GameExportModal';
+import { VersionsModal } from './VersionsModal';
+import { ArrowDownIcon, DownloadIcon } from './icons';
+
+interface ExportMenuProps {
+  form: Form;
+}
+
+/** Drop-down of file exporters for the preview header. */
+export const ExportMenu: React.FC<ExportMenuProps> = ({ form }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [skipped, setSkipped] = useState<{ label: string; issues: ExportIssue[] } | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+  const [isGameExportOpen, setIsGameExportOpen] = useState(false);
+  const [isVersionsOpen, setIsVersionsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const handleExport = async (format: ExportFormat) => {
+    setIsOpen(false);
+    setError(null);
+    setSkipped(null);
+    try {
+      const issues = await exportForm(form, format);
+      if (issues.length > 0) setSkipped({ label: format.label, issues });
+    } catch (err) {
+      console.error(`Error exporting ${format.label}:`, err);
+      setError(err instanceof Error ? err.message : `Could not export ${format.label}.`);
+    }
+  };
+
+  const handlePrint = (build: (form: Form) => string) => {
+    setIsOpen(false);
+    setError(null);
+    try {
+      openPrintWindow(build(form));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open the print window.');
+    }
+  };
+
+  // The link carries the form in its hash, which browsers don't send to the server.
+  const handleCopyLink = async () => {
+    setIsOpen(false);
+    setError(null);
+    try {
+      const { origin, pathname, search } = window.location;
+      await navigator.clipboard.writeText(`${origin}${pathname}${search}${await toFormHash(form)}`);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      console.error('Error copying the form link:', err);
+      setError(err instanceof Error ? err.message : 'Could not copy the link.');
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-center gap-2 text-sm bg-slate-700 hover:bg-slate-600 text-slate-300 font-medium py-2 px-3 rounded-md transition-colors"
+        title="Download the form in another format"
+      >
+        <DownloadIcon className="w-4 h-4" />
+        <span>Export</span>
+        <ArrowDownIcon className="w-3 h-3" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-slate-800 border border-slate-600 rounded-lg shadow-xl z-20 py-1">
+          {EXPORT_FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => handleExport(format)}
+              className="w-full text-left px-4 py-2 hover:bg-slate-700 transition-colors"
+            >
+              <span className="block text-sm font-medium text-slate-200">{format.label}</span>
+              <span className="block text-xs text-slate-400">{format.description}</span>
+            </button>
+          ))}
+          <button
+            onClick={handleCopyLink}
+            className="w-full text-left px-4 py-2 hover:bg-slate-700 transition-colors"
+          >
+            <span className="block text-sm font-medium text-slate-200">Copy link</span>
+            <span className="block text-xs text-slate-400">A link that opens a copy of the form here. The form travels in the link itself.</span>
+          </button>
+          <div className="border-t border-slate-700 my-1" />
+          <button
+            onClick={() => handlePrint(toStudentTestHtml)}
+            className="w-full text-left px-4 py-2 hover:bg-slate-700 transition-colors"
+          >
+            <span className="block text-sm font-medium text-slate-200">Print paper test</span>
+            <span className="block text-xs text-slate-400">Student copy with name, class and date fields. Save as PDF from the print dialog.</span>
+          </button>
+          <button
+            onClick={() => handlePrint(toAnswerKeyHtml)}
+            className="w-full text-left px-4 py-2 hover:bg-slate-700 transition-colors"
+          >
+            <span className="block text-sm font-medium text-slate-200">Print answer key</span>
+            <span className="block text-xs text-slate-400">Answers and points for each numbered question.</span>
+          </button>
+          <button
+            onClick={() => { setIsOpen(false); setIsVersionsOpen(true); }}
+            className="w-full text-left px-4 py-2 hover:bg-slate-700 transition-colors"
+          >
+            <span className="block text-sm font-medium text-slate-200">Randomized versions...</span>
+            <span className="block text-xs text-slate-400">A, B, C papers with shuffled questions and options, each with its own key.</span>
+          </button>
+          <div className="border-t border-slate-700 my-1" />
+          <button
+            onClick={() => { setIsOpen(false); setIsGameExportOpen(true); }}
+            className="w-full text-left px-4 py-2 hover:bg-slate-700 transition-colors"
+          >
+            <span className="block text-sm font-medium text-slate-200">Kahoot!, Quizizz or Blooket...</span>
+            <span className="block text-xs text-slate-400">Spreadsheet import for quiz games, with a time limit per question.</span>
+          </button>
+        </div>
+      )}
+      {isGameExportOpen && <GameExportModal form={form} onClose={() => setIsGameExportOpen(false)} />}
+      {isVersionsOpen && <VersionsModal form={form} onClose={() => setIsVersionsOpen(false)} />}
+      {linkCopied && <p className="absolute right-0 mt-2 w-72 text-xs text-green-300 bg-green-900/80 rounded-md p-2 z-20">Link copied to the clipboard.</p>}
+      {skipped && (
+        <div className="absolute right-0 mt-2 w-72 text-xs text-yellow-300 bg-yellow-900/80 rounded-md p-2 z-20">
+          <div className="flex items-start justify-between gap-2">
+            <p>{skipped.label} left out {skipped.issues.length} {skipped.issues.length === 1 ? 'item' : 'items'}:</p>
+            <button onClick={() => setSkipped(null)} className="text-yellow-300 hover:text-yellow-100 text-base leading-none">&times;</button>
+          </div>
+          <ul className="mt-1 space-y-1 max-h-48 overflow-y-auto">
+            {skipped.issues.map(issue => (
+              <li key={issue.itemIndex}>{issue.itemIndex + 1}. {issue.title || 'Untitled'} — {issue.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {error && <p className="absolute right-0 mt-2 w-72 text-xs text-red-300 bg-red-900/80 rounded-md p-2 z-20">{error}</p>}
+    </div>
+  );
+};
@@ -1,67 +1,267 @@
 
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import type { Form } from '../types';
 import { ItemType } from '../types';
+import { validateForm, diagnosticsByItem, countBySeverity } from '../services/formValidator';
+import type { FormDiagnostic } from '../services/formValidator';
+import { updateFormDetails, moveItem, duplicateItem, deleteItem, addItem, createBlankItem } from '../services/formEditing';
+import { serializeForm } from '../services/formJson';
 import { QuestionCard } from './QuestionCard';
-import { CopyIcon, GoogleFormsIcon } from './icons';
+import { DiagnosticList } from './DiagnosticList';
+import { ItemImage } from './ItemImage';
+import { ItemEditor, ItemToolbar } from './ItemEditor';
+import { ExportMenu } from './ExportMenu';
+import type { FormChangeHandler } from './ItemEditor';
+import { CopyIcon, GoogleFormsIcon, PlusIcon, RedoIcon, UndoIcon, WarningIcon } from './icons';
 
 interface FormPreviewProps {
   form: Form;
+  onChange: FormChangeHandler;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
   onExportClick: () => void;
+  /** Items are still arriving: editing is disabled and a cancel button is shown instead. */
+  streaming?: boolean;
+  onCancel?: () => void;
 }
 
-const PassageCard: React.FC<{ item: Form['items'][0] }> = ({ item }) => (
+const PassageCard: React.FC<{ item: Form['items'][0]; diagnostics?: FormDiagnostic[] }> = ({ item, diagnostics = [] }) => (
   <div className="bg-slate-900/50 border-l-4 border-cyan-400 p-5 shadow-md rounded-r-lg">
     <h4 className="text-lg font-semibold text-slate-200 mb-2">{item.title}</h4>
+    {item.image && <div className="mb-3"><ItemImage image={item.image} /></div>}
     <p className="text-slate-300 whitespace-pre-wrap leading-relaxed">{item.description}</p>
+    <DiagnosticList diagnostics={diagnostics} />
   </div>
 );
 
+interface PageCardProps {
+  item: Form['items'][0];
+  number: number;
+  collapsed: boolean;
+  /** How many items the page holds, shown while it is collapsed. */
+  itemCount: number;
+  onToggle: () => void;
+  diagnostics?: FormDiagnostic[];
+}
 
-export const FormPreview: React.FC<FormPreviewProps> = ({ form, onExportClick }) => {
+const PageCard: React.FC<PageCardProps> = ({ item, number, collapsed, itemCount, onToggle, diagnostics = [] }) => (
+  <div className="border-t-2 border-cyan-400/60 pt-4">
+    <div className="flex items-start justify-between gap-4">
+      <div className="min-w-0">
+        <p className="text-xs uppercase tracking-wide text-cyan-400">Page {number}</p>
+        <h3 className="text-xl font-semibold text-slate-100">{item.title || 'Untitled page'}</h3>
+        {item.description && <p className="text-slate-400 whitespace-pre-wrap mt-1">{item.description}</p>}
+      </div>
+      <button onClick={onToggle} className="flex-shrink-0 text-sm text-slate-400 hover:text-slate-200 bg-slate-800 hover:bg-slate-700 py-1.5 px-3 rounded-md transition-colors">
+        {collapsed ? `Show ${itemCount} ${itemCount === 1 ? 'item' : 'items'}` : 'Collapse'}
+      </button>
+    </div>
+    <DiagnosticList diagnostics={diagnostics} />
+  </div>
+);
+
+export const FormPreview: React.FC<FormPreviewProps> = ({ form, onChange, onUndo, onRedo, canUndo, canRedo, onExportClick, streaming = false, onCancel }) => {
   const [copied, setCopied] = React.useState(false);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [collapsedPages, setCollapsedPages] = useState<Set<string>>(new Set());
+  const diagnostics = useMemo(() => validateForm(form).diagnostics, [form]);
+  const byItem = useMemo(() => diagnosticsByItem(diagnostics), [diagnostics]);
+  const errorCount = countBySeverity(diagnostics, 'error');
+  const warningCount = countBySeverity(diagnostics, 'warning');
+
+  // Each item's page (the pageId of the page break above it), page numbers and titles.
+  const pages = useMemo(() => {
+    const pageOf: (string | null)[] = [];
+    const numbers = new Map<string, number>();
+    const titles = new Map<string, string>();
+    const sizes = new Map<string | null, number>();
+    let current: string | null = null;
+    form.items.forEach(item => {
+      if (item.type === ItemType.PAGE_BREAK && item.pageId) {
+        current = item.pageId;
+        numbers.set(current, numbers.size + 2);
+        titles.set(current, item.title || 'Untitled page');
+      } else {
+        sizes.set(current, (sizes.get(current) ?? 0) + 1);
+      }
+      pageOf.push(current);
+    });
+    return { pageOf, numbers, titles, sizes };
+  }, [form.items]);
+
+  const togglePage = (pageId: string) => {
+    const next = new Set(collapsedPages);
+    if (next.has(pageId)) next.delete(pageId);
+    else next.add(pageId);
+    setCollapsedPages(next);
+  };
 
   const copyJsonToClipboard = () => {
-    navigator.clipboard.writeText(JSON.stringify(form, null, 2));
+    navigator.clipboard.writeText(serializeForm(form));
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
-  
+
+  const handleMove = (from: number, to: number) => {
+    onChange(moveItem(form, from, to));
+    if (editingIndex === from) setEditingIndex(to);
+  };
+
+  const handleDuplicate = (index: number) => {
+    onChange(duplicateItem(form, index));
+    setEditingIndex(index + 1);
+  };
+
+  const handleDelete = (index: number) => {
+    onChange(deleteItem(form, index));
+    if (editingIndex === index) setEditingIndex(null);
+    else if (editingIndex !== null && editingIndex > index) setEditingIndex(editingIndex - 1);
+  };
+
+  const handleAdd = (type?: ItemType) => {
+    onChange(addItem(form, createBlankItem(type)));
+    setEditingIndex(form.items.length);
+  };
+
+  const iconButtonClass = 'p-2 rounded-md bg-slate-700 hover:bg-slate-600 text-slate-300 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
   return (
     <div className="w-full h-full overflow-y-auto pr-2">
       <div className="flex justify-between items-start mb-4 gap-4">
-        <div className="flex-grow">
-          <h3 className="text-2xl font-bold text-slate-100">{form.title}</h3>
-          <p className="text-slate-400 mt-1">{form.description}</p>
+        <div className="flex-grow min-w-0">
+          <input
+            value={form.title}
+            onChange={e => onChange(updateFormDetails(form, { title: e.target.value }), 'form-title')}
+            readOnly={streaming}
+            className="w-full bg-transparent text-2xl font-bold text-slate-100 rounded-md -mx-1 px-1 hover:bg-slate-800 focus:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+            aria-label="Form title"
+          />
+          <textarea
+            value={form.description}
+            onChange={e => onChange(updateFormDetails(form, { description: e.target.value }), 'form-description')}
+            readOnly={streaming}
+            rows={2}
+            className="w-full bg-transparent text-slate-400 mt-1 rounded-md -mx-1 px-1 resize-none hover:bg-slate-800 focus:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-cyan-400"
+            aria-label="Form description"
+          />
+        </div>
+        {!streaming && (
+          <div className="flex flex-col sm:flex-row gap-2 flex-shrink-0">
+            <div className="flex gap-2">
+              <button onClick={onUndo} disabled={!canUndo} className={iconButtonClass} title="Undo (Ctrl+Z)">
+                <UndoIcon className="w-4 h-4" />
+              </button>
+              <button onClick={onRedo} disabled={!canRedo} className={iconButtonClass} title="Redo (Ctrl+Shift+Z)">
+                <RedoIcon className="w-4 h-4" />
+              </button>
+            </div>
+            <button
+              onClick={copyJsonToClipboard}
+              className="flex items-center justify-center gap-2 text-sm bg-slate-700 hover:bg-slate-600 text-slate-300 font-medium py-2 px-3 rounded-md transition-colors"
+              title="Copy JSON to clipboard"
+            >
+              <CopyIcon className="w-4 h-4" />
+              <span>{copied ? 'Copied!' : 'Copy JSON'}</span>
+            </button>
+            <ExportMenu form={form} />
+            <button
+              onClick={onExportClick}
+              className="flex items-center justify-center gap-2 text-sm bg-cyan-500 hover:bg-cyan-400 text-slate-900 font-bold py-2 px-3 rounded-md transition-colors"
+              title="Create a real Google Form from this structure"
+            >
+              <GoogleFormsIcon className="w-4 h-4" />
+              <span>Create Google Form</span>
+            </button>
+          </div>
+        )}
+      </div>
+
+      {!streaming && (errorCount > 0 || warningCount > 0) && (
+        <div className={`flex items-start gap-3 text-sm p-3 mb-4 rounded-md border ${errorCount > 0 ? 'bg-red-900/30 border-red-700 text-red-300' : 'bg-yellow-900/20 border-yellow-700/50 text-yellow-300'}`}>
+          <WarningIcon className="w-5 h-5 flex-shrink-0" />
+          <div>
+            <p className="font-semibold">
+              {errorCount > 0 && `${errorCount} ${errorCount === 1 ? 'problem' : 'problems'}`}
+              {errorCount > 0 && warningCount > 0 && ' and '}
+              {warningCount > 0 && `${warningCount} ${warningCount === 1 ? 'warning' : 'warnings'}`}
+              {' '}found in the generated form.
+            </p>
+            <p className="text-xs opacity-80 mt-0.5">Review the flagged questions below before exporting.</p>
+            <DiagnosticList diagnostics={byItem.get(null) ?? []} />
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {form.items.map((item, index) => {
+          const isEditing = editingIndex === index;
+          const pageId = pages.pageOf[index];
+          const isPage = item.type === ItemType.PAGE_BREAK && !!item.pageId;
+          if (!isPage && !isEditing && pageId && collapsedPages.has(pageId)) return null;
+          return (
+            <div key={`item-${index}`} className="group">
+              {!streaming && (
+                <ItemToolbar
+                  index={index}
+                  count={form.items.length}
+                  isEditing={isEditing}
+                  onEdit={() => setEditingIndex(index)}
+                  onMove={to => handleMove(index, to)}
+                  onDuplicate={() => handleDuplicate(index)}
+                  onDelete={() => handleDelete(index)}
+                />
+              )}
+              {isEditing ? (
+                <ItemEditor form={form} index={index} onChange={onChange} onDone={() => setEditingIndex(null)} />
+              ) : isPage ? (
+                <PageCard
+                  item={item}
+                  number={pages.numbers.get(item.pageId!)!}
+                  collapsed={collapsedPages.has(item.pageId!)}
+                  itemCount={pages.sizes.get(item.pageId!) ?? 0}
+                  onToggle={() => togglePage(item.pageId!)}
+                  diagnostics={byItem.get(index)}
+                />
+              ) : item.type === ItemType.SECTION_HEADER ? (
+                <PassageCard item={item} diagnostics={byItem.get(index)} />
+              ) : (
+                <QuestionCard item={item} index={index} diagnostics={byItem.get(index)} pageTitles={pages.titles} />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {streaming ? (
+        <div className="mt-6 flex items-center justify-between gap-4 text-slate-400 bg-slate-900/50 border border-slate-700 rounded-lg p-4">
+          <div className="flex items-center gap-3">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-cyan-400"></div>
+            <span className="text-sm">Receiving more questions...</span>
+          </div>
+          <button onClick={onCancel} className="bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm font-bold py-2 px-4 rounded-lg transition-colors">
+            Stop and keep {form.items.length} {form.items.length === 1 ? 'item' : 'items'}
+          </button>
         </div>
-        <div className="flex flex-col sm:flex-row gap-2 flex-shrink-0">
+      ) : (
+        <div className="mt-6 flex gap-3">
           <button
-            onClick={copyJsonToClipboard}
-            className="flex items-center justify-center gap-2 text-sm bg-slate-700 hover:bg-slate-600 text-slate-300 font-medium py-2 px-3 rounded-md transition-colors"
-            title="Copy JSON to clipboard"
+            onClick={() => handleAdd()}
+            className="flex-grow flex items-center justify-center gap-2 text-sm border-2 border-dashed border-slate-600 hover:border-cyan-400 text-slate-400 hover:text-cyan-300 py-3 rounded-lg transition-colors"
           >
-            <CopyIcon className="w-4 h-4" />
-            <span>{copied ? 'Copied!' : 'Copy JSON'}</span>
+            <PlusIcon className="w-4 h-4" />
+            Add question
           </button>
           <button
-            onClick={onExportClick}
-            className="flex items-center justify-center gap-2 text-sm bg-cyan-500 hover:bg-cyan-400 text-slate-900 font-bold py-2 px-3 rounded-md transition-colors"
-            title="Create a real Google Form from this structure"
+            onClick={() => handleAdd(ItemType.PAGE_BREAK)}
+            className="flex items-center justify-center gap-2 text-sm border-2 border-dashed border-slate-600 hover:border-cyan-400 text-slate-400 hover:text-cyan-300 py-3 px-5 rounded-lg transition-colors"
           >
-            <GoogleFormsIcon className="w-4 h-4" />
-            <span>Create Google Form</span>
+            <PlusIcon className="w-4 h-4" />
+            Add page
           </button>
         </div>
-      </div>
-
-      <div className="space-y-6">
-        {form.items.map((item, index) => {
-          if (item.type === ItemType.SECTION_HEADER) {
-            return <PassageCard key={`item-${index}`} item={item} />;
-          }
-          return <QuestionCard key={`item-${index}`} item={item} index={index} />;
-        })}
-      </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import type { Form } from '../types';
+import { DEFAULT_TIME_LIMIT, GAME_PLATFORMS, nearestTimeLimit, planGameQuiz, toGameSpreadsheet } from '../services/gameExport';
+import { downloadFile, toFileName } from '../services/fileDownload';
+import { DownloadIcon, WarningIcon } from './icons';
+
+interface GameExportModalProps {
+  form: Form;
+  onClose: () => void;
+}
+
+const MIME_TYPES = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv',
+};
+
+export const GameExportModal: React.FC<GameExportModalProps> = ({ form, onClose }) => {
+  const [platformId, setPlatformId] = useState(GAME_PLATFORMS[0].id);
+  const [timeLimit, setTimeLimit] = useState(DEFAULT_TIME_LIMIT);
+  // Time limits chosen for single questions, by item index; the rest use `timeLimit`.
+  const [timeLimits, setTimeLimits] = useState<Record<number, number>>({});
+
+  const platform = GAME_PLATFORMS.find(p => p.id === platformId) || GAME_PLATFORMS[0];
+  const seconds = nearestTimeLimit(platform, timeLimit);
+  const { questions, issues } = useMemo(() => planGameQuiz(form, platform, seconds, timeLimits), [form, platform, seconds, timeLimits]);
+  const skippedCount = issues.filter(issue => issue.kind === 'skipped').length;
+
+  const setQuestionTime = (itemIndex: number, value: string) => {
+    const next = { ...timeLimits };
+    if (value === '') delete next[itemIndex];
+    else next[itemIndex] = Number(value);
+    setTimeLimits(next);
+  };
+
+  const handleDownload = () => {
+    const content = toGameSpreadsheet(form, platform, seconds, timeLimits);
+    downloadFile(content, `${toFileName(form.title)}-${platform.id}.${platform.fileType}`, MIME_TYPES[platform.fileType]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-slate-800 rounded-xl shadow-2xl border border-slate-700 w-full max-w-lg max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-slate-100">Export to a quiz game</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-300 transition-colors text-2xl leading-none">&times;</button>
+        </header>
+        <div className="p-6 overflow-y-auto space-y-5">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block text-sm text-slate-300">
+              Platform
+              <select
+                value={platformId}
+                onChange={e => setPlatformId(e.target.value as typeof platformId)}
+                className="mt-1 w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-slate-200"
+              >
+                {GAME_PLATFORMS.map(p => <option key={p.id} value={p.id}>{p.label} ({p.fileType.toUpperCase()})</option>)}
+              </select>
+            </label>
+            <label className="block text-sm text-slate-300">
+              Default time per question
+              <select
+                value={seconds}
+                onChange={e => setTimeLimit(Number(e.target.value))}
+                className="mt-1 w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-slate-200"
+              >
+                {platform.timeLimits.map(t => <option key={t} value={t}>{t} seconds</option>)}
+              </select>
+            </label>
+          </div>
+
+          <p className="text-sm text-slate-300">
+            {questions.length} of {questions.length + skippedCount} items will be exported.
+            {' '}{platform.label} only imports multiple-choice and checkbox questions with a marked answer.
+          </p>
+
+          {questions.length > 0 && (
+            <ul className="divide-y divide-slate-700 border border-slate-700 rounded-md">
+              {questions.map(q => (
+                <li key={q.itemIndex} className="flex items-center gap-3 text-sm p-2">
+                  <span className="flex-grow min-w-0 truncate text-slate-200" title={q.text}>{q.text}</span>
+                  <select
+                    value={timeLimits[q.itemIndex] === undefined ? '' : q.timeLimit}
+                    onChange={e => setQuestionTime(q.itemIndex, e.target.value)}
+                    aria-label={`Time for "${q.text}"`}
+                    className="flex-shrink-0 bg-slate-900 border border-slate-600 rounded-md p-1 text-slate-200"
+                  >
+                    <option value="">Default ({seconds} s)</option>
+                    {platform.timeLimits.map(t => <option key={t} value={t}>{t} seconds</option>)}
+                  </select>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {issues.length > 0 && (
+            <ul className="space-y-2">
+              {issues.map((issue, i) => (
+                <li
+                  key={i}
+                  className={`flex items-start gap-2 text-sm rounded-md p-3 border ${issue.kind === 'skipped' ? 'bg-red-900/20 border-red-700/50 text-red-300' : 'bg-yellow-900/20 border-yellow-700/50 text-yellow-300'}`}
+                >
+                  <WarningIcon className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                  <span>
+                    <span className="font-medium">{issue.kind === 'skipped' ? 'Not exported' : 'Changed'}: {issue.title || `Item ${issue.itemIndex + 1}`}.</span>
+                    {' '}{issue.message}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <footer className="p-4 border-t border-slate-700 flex justify-end gap-2">
+          <button onClick={onClose} className="bg-slate-700 text-slate-200 font-bold py-2 px-4 rounded-lg hover:bg-slate-600 transition-all">
+            Close
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={questions.length === 0}
+            className="flex items-center gap-2 bg-cyan-500 hover:bg-cyan-400 text-slate-900 font-bold py-2 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            Download
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
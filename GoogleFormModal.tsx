@@ -1,36 +1,113 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import type { Form, FormItem } from '../types';
-import { ItemType } from '../types';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { FeedbackLink, Form, FormImage, FormItem, ResponseValidation } from '../types';
+import { ItemType, SUBMIT_FORM } from '../types';
+import { validateForm, countBySeverity, scaleBounds } from '../services/formValidator';
+import { dataUrlParts, imageExtension } from '../services/formImages';
+import { GOOGLE_SCOPES, getGoogleClientId, isGoogleSignInReady, requestAccessToken } from '../services/googleAuth';
+import { batchUpdate, getForm, GoogleApiError } from '../services/googleFormsApi';
+import type { ApiForm } from '../services/googleFormsApi';
+import { hostFormImages, needsImageHosting, removeHostedImages } from '../services/googleFormsImages';
+import { discardPublish, pendingItems, PublishError, runPublish, startPublish } from '../services/googleFormsPublish';
+import type { PublishItemReport, PublishJob } from '../services/googleFormsPublish';
+import { diffForm } from '../services/googleFormsDiff';
+import type { FormDiff } from '../services/googleFormsDiff';
+import { findPublishedForm, forgetPublishedForm, listPublishedForms, rememberPublishedForm } from '../services/publishedForms';
+import type { PublishedForm } from '../services/publishedForms';
 import { GoogleFormsIcon, WarningIcon, CheckIcon, ExternalLinkIcon, CopyIcon } from './icons';
 
-// Declare the google object from the GSI client library
-declare const google: any;
-
 interface GoogleFormModalProps {
   isOpen: boolean;
   onClose: () => void;
   form: Form;
+  /** Called once the form has been created or updated in Google Forms. */
+  onPublished?: (published: Omit<PublishedForm, 'updatedAt'>) => void;
 }
 
-type Status = 'idle' | 'authenticating' | 'creating' | 'success' | 'error';
+type Status = 'idle' | 'authenticating' | 'creating' | 'partial' | 'rollingBack' | 'rolledBack' | 'comparing' | 'review' | 'updating' | 'success' | 'error';
+
+const CHANGE_LABELS: Record<FormDiff['changes'][number]['kind'], string> = {
+  info: 'Update title and description',
+  create: 'Add',
+  update: 'Edit',
+  delete: 'Remove',
+  move: 'Move',
+};
+
+/** A `QuizFeedback` builder expression for the script. */
+const appsScriptFeedback = (text: string, links: FeedbackLink[] = []) =>
+    `FormApp.createFeedback().setText(${JSON.stringify(text)})${links.map(link => `.addLink(${JSON.stringify(link.url)}${link.label ? `, ${JSON.stringify(link.label)}` : ''})`).join('')}.build()`;
+
+/** A `TextValidation` builder expression for the script. */
+const appsScriptValidation = ({ kind, min, max, pattern, message }: ResponseValidation) => {
+    const both = min !== undefined && max !== undefined;
+    const rules: Record<ResponseValidation['kind'], string> = {
+        NUMBER: both ? `requireNumberBetween(${min}, ${max})`
+            : min !== undefined ? `requireNumberGreaterThanOrEqualTo(${min})`
+            : max !== undefined ? `requireNumberLessThanOrEqualTo(${max})`
+            : 'requireNumber()',
+        INTEGER: 'requireWholeNumber()',
+        // Google Forms checks only one length bound, so a range becomes a pattern.
+        LENGTH: both ? `requireTextMatchesPattern(${JSON.stringify(`[\\s\\S]{${min},${max}}`)})`
+            : min !== undefined ? `requireTextLengthGreaterThanOrEqualTo(${min})`
+            : `requireTextLengthLessThanOrEqualTo(${max})`,
+        PATTERN: `requireTextMatchesPattern(${JSON.stringify(pattern || '')})`,
+        EMAIL: 'requireTextIsEmail()',
+        URL: 'requireTextIsUrl()',
+    };
+    return `FormApp.createTextValidation()${message ? `.setHelpText(${JSON.stringify(message)})` : ''}.${rules[kind]}.build()`;
+};
+
+/** A `Blob` expression for the script: the picture's data inline, or fetched from its web address. */
+const appsScriptImageBlob = (image: FormImage, name: string) => {
+    const parts = dataUrlParts(image.src);
+    return parts
+        ? `Utilities.newBlob(Utilities.base64Decode(${JSON.stringify(parts.data)}), ${JSON.stringify(parts.mimeType)}, ${JSON.stringify(`${name}.${imageExtension(parts.mimeType)}`)})`
+        : `UrlFetchApp.fetch(${JSON.stringify(image.src)}).getBlob()`;
+};
 
-const SCOPES = 'https://www.googleapis.com/auth/forms.body';
-let tokenClient: any = null;
+/**
+ * Adds an item's pictures to its script. Apps Script has no question pictures, so a question's
+ * picture becomes an image item just before it, and a header with a picture an image item
+ * instead; choices can't have pictures at all.
+ */
+const withAppsScriptImages = (item: FormItem, index: number, setup: string) => {
+    const name = `picture-${index + 1}`;
+    if (item.image && item.type === ItemType.SECTION_HEADER) {
+        return `  form.addImageItem().setTitle(${JSON.stringify(item.title)}).setHelpText(${JSON.stringify(item.description || '')}).setImage(${appsScriptImageBlob(item.image, name)});`;
+    }
+    const lines = [setup];
+    if (item.image) {
+        lines.unshift(`  form.addImageItem().setImage(${appsScriptImageBlob(item.image, name)});`);
+    }
+    if (item.optionImages?.length) {
+        lines.push(`  // Apps Script can't add pictures to choices. Add the pictures for ${JSON.stringify(item.title)} in the Form editor.`);
+    }
+    return lines.join('\n');
+};
 
 /**
  * Generates a Google Apps Script string to manually create the form as a quiz.
  */
 const generateAppsScript = (form: Form): string => {
-    const formItems = form.items.map(item => {
+    // Branches go to pages further down, so their choices are set once every page exists.
+    const branchSetups: string[] = [];
+    const formItems = form.items.map((item, index) => {
         const title = JSON.stringify(item.title);
         const points = item.points || 0;
         const required = !!item.required;
+        const feedback = item.feedback || {};
+        const generalFeedback = feedback.general
+            ? `\n  item.setGeneralFeedback(${appsScriptFeedback(feedback.general, feedback.links)});`
+            : '';
 
         let itemSetup = '';
 
         switch (item.type) {
             case ItemType.SHORT_ANSWER:
                 itemSetup = `  var item = form.addTextItem().setTitle(${title}).setRequired(${required});`;
+                if (item.validation) {
+                    itemSetup += `\n  item.setValidation(${appsScriptValidation(item.validation)});`;
+                }
                 if (points > 0) {
                     itemSetup += `\n  item.setPoints(${points});`;
                     
@@ -44,9 +121,12 @@ const generateAppsScript = (form: Form): string => {
                     }
                     itemSetup += `\n  // -------------------------------------------------------------`;
                 }
-                return itemSetup;
+                return itemSetup + generalFeedback;
 
             case ItemType.PARAGRAPH:
+                if (generalFeedback) {
+                    return `  var item = form.addParagraphTextItem().setTitle(${title}).setRequired(${required});${generalFeedback}`;
+                }
                 return `  form.addParagraphTextItem().setTitle(${title}).setRequired(${required});`;
 
             case ItemType.MULTIPLE_CHOICE:
@@ -69,7 +149,19 @@ const generateAppsScript = (form: Form): string => {
                     return `item.createChoice(${JSON.stringify(option)}, ${isCorrect})`;
                 }).join(', ');
                 
-                itemSetup += `\n  item.setChoices([${choices}]);`;
+                if (item.branches?.length) {
+                    // A choice can go to a page or be marked correct, but not both.
+                    const branchChoices = (item.options || []).map(option => {
+                        const goTo = item.branches!.find(b => b.option === option)?.goTo;
+                        const target = !goTo ? 'FormApp.PageNavigationType.CONTINUE'
+                            : goTo === SUBMIT_FORM ? 'FormApp.PageNavigationType.SUBMIT' : `page_${goTo}`;
+                        return `item_${index}.createChoice(${JSON.stringify(option)}, ${target})`;
+                    }).join(', ');
+                    itemSetup += `\n  var item_${index} = item;`;
+                    branchSetups.push(`  item_${index}.setChoices([${branchChoices}]);${hasAnswerKey ? `\n  // Set the answer key for ${title} in the Form editor; choices that go to a page cannot also be marked correct.` : ''}`);
+                } else {
+                    itemSetup += `\n  item.setChoices([${choices}]);`;
+                }
                 
                 if (points > 0) {
                     itemSetup += `\n  item.setPoints(${points});`;
@@ -78,15 +170,53 @@ const generateAppsScript = (form: Form): string => {
                 if (points > 0 && !hasAnswerKey) {
                     itemSetup += `\n  // AI WARNING: This question was assigned points, but the AI did not identify a correct answer. Please set the answer manually in the Form editor.`;
                 }
+                if (feedback.correct) {
+                    itemSetup += `\n  item.setFeedbackForCorrect(${appsScriptFeedback(feedback.correct)});`;
+                }
+                if (feedback.incorrect) {
+                    itemSetup += `\n  item.setFeedbackForIncorrect(${appsScriptFeedback(feedback.incorrect, feedback.links)});`;
+                }
                 return itemSetup;
 
             case ItemType.SECTION_HEADER:
                 const description = JSON.stringify(item.description || '');
                 return `  form.addSectionHeaderItem().setTitle(${title}).setHelpText(${description});`;
+
+            case ItemType.PAGE_BREAK:
+                return `  var page_${item.pageId} = form.addPageBreakItem().setTitle(${title}).setHelpText(${JSON.stringify(item.description || '')});`;
+
+            case ItemType.LINEAR_SCALE: {
+                const { low, high } = scaleBounds(item);
+                itemSetup = `  var item = form.addScaleItem().setTitle(${title}).setBounds(${low}, ${high}).setRequired(${required});`;
+                if (item.lowLabel || item.highLabel) {
+                    itemSetup += `\n  item.setLabels(${JSON.stringify(item.lowLabel || '')}, ${JSON.stringify(item.highLabel || '')});`;
+                }
+                return itemSetup;
+            }
+
+            case ItemType.MULTIPLE_CHOICE_GRID:
+            case ItemType.CHECKBOX_GRID: {
+                const gridMethod = item.type === ItemType.CHECKBOX_GRID ? 'addCheckboxGridItem' : 'addGridItem';
+                itemSetup = `  var item = form.${gridMethod}().setTitle(${title}).setRequired(${required});`;
+                itemSetup += `\n  item.setRows(${JSON.stringify(item.rows || [])});`;
+                itemSetup += `\n  item.setColumns(${JSON.stringify(item.options || [])});`;
+                return itemSetup;
+            }
+
+            case ItemType.DATE:
+                return `  form.${item.includeTime ? 'addDateTimeItem' : 'addDateItem'}().setTitle(${title}).setIncludesYear(true).setRequired(${required});`;
+
+            case ItemType.TIME:
+                return `  form.${item.duration ? 'addDurationItem' : 'addTimeItem'}().setTitle(${title}).setRequired(${required});`;
+
+            case ItemType.RATING:
+                itemSetup = `  var item = form.addRatingItem().setTitle(${title}).setRequired(${required});`;
+                itemSetup += `\n  item.setRatingScaleLevel(${scaleBounds(item).high}).setRatingIcon(FormApp.RatingIconType.${item.ratingIcon || 'STAR'});`;
+                return itemSetup;
             default:
                 return `  // Unsupported item type: ${item.type} for item "${item.title}"`;
         }
-    }).join('\n\n');
+    }).map((setup, index) => withAppsScriptImages(form.items[index], index, setup)).concat(branchSetups.length > 0 ? [`  // Where each answer leads\n${branchSetups.join('\n')}`] : []).join('\n\n');
 
     return `function createFormFromAI() {
   /* 
@@ -119,76 +249,33 @@ ${formItems}
 };
 
 
-const mapItemToApiRequest = (item: FormItem) => {
-    let itemRequest;
-    
-    // Base question object that will be populated
-    const question: {
-        required?: boolean;
-        grading?: { pointValue?: number; correctAnswers?: { answers: { value: string }[] } };
-        textQuestion?: { paragraph: boolean };
-        choiceQuestion?: { type: string; options: { value: string }[] };
-    } = {};
-
-    if (item.required) {
-        question.required = true;
-    }
-
-    if (item.points && item.points > 0 && item.correctAnswer) {
-        const answers = Array.isArray(item.correctAnswer) ? item.correctAnswer : [item.correctAnswer];
-        question.grading = {
-            pointValue: item.points,
-            correctAnswers: { answers: answers.map(value => ({ value })) }
-        };
-    }
-
-    switch (item.type) {
-        case ItemType.SHORT_ANSWER:
-            question.textQuestion = { paragraph: false };
-            itemRequest = { questionItem: { question } };
-            break;
-        case ItemType.PARAGRAPH:
-            // Paragraphs don't have grading, so create a new question object for it
-             const paragraphQuestion: { required?: boolean; textQuestion: any } = { textQuestion: { paragraph: true } };
-            if (item.required) {
-                paragraphQuestion.required = true;
-            }
-            itemRequest = { questionItem: { question: paragraphQuestion } };
-            break;
-        case ItemType.MULTIPLE_CHOICE:
-        case ItemType.CHECKBOXES:
-        case ItemType.DROPDOWN:
-            question.choiceQuestion = {
-                type: item.type === ItemType.MULTIPLE_CHOICE ? 'RADIO' : item.type === ItemType.CHECKBOXES ? 'CHECKBOX' : 'DROP_DOWN',
-                options: item.options?.map(opt => ({ value: opt })) || [],
-            };
-            itemRequest = { questionItem: { question } };
-            break;
-        case ItemType.SECTION_HEADER:
-            itemRequest = { textItem: {} };
-            return { createItem: { item: { title: item.title, description: item.description, ...itemRequest }, location: { index: 0 } } };
-        default:
-            return null;
-    }
-
-    return { createItem: { item: { title: item.title, ...itemRequest }, location: { index: 0 } } };
-};
-
-
-export const GoogleFormModal: React.FC<GoogleFormModalProps> = ({ isOpen, onClose, form }) => {
-  const CLIENT_ID = process.env.GOOGLE_CLIENT_ID;
-  const [isConfigured] = useState(!!CLIENT_ID);
+export const GoogleFormModal: React.FC<GoogleFormModalProps> = ({ isOpen, onClose, form, onPublished }) => {
+  const [isConfigured] = useState(!!getGoogleClientId());
 
   // State for OAuth flow
   const [status, setStatus] = useState<Status>('idle');
   const [error, setError] = useState<string | null>(null);
   const [formUrl, setFormUrl] = useState<string | null>(null);
   const [isGsiLoaded, setIsGsiLoaded] = useState(false);
+
+  // State for updating a form published earlier instead of creating a new one
+  const [publishedForms, setPublishedForms] = useState<PublishedForm[]>([]);
+  const [targetFormId, setTargetFormId] = useState('');
+  const [diff, setDiff] = useState<FormDiff | null>(null);
+  const [wasUpdated, setWasUpdated] = useState(false);
+  // State for a new form that is added in batches, and can be resumed or removed if a batch fails
+  const [job, setJob] = useState<PublishJob | null>(null);
+  const [progress, setProgress] = useState<{ batch: number; batchCount: number } | null>(null);
+  const pendingToken = useRef<string | null>(null);
+  const pendingUpdate = useRef<{ accessToken: string; remote: ApiForm } | null>(null);
   
   // State for manual script fallback
   const [appsScript, setAppsScript] = useState('');
   const [copied, setCopied] = useState(false);
 
+  const errorCount = useMemo(() => countBySeverity(validateForm(form).diagnostics, 'error'), [form]);
+  // The Forms API has no response validation; only the Apps Script can set it.
+  const validatedCount = useMemo(() => form.items.filter(item => item.validation).length, [form]);
 
   useEffect(() => {
     if (!isOpen) return;
@@ -198,9 +285,13 @@ export const GoogleFormModal: React.FC<GoogleFormModalProps> = ({ isOpen, onClos
       setStatus('idle');
       setError(null);
       setFormUrl(null);
+      setDiff(null);
+      setJob(null);
+      setPublishedForms(listPublishedForms());
+      setTargetFormId(findPublishedForm(form.title)?.formId || '');
       
       const checkGsi = () => {
-        if (typeof google !== 'undefined' && google.accounts) {
+        if (isGoogleSignInReady()) {
           setIsGsiLoaded(true);
         } else {
           setTimeout(checkGsi, 100);
@@ -213,90 +304,128 @@ export const GoogleFormModal: React.FC<GoogleFormModalProps> = ({ isOpen, onClos
     }
   }, [isOpen, form, isConfigured]);
   
-  const createForm = useCallback(async (accessToken: string) => {
+  const runJob = useCallback(async (job: PublishJob, accessToken: string) => {
     setStatus('creating');
     setError(null);
-
-    const formRequestBody = { info: { title: form.title, documentTitle: form.title } };
-
     try {
-      const createResponse = await fetch('https://forms.googleapis.com/v1/forms', {
-        method: 'POST',
-        headers: { 'Authorization': `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
-        body: JSON.stringify(formRequestBody),
-      });
-      const createData = await createResponse.json();
-      if (!createResponse.ok) throw new Error(createData.error?.message || 'Failed to create the initial form.');
-      
-      const formId = createData.formId;
-
-      const quizSettingsRequest = {
-        updateSettings: {
-          settings: { quizSettings: { isQuiz: true } },
-          updateMask: 'quizSettings.isQuiz',
-        },
-      };
-
-      const itemRequests = form.items.map(mapItemToApiRequest).filter(Boolean).reverse(); // Reverse to insert at top
-
-      const descriptionUpdateRequest = {
-        updateFormInfo: {
-          info: { description: form.description },
-          updateMask: 'description',
-        },
-      };
-
-      const allRequests = [quizSettingsRequest, ...itemRequests, descriptionUpdateRequest];
-      
-      if (allRequests.length > 0) {
-        const batchUpdateResponse = await fetch(`https://forms.googleapis.com/v1/forms/${formId}:batchUpdate`, {
-            method: 'POST',
-            headers: { 'Authorization': `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
-            body: JSON.stringify({ requests: allRequests, includeFormInResponse: false }),
-        });
-         if (!batchUpdateResponse.ok) {
-            const errorData = await batchUpdateResponse.json();
-            throw new Error(errorData.error?.message || 'Failed to update the form with items and settings.');
-         }
-      }
-
-      setFormUrl(createData.responderUri);
+      const done = await runPublish(job, accessToken, (batch, batchCount) => setProgress({ batch, batchCount }));
+      const published = { formId: done.formId, title: form.title, responderUri: done.responderUri };
+      rememberPublishedForm(published);
+      onPublished?.(published);
+      setJob(done);
+      setFormUrl(done.responderUri || null);
+      setWasUpdated(false);
       setStatus('success');
     } catch (err) {
       console.error(err);
+      if (err instanceof PublishError) setJob(err.job);
       setError(err instanceof Error ? err.message : 'An unknown error occurred during form creation.');
+      setStatus(err instanceof PublishError ? 'partial' : 'error');
+    } finally {
+      setProgress(null);
+    }
+  }, [form.title, onPublished]);
+
+  const createForm = useCallback(async (accessToken: string) => {
+    setStatus('creating');
+    setError(null);
+    pendingToken.current = accessToken;
+    try {
+      await runJob(await startPublish(form, accessToken), accessToken);
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'Failed to create the initial form.');
       setStatus('error');
     }
-  }, [form]);
+  }, [form, runJob]);
+
+  const handleResume = () => {
+    if (job && pendingToken.current) runJob(job, pendingToken.current);
+  };
+
+  const handleDeleteIncomplete = async () => {
+    if (!job || !pendingToken.current) return;
+    setStatus('rollingBack');
+    try {
+      await discardPublish(job, pendingToken.current);
+      setJob(null);
+      setStatus('rolledBack');
+    } catch (err) {
+      console.error(err);
+      setError(`The incomplete form could not be removed: ${err instanceof Error ? err.message : 'unknown error'}. You can delete it from Google Drive.`);
+      setStatus('partial');
+    }
+  };
 
-  const handleAuthAndCreate = useCallback(() => {
-    if (!isGsiLoaded || !CLIENT_ID) {
-      setError('Authentication libraries are not ready. Please try again in a moment.');
+  const handleAuthAndCreate = useCallback(async () => {
+    setStatus('authenticating');
+    try {
+      const accessToken = await requestAccessToken([GOOGLE_SCOPES.formsBody, GOOGLE_SCOPES.driveFile]);
+      await createForm(accessToken);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The sign-in process was closed or failed.');
       setStatus('error');
-      return;
     }
+  }, [createForm]);
 
+  // Reads the published form and previews the changes; nothing is written until they're applied.
+  const handleAuthAndCompare = useCallback(async () => {
     setStatus('authenticating');
-    
-    tokenClient = google.accounts.oauth2.initTokenClient({
-      client_id: CLIENT_ID,
-      scope: SCOPES,
-      callback: (tokenResponse: any) => {
-        if (tokenResponse && tokenResponse.access_token) {
-          createForm(tokenResponse.access_token);
-        } else {
-          setError('Authentication failed. No access token received.');
-          setStatus('error');
+    setError(null);
+    try {
+      // Pictures are uploaded to Drive for Google to copy, which needs the Drive scope too.
+      const accessToken = await requestAccessToken(needsImageHosting(form) ? [GOOGLE_SCOPES.formsBody, GOOGLE_SCOPES.driveFile] : [GOOGLE_SCOPES.formsBody]);
+      setStatus('comparing');
+      const remote = await getForm(targetFormId, accessToken).catch(err => {
+        if (err instanceof GoogleApiError && err.status === 404) {
+          forgetPublishedForm(targetFormId);
+          setPublishedForms(listPublishedForms());
+          setTargetFormId('');
+          throw new Error('That form no longer exists or you no longer have access to it. Create a new form instead.');
         }
-      },
-      error_callback: (error: any) => {
-        setError(`Authentication error: ${error.message || 'The sign-in process was closed or failed.'}`);
-        setStatus('error');
-      }
-    });
+        throw err;
+      });
+      pendingUpdate.current = { accessToken, remote };
+      setDiff(diffForm(form, remote));
+      setStatus('review');
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : 'The published form could not be read.');
+      setStatus('error');
+    }
+  }, [form, targetFormId]);
 
-    tokenClient.requestAccessToken();
-  }, [createForm, isGsiLoaded, CLIENT_ID]);
+  const handleApplyChanges = useCallback(async () => {
+    if (!diff || !pendingUpdate.current) return;
+    const { accessToken, remote } = pendingUpdate.current;
+    const responderUri = remote.responderUri;
+    setStatus('updating');
+    try {
+      if (diff.requests.length > 0) {
+        // The previewed requests carry the pictures inline; Google needs links it can fetch.
+        const hosted = needsImageHosting(form) ? await hostFormImages(form, accessToken) : { form, fileIds: [] };
+        try {
+          await batchUpdate(targetFormId, accessToken, diffForm(hosted.form, remote).requests, remote.revisionId);
+        } finally {
+          await removeHostedImages(hosted.fileIds, accessToken);
+        }
+      }
+      const published = { formId: targetFormId, title: form.title, responderUri };
+      rememberPublishedForm(published);
+      onPublished?.(published);
+      setFormUrl(responderUri || null);
+      setWasUpdated(true);
+      setStatus('success');
+    } catch (err) {
+      console.error(err);
+      if (err instanceof GoogleApiError && err.isRevisionMismatch) {
+        setError('The form was changed in Google Forms since the changes were previewed. Review them again.');
+      } else {
+        setError(err instanceof Error ? err.message : 'An unknown error occurred while updating the form.');
+      }
+      setStatus('error');
+    }
+  }, [diff, form, targetFormId, onPublished]);
 
   const handleTryAgain = () => {
     setStatus('idle');
@@ -310,6 +439,20 @@ export const GoogleFormModal: React.FC<GoogleFormModalProps> = ({ isOpen, onClos
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const renderItemReports = (reports: PublishItemReport[], label: string, showReasons = false) => reports.length > 0 && (
+    <div className="space-y-1">
+      <p className="text-sm font-medium text-slate-300">{label} ({reports.length})</p>
+      <ul className="text-sm text-slate-400 max-h-40 overflow-y-auto space-y-1">
+        {reports.map(report => (
+          <li key={report.itemIndex} className="bg-slate-900/50 border border-slate-700 rounded-md px-3 py-1.5">
+            <span className="text-slate-300">{report.itemIndex + 1}. {report.title || 'Untitled'}</span>
+            {showReasons && <span className="text-slate-500"> — {report.reason}</span>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
   const renderContent = () => {
     if (!isConfigured) {
       return (
@@ -351,19 +494,108 @@ export const GoogleFormModal: React.FC<GoogleFormModalProps> = ({ isOpen, onClos
     // OAuth Flow UI
     switch (status) {
       case 'creating':
+      case 'rollingBack':
+      case 'comparing':
+      case 'updating':
         return (
           <div className="flex flex-col items-center justify-center min-h-[250px] text-center">
             <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-cyan-400"></div>
-            <p className="mt-4 text-lg text-slate-300">Creating your form...</p>
+            <p className="mt-4 text-lg text-slate-300">
+              {status === 'creating'
+                ? progress && progress.batchCount > 1 ? `Adding questions (part ${progress.batch} of ${progress.batchCount})...` : 'Creating your form...'
+                : status === 'rollingBack' ? 'Removing the incomplete form...'
+                : status === 'comparing' ? 'Comparing with the published form...' : 'Updating your form...'}
+            </p>
             <p className="text-sm text-slate-400">Please wait while we set things up in your Google Drive.</p>
           </div>
         );
+      case 'partial':
+        return job && (
+          <div className="space-y-4">
+            <div className="flex items-start gap-3 bg-red-900/20 border border-red-700/50 rounded-lg p-4">
+              <WarningIcon className="w-6 h-6 text-red-400 flex-shrink-0" />
+              <div>
+                <h3 className="font-bold text-red-300">The form was only partly created</h3>
+                <p className="text-sm text-red-400 mt-1">{error}</p>
+              </div>
+            </div>
+            {renderItemReports(pendingItems(job), 'Not added yet')}
+            {renderItemReports(job.skipped, 'Skipped', true)}
+            <div className="flex flex-col sm:flex-row gap-2">
+              <button onClick={handleResume} className="flex-1 bg-cyan-500 text-slate-900 font-bold py-3 px-4 rounded-lg hover:bg-cyan-400 transition-all">
+                Resume
+              </button>
+              <button onClick={handleDeleteIncomplete} className="flex-1 bg-slate-700 text-slate-200 font-bold py-3 px-4 rounded-lg hover:bg-slate-600 transition-all">
+                Move incomplete form to trash
+              </button>
+            </div>
+          </div>
+        );
+      case 'rolledBack':
+        return (
+          <div className="flex flex-col items-center justify-center min-h-[250px] text-center">
+            <CheckIcon className="w-12 h-12 text-slate-400 mb-4" />
+            <h3 className="text-xl font-bold text-slate-100">Incomplete form removed</h3>
+            <p className="text-slate-400 mt-2 mb-6">It was moved to the trash in your Google Drive.</p>
+            <button onClick={handleTryAgain} className="bg-slate-600 hover:bg-slate-500 text-slate-100 font-bold py-2 px-6 rounded-lg transition-all">
+                Try Again
+            </button>
+          </div>
+        );
+      case 'review':
+        return diff && (
+          <div className="space-y-4">
+            <div>
+              <h3 className="text-lg font-bold text-slate-100">
+                {diff.changes.length === 0 ? 'The published form is up to date' : `${diff.changes.length} ${diff.changes.length === 1 ? 'change' : 'changes'} to apply`}
+              </h3>
+              <p className="text-sm text-slate-400">
+                The form keeps its link and its responses. Edited and moved questions keep the responses already collected for them.
+              </p>
+            </div>
+            {diff.changes.length > 0 && (
+              <ul className="space-y-1 max-h-64 overflow-y-auto text-sm">
+                {diff.changes.map((change, i) => (
+                  <li key={i} className="flex gap-2 bg-slate-900/50 border border-slate-700 rounded-md px-3 py-2">
+                    <span className={`font-medium flex-shrink-0 ${change.kind === 'delete' ? 'text-red-300' : change.kind === 'create' ? 'text-green-300' : 'text-cyan-300'}`}>
+                      {CHANGE_LABELS[change.kind]}
+                    </span>
+                    <span className="text-slate-300 min-w-0 truncate">
+                      {change.title}
+                      {change.fields && <span className="text-slate-500"> ({change.fields.join(', ')})</span>}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {diff.keptCount > 0 && (
+              <p className="text-xs text-slate-400">
+                {diff.keptCount} {diff.keptCount === 1 ? 'item' : 'items'} in the published form can't be edited here and will be left as they are.
+              </p>
+            )}
+            <div className="flex gap-2">
+              <button onClick={handleTryAgain} className="flex-1 bg-slate-700 text-slate-200 font-bold py-3 px-4 rounded-lg hover:bg-slate-600 transition-all">
+                Back
+              </button>
+              <button
+                onClick={handleApplyChanges}
+                disabled={diff.changes.length === 0}
+                className="flex-1 bg-cyan-500 text-slate-900 font-bold py-3 px-4 rounded-lg hover:bg-cyan-400 transition-all disabled:bg-slate-600 disabled:cursor-not-allowed disabled:text-slate-400"
+              >
+                Apply changes
+              </button>
+            </div>
+          </div>
+        );
       case 'success':
         return (
            <div className="flex flex-col items-center justify-center min-h-[250px] text-center">
             <CheckIcon className="w-16 h-16 text-green-400 mb-4" />
-            <h3 className="text-xl font-bold text-slate-100">Form Created Successfully!</h3>
-            <p className="text-slate-400 mt-2 mb-6">Your new form is now available in your Google Drive.</p>
+            <h3 className="text-xl font-bold text-slate-100">{wasUpdated ? 'Form Updated Successfully!' : 'Form Created Successfully!'}</h3>
+            <p className="text-slate-400 mt-2 mb-6">
+              {wasUpdated ? 'Students can keep using the same link.' : 'Your new form is now available in your Google Drive.'}
+            </p>
+            {!wasUpdated && job && job.skipped.length > 0 && <div className="w-full text-left mb-4">{renderItemReports(job.skipped, 'Skipped', true)}</div>}
             <a href={formUrl || ''} target="_blank" rel="noopener noreferrer" className="w-full flex items-center justify-center gap-2 bg-cyan-500 text-slate-900 font-bold py-3 px-4 rounded-lg hover:bg-cyan-400 transition-all">
                 <ExternalLinkIcon className="w-5 h-5" />
                 Open Form
@@ -386,15 +618,36 @@ export const GoogleFormModal: React.FC<GoogleFormModalProps> = ({ isOpen, onClos
       default:
         return (
            <div className="flex flex-col items-center justify-center min-h-[250px] text-center">
-            <h3 className="text-xl font-bold text-slate-100">Ready to Create Your Quiz?</h3>
-            <p className="text-slate-400 mt-2 mb-6 max-w-md">To continue, sign in with Google. This will securely create the form as a quiz directly in your Google Drive.</p>
+            <h3 className="text-xl font-bold text-slate-100">{targetFormId ? 'Ready to Update Your Quiz?' : 'Ready to Create Your Quiz?'}</h3>
+            <p className="text-slate-400 mt-2 mb-6 max-w-md">
+              {targetFormId
+                ? 'To continue, sign in with Google. You will see the changes before anything in the published form is changed.'
+                : 'To continue, sign in with Google. This will securely create the form as a quiz directly in your Google Drive.'}
+            </p>
+            {publishedForms.length > 0 && (
+              <label className="w-full text-left text-sm text-slate-300 mb-4">
+                Publish to
+                <select
+                  value={targetFormId}
+                  onChange={e => setTargetFormId(e.target.value)}
+                  className="mt-1 w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-slate-200"
+                >
+                  <option value="">A new Google Form</option>
+                  {publishedForms.map(f => (
+                    <option key={f.formId} value={f.formId}>
+                      Update “{f.title}” ({new Date(f.updatedAt).toLocaleDateString()})
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
              <button
-                onClick={handleAuthAndCreate}
+                onClick={targetFormId ? handleAuthAndCompare : handleAuthAndCreate}
                 disabled={status === 'authenticating' || !isGsiLoaded}
                 className="w-full flex items-center justify-center gap-3 bg-cyan-500 text-slate-900 font-bold py-3 px-4 rounded-lg hover:bg-cyan-400 transition-all disabled:bg-slate-600 disabled:cursor-not-allowed disabled:text-slate-400"
               >
                 <GoogleFormsIcon className="w-5 h-5" />
-                {status === 'authenticating' ? 'Signing in...' : 'Sign in & Create Quiz'}
+                {status === 'authenticating' ? 'Signing in...' : targetFormId ? 'Sign in & Review Changes' : 'Sign in & Create Quiz'}
               </button>
           </div>
         );
@@ -417,6 +670,21 @@ export const GoogleFormModal: React.FC<GoogleFormModalProps> = ({ isOpen, onClos
           <button onClick={onClose} className="text-slate-500 hover:text-slate-300 transition-colors text-2xl leading-none">&times;</button>
         </header>
         <div className="p-6 overflow-y-auto">
+            {errorCount > 0 && (
+              <div className="flex items-start gap-2 text-sm bg-red-900/30 border border-red-700 text-red-300 p-3 mb-4 rounded-md">
+                <WarningIcon className="w-5 h-5 flex-shrink-0" />
+                <span>{errorCount} {errorCount === 1 ? 'problem is' : 'problems are'} flagged in the preview. Flagged questions will be exported as-is unless you fix them first.</span>
+              </div>
+            )}
+            {isConfigured && validatedCount > 0 && (
+              <div className="flex items-start gap-2 text-sm bg-yellow-900/20 border border-yellow-700/50 text-yellow-300 p-3 mb-4 rounded-md">
+                <WarningIcon className="w-5 h-5 flex-shrink-0" />
+                <span>
+                  {validatedCount} {validatedCount === 1 ? 'question has' : 'questions have'} response validation, which Google Forms can't receive from this app.
+                  Add {validatedCount === 1 ? 'it' : 'them'} in the Google Forms editor after publishing.
+                </span>
+              </div>
+            )}
             {renderContent()}
         </div>
         <footer className="p-4 border-t border-slate-700 text-right">
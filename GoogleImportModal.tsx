@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import type { Form } from '../types';
+import { GOOGLE_SCOPES, getGoogleClientId, isGoogleSignInReady, requestAccessToken } from '../services/googleAuth';
+import { getForm, parseFormId } from '../services/googleFormsApi';
+import type { ApiForm } from '../services/googleFormsApi';
+import { fromGoogleForm } from '../services/googleFormsImport';
+import type { ImportedForm } from '../services/googleFormsImport';
+import { rememberPublishedForm } from '../services/publishedForms';
+import type { PublishedForm } from '../services/publishedForms';
+import { GoogleFormsIcon, WarningIcon, CheckIcon, UploadIcon } from './icons';
+
+interface GoogleImportModalProps {
+  onClose: () => void;
+  /** `source` is the Google Form it was read from, when the response named one. */
+  onImport: (form: Form, source?: Omit<PublishedForm, 'updatedAt'>) => void;
+}
+
+type Status = 'idle' | 'authenticating' | 'loading' | 'done' | 'error';
+
+export const GoogleImportModal: React.FC<GoogleImportModalProps> = ({ onClose, onImport }) => {
+  const isConfigured = !!getGoogleClientId();
+  const [link, setLink] = useState('');
+  const [status, setStatus] = useState<Status>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ImportedForm | null>(null);
+  const [source, setSource] = useState<Omit<PublishedForm, 'updatedAt'> | undefined>();
+  const [isGsiLoaded, setIsGsiLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!isConfigured) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const checkGsi = () => {
+      if (isGoogleSignInReady()) setIsGsiLoaded(true);
+      else timer = setTimeout(checkGsi, 100);
+    };
+    checkGsi();
+    return () => clearTimeout(timer);
+  }, [isConfigured]);
+
+  const fail = (err: unknown) => {
+    console.error(err);
+    setError(err instanceof Error ? err.message : 'The form could not be imported.');
+    setStatus('error');
+  };
+
+  const finish = (apiForm: ApiForm) => {
+    const imported = fromGoogleForm(apiForm);
+    // Remembered so that publishing the edited form can update this one instead of creating a copy.
+    const published = apiForm.formId ? { formId: apiForm.formId, title: imported.form.title, responderUri: apiForm.responderUri } : undefined;
+    if (published) rememberPublishedForm(published);
+    setSource(published);
+    setResult(imported);
+    setStatus('done');
+  };
+
+  const handleImport = async () => {
+    setError(null);
+    try {
+      const formId = parseFormId(link);
+      setStatus('authenticating');
+      const token = await requestAccessToken([GOOGLE_SCOPES.formsReadonly]);
+      setStatus('loading');
+      finish(await getForm(formId, token));
+    } catch (err) {
+      fail(err);
+    }
+  };
+
+  // A saved `forms.get` response, e.g. from the API Explorer, imports without signing in.
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const data = JSON.parse(await file.text());
+      if (!data || typeof data !== 'object' || !data.info) throw new Error('That file is not a Google Forms API response.');
+      finish(data as ApiForm);
+    } catch (err) {
+      fail(err instanceof SyntaxError ? new Error('That file is not valid JSON.') : err);
+    }
+  };
+
+  const renderResult = (imported: ImportedForm) => (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <CheckIcon className="w-8 h-8 text-green-400 flex-shrink-0" />
+        <div>
+          <h3 className="text-lg font-bold text-slate-100">{imported.form.title}</h3>
+          <p className="text-sm text-slate-400">{imported.form.items.length} items ready to edit.</p>
+        </div>
+      </div>
+      {imported.issues.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm text-yellow-300">Some of the form was not imported exactly:</p>
+          <ul className="space-y-2 max-h-60 overflow-y-auto">
+            {imported.issues.map((issue, i) => (
+              <li key={i} className="flex items-start gap-2 text-sm bg-yellow-900/20 border border-yellow-700/50 text-yellow-300 rounded-md p-2">
+                <WarningIcon className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                <span><span className="font-medium">{issue.itemIndex !== null && `${issue.itemIndex + 1}. `}{issue.title}</span> — {issue.message}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <button
+        onClick={() => onImport(imported.form, source)}
+        className="w-full bg-cyan-500 text-slate-900 font-bold py-3 px-4 rounded-lg hover:bg-cyan-400 transition-all"
+      >
+        Open in editor
+      </button>
+    </div>
+  );
+
+  const isBusy = status === 'authenticating' || status === 'loading';
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-slate-800 rounded-xl shadow-2xl border border-slate-700 w-full max-w-lg max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <GoogleFormsIcon className="w-6 h-6 text-cyan-400" />
+            <h2 className="text-xl font-semibold text-slate-100">Import a Google Form</h2>
+          </div>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-300 transition-colors text-2xl leading-none">&times;</button>
+        </header>
+        <div className="p-6 overflow-y-auto space-y-5">
+          {status === 'done' && result ? renderResult(result) : (
+            <>
+              {isConfigured ? (
+                <div className="space-y-3">
+                  <label className="block text-sm text-slate-300">
+                    Form edit link or ID
+                    <input
+                      type="text"
+                      value={link}
+                      onChange={e => setLink(e.target.value)}
+                      placeholder="https://docs.google.com/forms/d/.../edit"
+                      className="mt-1 w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-slate-200 placeholder-slate-500"
+                    />
+                  </label>
+                  <button
+                    onClick={handleImport}
+                    disabled={isBusy || !isGsiLoaded || !link.trim()}
+                    className="w-full flex items-center justify-center gap-3 bg-cyan-500 text-slate-900 font-bold py-3 px-4 rounded-lg hover:bg-cyan-400 transition-all disabled:bg-slate-600 disabled:cursor-not-allowed disabled:text-slate-400"
+                  >
+                    {isBusy && <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-slate-900"></div>}
+                    {status === 'authenticating' ? 'Signing in...' : status === 'loading' ? 'Reading the form...' : 'Sign in & Import'}
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-start gap-2 text-sm bg-yellow-900/20 border border-yellow-700/50 text-yellow-300 p-3 rounded-md">
+                  <WarningIcon className="w-5 h-5 flex-shrink-0" />
+                  <span>Signing in with Google requires admin configuration (GOOGLE_CLIENT_ID). You can still import a saved Forms API response below.</span>
+                </div>
+              )}
+
+              <label className="flex items-center justify-center gap-2 text-sm text-slate-400 border border-dashed border-slate-600 rounded-md p-3 cursor-pointer hover:border-slate-500 hover:text-slate-300 transition-colors">
+                <UploadIcon className="w-4 h-4" />
+                <span>Import a saved <code>forms.get</code> response (.json)</span>
+                <input type="file" accept=".json,application/json" className="hidden" onChange={handleFile} />
+              </label>
+
+              {status === 'error' && error && (
+                <div className="flex items-start gap-2 text-sm bg-red-900/30 border border-red-700 text-red-300 p-3 rounded-md">
+                  <WarningIcon className="w-5 h-5 flex-shrink-0" />
+                  <span>{error}</span>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+        <footer className="p-4 border-t border-slate-700 text-right">
+          <button onClick={onClose} className="bg-slate-700 text-slate-200 font-bold py-2 px-4 rounded-lg hover:bg-slate-600 transition-all">
+            Close
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
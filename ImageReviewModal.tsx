@@ -0,0 +1,194 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { extractTextFromImage } from '../services/geminiService';
+import { imageMimeType, prepareImage } from '../services/imagePreprocessing';
+import type { PreparedImage } from '../services/imagePreprocessing';
+import { ArrowDownIcon, ArrowUpIcon, RedoIcon, TrashIcon, UndoIcon, WarningIcon } from './icons';
+
+interface ImageReviewModalProps {
+  /** The images in page order. */
+  files: File[];
+  onClose: () => void;
+  /** Called with the corrected text of all pages, in order. */
+  onUseText: (text: string) => void;
+}
+
+interface ScannedPage {
+  id: number;
+  file: File;
+  mimeType: string;
+  /** Extra clockwise quarter turns chosen by hand. */
+  quarterTurns: number;
+  status: 'queued' | 'preparing' | 'reading' | 'done' | 'error';
+  image?: PreparedImage;
+  text: string;
+  error?: string;
+}
+
+const STATUS_LABELS: Partial<Record<ScannedPage['status'], string>> = {
+  queued: 'Waiting...',
+  preparing: 'Straightening the page...',
+  reading: 'Reading the text...',
+};
+
+export const ImageReviewModal: React.FC<ImageReviewModalProps> = ({ files, onClose, onUseText }) => {
+  const [pages, setPages] = useState<ScannedPage[]>(() => files.map((file, id) => ({
+    id,
+    file,
+    mimeType: imageMimeType(file) || file.type,
+    quarterTurns: 0,
+    status: 'queued',
+    text: '',
+  })));
+  const previewUrls = useRef<string[]>([]);
+
+  const updatePage = (id: number, change: Partial<ScannedPage>) =>
+    setPages(current => current.map(page => (page.id === id ? { ...page, ...change } : page)));
+
+  // Pages are read one at a time, in order, so the first are ready to check while the rest are read.
+  const busy = pages.some(page => page.status === 'preparing' || page.status === 'reading');
+  const next = busy ? undefined : pages.find(page => page.status === 'queued');
+
+  useEffect(() => {
+    if (!next) return;
+    const { id, file, mimeType, quarterTurns } = next;
+    (async () => {
+      updatePage(id, { status: 'preparing', error: undefined });
+      try {
+        const image = await prepareImage(file, mimeType, quarterTurns);
+        previewUrls.current.push(image.previewUrl);
+        updatePage(id, { status: 'reading', image });
+        const text = await extractTextFromImage(image.data, image.mimeType);
+        updatePage(id, { status: 'done', text: text.trim() });
+      } catch (err) {
+        console.error(`OCR failed for ${file.name}:`, err);
+        updatePage(id, { status: 'error', error: err instanceof Error ? err.message : 'The page could not be read.' });
+      }
+    })();
+  }, [next?.id]);
+
+  useEffect(() => () => previewUrls.current.forEach(url => URL.revokeObjectURL(url)), []);
+
+  const rotate = (page: ScannedPage, turns: number) =>
+    updatePage(page.id, { quarterTurns: page.quarterTurns + turns, status: 'queued', image: undefined, text: '' });
+
+  const move = (index: number, offset: number) => setPages(current => {
+    const target = index + offset;
+    if (target < 0 || target >= current.length) return current;
+    const reordered = [...current];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    return reordered;
+  });
+
+  const remove = (id: number) => setPages(current => current.filter(page => page.id !== id));
+
+  const isReading = pages.some(page => page.status !== 'done' && page.status !== 'error');
+  const handleUseText = () => onUseText(pages.map(page => page.text.trim()).filter(Boolean).join('\n\n'));
+
+  const iconButton = 'p-1.5 rounded-md text-slate-400 hover:text-slate-100 hover:bg-slate-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+  const renderPage = (page: ScannedPage, index: number) => {
+    const isWorking = page.status !== 'done' && page.status !== 'error';
+    return (
+      <li key={page.id} className="grid grid-cols-1 md:grid-cols-2 gap-4 bg-slate-900/50 border border-slate-700 rounded-lg p-4">
+        <div className="flex flex-col gap-2">
+          <div className="flex items-center gap-1">
+            <span className="text-sm font-semibold text-slate-200 mr-auto truncate" title={page.file.name}>
+              Page {index + 1} <span className="font-normal text-slate-500">· {page.file.name}</span>
+            </span>
+            <button onClick={() => rotate(page, -1)} disabled={isWorking} className={iconButton} title="Turn left and read again">
+              <UndoIcon className="w-4 h-4" />
+            </button>
+            <button onClick={() => rotate(page, 1)} disabled={isWorking} className={iconButton} title="Turn right and read again">
+              <RedoIcon className="w-4 h-4" />
+            </button>
+            <button onClick={() => move(index, -1)} disabled={index === 0} className={iconButton} title="Move up">
+              <ArrowUpIcon className="w-4 h-4" />
+            </button>
+            <button onClick={() => move(index, 1)} disabled={index === pages.length - 1} className={iconButton} title="Move down">
+              <ArrowDownIcon className="w-4 h-4" />
+            </button>
+            <button onClick={() => remove(page.id)} disabled={isWorking} className={iconButton} title="Remove page">
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="bg-white rounded-md overflow-hidden flex items-center justify-center h-96">
+            {page.image ? (
+              <img src={page.image.previewUrl} alt={`Page ${index + 1}`} className="max-h-full max-w-full object-contain" />
+            ) : (
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-cyan-500"></div>
+            )}
+          </div>
+          {page.image && !page.image.preprocessed && (
+            <p className="text-xs text-slate-500">This browser can't open {page.mimeType} images, so the photo was sent as it is.</p>
+          )}
+          {page.image?.geometry && (page.image.geometry.skew !== 0 || page.image.geometry.sideways) && (
+            <p className="text-xs text-slate-500">
+              {page.image.geometry.sideways && 'Turned upright. '}
+              {page.image.geometry.skew !== 0 && `Straightened by ${Math.abs(page.image.geometry.skew)}°.`}
+            </p>
+          )}
+        </div>
+        <div className="flex flex-col">
+          {page.status === 'done' ? (
+            <textarea
+              value={page.text}
+              onChange={e => updatePage(page.id, { text: e.target.value })}
+              className="w-full h-96 md:h-full min-h-[12rem] p-3 bg-slate-900 border border-slate-600 rounded-md text-sm text-slate-200 focus:ring-2 focus:ring-cyan-400 focus:border-cyan-400 resize-y"
+            />
+          ) : page.status === 'error' ? (
+            <div className="flex flex-col items-start gap-3 text-sm bg-red-900/30 border border-red-700 text-red-300 p-3 rounded-md">
+              <span className="flex items-start gap-2">
+                <WarningIcon className="w-5 h-5 flex-shrink-0" />
+                {page.error}
+              </span>
+              <button
+                onClick={() => updatePage(page.id, { status: 'queued' })}
+                className="bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-bold py-1.5 px-3 rounded-md transition-colors"
+              >
+                Try again
+              </button>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center h-full min-h-[12rem] text-slate-400 text-sm gap-3">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-cyan-400"></div>
+              {STATUS_LABELS[page.status]}
+            </div>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-slate-800 rounded-xl shadow-2xl border border-slate-700 w-full max-w-5xl max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-slate-100">Check the scanned text</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-300 transition-colors text-2xl leading-none">&times;</button>
+        </header>
+        <div className="p-6 overflow-y-auto space-y-4">
+          <p className="text-sm text-slate-400">
+            Compare each page with the text read from it and correct any mistakes. Use the arrows to put the pages in order.
+          </p>
+          <ol className="space-y-4">{pages.map(renderPage)}</ol>
+        </div>
+        <footer className="p-4 border-t border-slate-700 flex items-center justify-end gap-2">
+          <span className="text-sm text-slate-500 mr-auto">{pages.length} {pages.length === 1 ? 'page' : 'pages'}</span>
+          <button onClick={onClose} className="bg-slate-700 text-slate-200 font-bold py-2 px-4 rounded-lg hover:bg-slate-600 transition-all">
+            Cancel
+          </button>
+          <button
+            onClick={handleUseText}
+            disabled={isReading || pages.every(page => !page.text.trim())}
+            className="bg-cyan-500 text-slate-900 font-bold py-2 px-4 rounded-lg hover:bg-cyan-400 transition-all disabled:bg-slate-600 disabled:cursor-not-allowed disabled:text-slate-400"
+          >
+            Use this text
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
@@ -1,105 +1,102 @@
 
-import React, { useState, useCallback, ChangeEvent } from 'react';
-import { UploadIcon, GenerateIcon } from './icons';
-import { getDocument, GlobalWorkerOptions, PageViewport } from 'pdfjs-dist';
-import mammoth from 'mammoth';
-import { extractTextFromImage } from '../services/geminiService';
-
-
-// Set worker URL for pdf.js. This is required for it to work in the browser.
-// We use a consistent CDN for both the worker and the main library to ensure version compatibility.
-GlobalWorkerOptions.workerSrc = `https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.4.168/pdf.worker.min.mjs`;
+import React, { useState, useCallback, useEffect, useRef, ChangeEvent } from 'react';
+import { UploadIcon, GenerateIcon, CameraIcon } from './icons';
+import { ingestPdf, IngestionCancelledError } from '../services/pdfIngestion';
+import { EMPHASIS_OPEN, extractDocxText } from '../services/docxExtraction';
+import type { PageProgress } from '../services/pdfExtraction';
+import { comparePageFiles, IMAGE_ACCEPT, imageMimeType } from '../services/imagePreprocessing';
+import type { SourceImage } from '../services/formImages';
+import { ImageReviewModal } from './ImageReviewModal';
+import { PageProgressPanel } from './PageProgressPanel';
 
 
 interface InputPanelProps {
+  text: string;
+  onTextChange: (text: string) => void;
+  /** Called with an uploaded file once its text and pictures have been extracted, so they can be kept with the form. */
+  onFileLoaded?: (file: File, text: string, images: SourceImage[]) => void;
   onGenerate: (text: string) => void;
   isLoading: boolean;
 }
 
-export const InputPanel: React.FC<InputPanelProps> = ({ onGenerate, isLoading }) => {
-  const [inputText, setInputText] = useState<string>('');
+export const InputPanel: React.FC<InputPanelProps> = ({ text: inputText, onTextChange: setInputText, onFileLoaded, onGenerate, isLoading }) => {
   const [dragActive, setDragActive] = useState(false);
   const [isProcessingFile, setIsProcessingFile] = useState<boolean>(false);
   const [processingMessage, setProcessingMessage] = useState<string>('Processing your file...');
   const [fileProcessingError, setFileProcessingError] = useState<string | null>(null);
+  const [reviewFiles, setReviewFiles] = useState<File[] | null>(null);
+  const [pageProgress, setPageProgress] = useState<PageProgress[] | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop reading in the background if the panel goes away mid-file.
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   const processFile = async (file: File) => {
     setIsProcessingFile(true);
     setFileProcessingError(null);
-    setInputText('');
+    // The box keeps its text until the file's text replaces it, so a cancel or a failure loses nothing.
 
     try {
       const fileExtension = file.name.split('.').pop()?.toLowerCase();
 
       if (fileExtension === 'pdf' || file.type === 'application/pdf') {
-        setProcessingMessage('Loading PDF...');
-        const arrayBuffer = await file.arrayBuffer();
-        const pdf = await getDocument({ data: new Uint8Array(arrayBuffer) }).promise;
-        let fullText = '';
-
-        for (let i = 1; i <= pdf.numPages; i++) {
-          setProcessingMessage(`Processing page ${i} of ${pdf.numPages}...`);
-          const page = await pdf.getPage(i);
-          const textContent = await page.getTextContent();
-          const pageText = textContent.items.map((item: any) => item.str).join(' ');
-
-          // Heuristic: If a page has very little text, assume it's an image needing OCR.
-          if (pageText.trim().length < 50 && page.getViewport({ scale: 1.0 }).height > 100) {
-            setProcessingMessage(`Image detected on page ${i}. Running OCR...`);
-            try {
-              const viewport: PageViewport = page.getViewport({ scale: 2.0 }); // Higher scale for better OCR
-              const canvas = document.createElement('canvas');
-              const context = canvas.getContext('2d');
-              if (!context) {
-                throw new Error('Could not get canvas context');
-              }
-              canvas.height = viewport.height;
-              canvas.width = viewport.width;
-
-              await page.render({ canvas, canvasContext: context, viewport }).promise;
-
-              const base64Image = canvas.toDataURL('image/png').split(',')[1];
-              const ocrText = await extractTextFromImage(base64Image);
-              fullText += ocrText + '\n\n';
-            } catch (ocrError) {
-              console.error(`OCR failed for page ${i}:`, ocrError);
-              fullText += pageText + '\n\n'; // Fallback to the little text we found
-              setFileProcessingError(`Could not read text from an image on page ${i}. The result might be incomplete.`);
-            }
-          } else {
-            fullText += pageText + '\n\n';
-          }
+        abortRef.current = new AbortController();
+        setPageProgress([]);
+        const { text, warnings, images } = await ingestPdf(await file.arrayBuffer(), { onProgress: setPageProgress, signal: abortRef.current.signal });
+        if (warnings.length > 0) {
+          setFileProcessingError(warnings.join(' '));
         }
-        setInputText(fullText.trim());
+        setInputText(text);
+        onFileLoaded?.(file, text, images);
       } else if (fileExtension === 'docx' || file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
         setProcessingMessage('Extracting text from DOCX...');
-        const arrayBuffer = await file.arrayBuffer();
-        const result = await mammoth.extractRawText({ arrayBuffer });
-        setInputText(result.value);
+        const { text, images } = await extractDocxText(await file.arrayBuffer());
+        setInputText(text);
+        onFileLoaded?.(file, text, images);
       } else if (['txt', 'md'].includes(fileExtension || '') || file.type.startsWith('text/')) {
         setProcessingMessage('Reading text file...');
         const text = await file.text();
         setInputText(text);
+        onFileLoaded?.(file, text, []);
       } else {
-        throw new Error('Unsupported file type. Please upload a PDF, DOCX, TXT, or MD file.');
+        throw new Error('Unsupported file type. Please upload a PDF, DOCX, TXT or MD file, or photos of the pages.');
       }
     } catch (err) {
+      if (err instanceof IngestionCancelledError) return;
       console.error('Error processing file:', err);
       setFileProcessingError(err instanceof Error ? err.message : 'An unknown error occurred while reading the file.');
     } finally {
+      abortRef.current = null;
+      setPageProgress(null);
       setIsProcessingFile(false);
     }
   };
   
-  const handleFile = (file: File | undefined) => {
-    if (file) {
-      processFile(file);
+  // Photos go through the review step, where each page is checked before its text is used.
+  const handleFiles = (fileList: FileList | null | undefined) => {
+    const files = Array.from(fileList || []);
+    if (files.length === 0) return;
+    if (files.every(file => imageMimeType(file))) {
+      setFileProcessingError(null);
+      setReviewFiles([...files].sort(comparePageFiles));
+    } else if (files.length > 1) {
+      setFileProcessingError('Drop one document, or several photos of its pages.');
+    } else {
+      processFile(files[0]);
     }
   };
 
   const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
     e.preventDefault();
-    handleFile(e.target.files?.[0]);
+    handleFiles(e.target.files);
+    e.target.value = '';
+  };
+
+  const handleReviewedText = (text: string) => {
+    setInputText(text);
+    // A single photo is kept as the source document, like any other upload.
+    if (reviewFiles?.length === 1) onFileLoaded?.(reviewFiles[0], text, []);
+    setReviewFiles(null);
   };
 
   const handleDrag = (e: React.DragEvent) => {
@@ -116,7 +113,7 @@ export const InputPanel: React.FC<InputPanelProps> = ({ onGenerate, isLoading })
     e.preventDefault();
     e.stopPropagation();
     setDragActive(false);
-    handleFile(e.dataTransfer.files?.[0]);
+    handleFiles(e.dataTransfer.files);
   };
 
 
@@ -128,14 +125,20 @@ export const InputPanel: React.FC<InputPanelProps> = ({ onGenerate, isLoading })
     <div className="relative bg-slate-800/50 rounded-xl shadow-lg border border-slate-700 p-6 flex flex-col gap-6">
        {isProcessingFile && (
         <div className="absolute inset-0 bg-slate-800/80 backdrop-blur-sm flex flex-col items-center justify-center rounded-xl z-10">
-            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-cyan-400"></div>
-            <p className="mt-4 text-slate-300">{processingMessage}</p>
+            {pageProgress ? (
+              <PageProgressPanel pages={pageProgress} onCancel={() => abortRef.current?.abort()} />
+            ) : (
+              <>
+                <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-cyan-400"></div>
+                <p className="mt-4 text-slate-300">{processingMessage}</p>
+              </>
+            )}
         </div>
       )}
       
       <div className="flex flex-col gap-2">
         <h2 className="text-xl font-semibold text-slate-100">Provide Content</h2>
-        <p className="text-slate-400 text-sm">Paste your text below or upload a file (.pdf, .docx, .txt, .md).</p>
+        <p className="text-slate-400 text-sm">Paste your text below, upload a file (.pdf, .docx, .txt, .md) or photograph the pages.</p>
       </div>
 
       {fileProcessingError && (
@@ -156,6 +159,16 @@ export const InputPanel: React.FC<InputPanelProps> = ({ onGenerate, isLoading })
         className="w-full h-48 p-3 bg-slate-900 border border-slate-600 rounded-md focus:ring-2 focus:ring-cyan-400 focus:border-cyan-400 transition-colors placeholder-slate-500 resize-y"
         disabled={isLoading || isProcessingFile}
       />
+      {/\[Image \d+\]/.test(inputText) && (
+        <p className="-mt-4 text-xs text-slate-500">
+          [Image 1] and the like mark pictures from the document; keep them where they are to put the pictures in the form.
+        </p>
+      )}
+      {inputText.includes(EMPHASIS_OPEN) && (
+        <p className="-mt-4 text-xs text-slate-500">
+          Text in [[ ]] was bold, underlined or highlighted in the document and is read as a likely answer. Remove the brackets from anything that isn't one.
+        </p>
+      )}
 
       <div className="text-center text-slate-500 my-2">OR</div>
       
@@ -171,13 +184,26 @@ export const InputPanel: React.FC<InputPanelProps> = ({ onGenerate, isLoading })
             <p className="mb-2 text-sm text-slate-400">
                 <span className="font-semibold text-cyan-400">Click to upload</span> or drag and drop
             </p>
-            <p className="text-xs text-slate-500">PDF, DOCX, TXT, or MD files</p>
+            <p className="text-xs text-slate-500">PDF, DOCX, TXT or MD files, or images of the pages (PNG, JPEG, WEBP, HEIC)</p>
           </div>
-          <input id="file-upload" type="file" className="hidden" onChange={handleFileChange} disabled={isLoading || isProcessingFile} accept=".pdf,.docx,.txt,.md,text/plain,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document" />
+          <input id="file-upload" type="file" multiple className="hidden" onChange={handleFileChange} disabled={isLoading || isProcessingFile} accept={`.pdf,.docx,.txt,.md,text/plain,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document,${IMAGE_ACCEPT}`} />
         </label>
         {dragActive && <div className="absolute inset-0 w-full h-full" onDragEnter={handleDrag} onDragLeave={handleDrag} onDragOver={handleDrag} onDrop={handleDrop}></div>}
+        <label
+          className={`mt-3 flex items-center justify-center gap-2 w-full bg-slate-700 text-slate-200 text-sm font-medium py-2 px-4 rounded-lg transition-colors ${
+            isLoading || isProcessingFile ? 'opacity-50 cursor-not-allowed' : 'hover:bg-slate-600 cursor-pointer'
+          }`}
+        >
+          <CameraIcon className="w-5 h-5" />
+          Take a photo
+          <input type="file" accept="image/*" capture="environment" className="hidden" onChange={handleFileChange} disabled={isLoading || isProcessingFile} />
+        </label>
       </div>
 
+      {reviewFiles && (
+        <ImageReviewModal files={reviewFiles} onClose={() => setReviewFiles(null)} onUseText={handleReviewedText} />
+      )}
+
       <button
         onClick={handleSubmit}
         disabled={isLoading || isProcessingFile || !inputText}
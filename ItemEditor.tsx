@@ -0,0 +1,557 @@
+import React from 'react';
+import type { Form, FormImage, RatingIcon, ResponseValidationKind } from '../types';
+import { ItemType, SUBMIT_FORM } from '../types';
+import {
+  feedbackKind, isBranchingType, isChoiceType, isGradableType, isGridType, isOptionImageType, isQuestionType, scaleBounds,
+} from '../services/formValidator';
+import {
+  updateItem, changeItemType, addOption, renameOption, removeOption, moveOption, toggleCorrectOption,
+  addRow, renameRow, removeRow, moveRow, updateFeedback, addFeedbackLink, updateFeedbackLink, removeFeedbackLink, setBranch, setValidation,
+  setOptionImage,
+} from '../services/formEditing';
+import { toImageDataUrl } from '../services/formImages';
+import { ItemImage } from './ItemImage';
+import { ArrowUpIcon, ArrowDownIcon, CheckIcon, DuplicateIcon, PencilIcon, PhotoIcon, PlusIcon, TrashIcon, XMarkIcon } from './icons';
+
+export const ITEM_TYPE_LABELS: Record<ItemType, string> = {
+  [ItemType.SHORT_ANSWER]: 'Short answer',
+  [ItemType.PARAGRAPH]: 'Paragraph',
+  [ItemType.MULTIPLE_CHOICE]: 'Multiple choice',
+  [ItemType.CHECKBOXES]: 'Checkboxes',
+  [ItemType.DROPDOWN]: 'Dropdown',
+  [ItemType.SECTION_HEADER]: 'Passage / text block',
+  [ItemType.LINEAR_SCALE]: 'Linear scale',
+  [ItemType.MULTIPLE_CHOICE_GRID]: 'Multiple choice grid',
+  [ItemType.CHECKBOX_GRID]: 'Checkbox grid',
+  [ItemType.DATE]: 'Date',
+  [ItemType.TIME]: 'Time',
+  [ItemType.RATING]: 'Rating',
+  [ItemType.PAGE_BREAK]: 'Page break',
+};
+
+const RATING_ICON_LABELS: Record<RatingIcon, string> = {
+  STAR: 'Stars',
+  HEART: 'Hearts',
+  THUMB_UP: 'Thumbs up',
+};
+
+const VALIDATION_LABELS: Record<ResponseValidationKind, string> = {
+  NUMBER: 'Number',
+  INTEGER: 'Whole number',
+  LENGTH: 'Length',
+  PATTERN: 'Pattern (regular expression)',
+  EMAIL: 'Email address',
+  URL: 'Web address',
+};
+
+export type FormChangeHandler = (next: Form, coalesceKey?: string) => void;
+
+interface ItemEditorProps {
+  form: Form;
+  index: number;
+  onChange: FormChangeHandler;
+  onDone: () => void;
+}
+
+const inputClass = 'w-full bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-cyan-400 focus:border-cyan-400';
+const iconButtonClass = 'p-1.5 rounded-md text-slate-400 hover:text-slate-100 hover:bg-slate-700 transition-colors disabled:opacity-30 disabled:hover:bg-transparent disabled:cursor-not-allowed';
+
+export const ItemEditor: React.FC<ItemEditorProps> = ({ form, index, onChange, onDone }) => {
+  const item = form.items[index];
+  const key = (field: string) => `item-${index}-${field}`;
+  const isSection = item.type === ItemType.SECTION_HEADER;
+  const pages = form.items.filter(other => other.type === ItemType.PAGE_BREAK);
+  const canBranch = isBranchingType(item.type) && pages.length > 0;
+  const validation = item.validation;
+  const readBound = (value: string) => (value === '' ? undefined : Number(value));
+  const answers = item.correctAnswer === undefined ? [] : Array.isArray(item.correctAnswer) ? item.correctAnswer : [item.correctAnswer];
+
+  return (
+    <div className="bg-slate-800 border-2 border-cyan-500/60 rounded-lg p-5 shadow-md space-y-4">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <input
+          value={item.title}
+          onChange={e => onChange(updateItem(form, index, { title: e.target.value }), key('title'))}
+          placeholder={item.type === ItemType.PAGE_BREAK ? 'Page title' : 'Question title'}
+          className={`${inputClass} flex-grow`}
+          autoFocus
+        />
+        <select
+          value={item.type}
+          onChange={e => onChange(changeItemType(form, index, e.target.value as ItemType))}
+          className={`${inputClass} sm:w-48`}
+        >
+          {Object.values(ItemType).map(type => (
+            <option key={type} value={type}>{ITEM_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      <textarea
+        value={item.description || ''}
+        onChange={e => onChange(updateItem(form, index, { description: e.target.value }), key('description'))}
+        placeholder={isSection ? 'Passage text' : item.type === ItemType.PAGE_BREAK ? 'Instructions for this page (optional)' : 'Description (optional)'}
+        className={`${inputClass} resize-y ${isSection ? 'h-40' : 'h-16'}`}
+      />
+
+      {item.type !== ItemType.PAGE_BREAK && (
+        <ImageField
+          image={item.image}
+          onChange={image => onChange(updateItem(form, index, { image }), key('image'))}
+        />
+      )}
+
+      {isChoiceType(item.type) && (
+        <div className="space-y-2">
+          <p className="text-xs text-slate-400">
+            Options — click the circle to mark {item.type === ItemType.CHECKBOXES ? 'the correct answers' : 'the correct answer'}
+            {canBranch && ', and choose where each answer leads'}.
+          </p>
+          <ListEditor
+            values={item.options || []}
+            onRename={(i, value) => onChange(renameOption(form, index, i, value), key(`option-${i}`))}
+            onMove={(from, to) => onChange(moveOption(form, index, from, to))}
+            onRemove={i => onChange(removeOption(form, index, i))}
+            onAdd={() => onChange(addOption(form, index, `Option ${(item.options?.length ?? 0) + 1}`))}
+            noun="option"
+            renderMarker={option => {
+              const isCorrect = answers.includes(option);
+              return (
+                <button
+                  onClick={() => onChange(toggleCorrectOption(form, index, option))}
+                  className={`flex-shrink-0 w-6 h-6 border-2 flex items-center justify-center ${item.type === ItemType.CHECKBOXES ? 'rounded-sm' : 'rounded-full'} ${isCorrect ? 'border-green-400 bg-green-500' : 'border-slate-500 hover:border-green-400'}`}
+                  title={isCorrect ? 'Correct answer' : 'Mark as correct'}
+                >
+                  {isCorrect && <CheckIcon className="w-4 h-4 text-slate-900" />}
+                </button>
+              );
+            }}
+            renderAfter={canBranch || isOptionImageType(item.type) ? option => (
+              <>
+                {isOptionImageType(item.type) && (
+                  <OptionImageButton
+                    image={item.optionImages?.find(o => o.option === option)?.image}
+                    onChange={image => onChange(setOptionImage(form, index, option, image))}
+                  />
+                )}
+                {canBranch && (
+                  <select
+                    value={item.branches?.find(b => b.option === option)?.goTo ?? ''}
+                    onChange={e => onChange(setBranch(form, index, option, e.target.value || null))}
+                    className={`${inputClass} py-1.5 w-40 flex-shrink-0`}
+                    title="Where respondents who pick this go"
+                  >
+                    <option value="">Next page</option>
+                    {pages.map(page => (
+                      <option key={page.pageId} value={page.pageId}>Go to {page.title || 'Untitled page'}</option>
+                    ))}
+                    <option value={SUBMIT_FORM}>Submit form</option>
+                  </select>
+                )}
+              </>
+            ) : undefined}
+          />
+        </div>
+      )}
+
+      {isGridType(item.type) && (
+        <div className="grid sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <p className="text-xs text-slate-400">Rows</p>
+            <ListEditor
+              values={item.rows || []}
+              onRename={(i, value) => onChange(renameRow(form, index, i, value), key(`row-${i}`))}
+              onMove={(from, to) => onChange(moveRow(form, index, from, to))}
+              onRemove={i => onChange(removeRow(form, index, i))}
+              onAdd={() => onChange(addRow(form, index, `Row ${(item.rows?.length ?? 0) + 1}`))}
+              noun="row"
+            />
+          </div>
+          <div className="space-y-2">
+            <p className="text-xs text-slate-400">Columns</p>
+            <ListEditor
+              values={item.options || []}
+              onRename={(i, value) => onChange(renameOption(form, index, i, value), key(`option-${i}`))}
+              onMove={(from, to) => onChange(moveOption(form, index, from, to))}
+              onRemove={i => onChange(removeOption(form, index, i))}
+              onAdd={() => onChange(addOption(form, index, `Column ${(item.options?.length ?? 0) + 1}`))}
+              noun="column"
+            />
+          </div>
+        </div>
+      )}
+
+      {item.type === ItemType.LINEAR_SCALE && (
+        <div className="flex flex-wrap items-center gap-3 text-sm text-slate-300">
+          <select
+            value={scaleBounds(item).low}
+            onChange={e => onChange(updateItem(form, index, { low: Number(e.target.value) }))}
+            className={`${inputClass} w-16 py-1`}
+          >
+            {[0, 1].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+          to
+          <select
+            value={scaleBounds(item).high}
+            onChange={e => onChange(updateItem(form, index, { high: Number(e.target.value) }))}
+            className={`${inputClass} w-16 py-1`}
+          >
+            {[2, 3, 4, 5, 6, 7, 8, 9, 10].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+          <input
+            value={item.lowLabel || ''}
+            onChange={e => onChange(updateItem(form, index, { lowLabel: e.target.value }), key('lowLabel'))}
+            placeholder="Low label (optional)"
+            className={`${inputClass} py-1 flex-1 min-w-[10rem]`}
+          />
+          <input
+            value={item.highLabel || ''}
+            onChange={e => onChange(updateItem(form, index, { highLabel: e.target.value }), key('highLabel'))}
+            placeholder="High label (optional)"
+            className={`${inputClass} py-1 flex-1 min-w-[10rem]`}
+          />
+        </div>
+      )}
+
+      {item.type === ItemType.RATING && (
+        <div className="flex flex-wrap items-center gap-3 text-sm text-slate-300">
+          <select
+            value={scaleBounds(item).high}
+            onChange={e => onChange(updateItem(form, index, { high: Number(e.target.value) }))}
+            className={`${inputClass} w-16 py-1`}
+          >
+            {[3, 4, 5, 6, 7, 8, 9, 10].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+          <select
+            value={item.ratingIcon || 'STAR'}
+            onChange={e => onChange(updateItem(form, index, { ratingIcon: e.target.value as RatingIcon }))}
+            className={`${inputClass} w-36 py-1`}
+          >
+            {(Object.keys(RATING_ICON_LABELS) as RatingIcon[]).map(icon => (
+              <option key={icon} value={icon}>{RATING_ICON_LABELS[icon]}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {(item.type === ItemType.DATE || item.type === ItemType.TIME) && (
+        <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={!!(item.type === ItemType.DATE ? item.includeTime : item.duration)}
+            onChange={e => onChange(updateItem(form, index, item.type === ItemType.DATE
+              ? { includeTime: e.target.checked || undefined }
+              : { duration: e.target.checked || undefined }))}
+            className="w-4 h-4 accent-cyan-500"
+          />
+          {item.type === ItemType.DATE ? 'Include time' : 'Ask for a duration instead of a time of day'}
+        </label>
+      )}
+
+      {item.type === ItemType.SHORT_ANSWER && (
+        <label className="block text-sm text-slate-400">
+          Correct answer
+          <input
+            value={typeof item.correctAnswer === 'string' ? item.correctAnswer : ''}
+            onChange={e => onChange(updateItem(form, index, { correctAnswer: e.target.value }), key('answer'))}
+            placeholder="Leave empty for ungraded questions"
+            className={`${inputClass} mt-1`}
+          />
+        </label>
+      )}
+
+      {item.type === ItemType.SHORT_ANSWER && (
+        <div className="space-y-2">
+          <label className="flex items-center gap-3 text-sm text-slate-400">
+            Response validation
+            <select
+              value={validation?.kind ?? ''}
+              onChange={e => onChange(setValidation(form, index, e.target.value
+                ? { kind: e.target.value as ResponseValidationKind, message: validation?.message }
+                : null))}
+              className={`${inputClass} w-auto py-1`}
+            >
+              <option value="">None</option>
+              {(Object.keys(VALIDATION_LABELS) as ResponseValidationKind[]).map(kind => (
+                <option key={kind} value={kind}>{VALIDATION_LABELS[kind]}</option>
+              ))}
+            </select>
+          </label>
+          {validation && (
+            <div className="flex flex-wrap items-center gap-3 text-sm text-slate-300">
+              {(validation.kind === 'NUMBER' || validation.kind === 'LENGTH') && (
+                <>
+                  <input
+                    type="number"
+                    min={validation.kind === 'LENGTH' ? 0 : undefined}
+                    value={validation.min ?? ''}
+                    onChange={e => onChange(setValidation(form, index, { ...validation, min: readBound(e.target.value) }), key('validation-min'))}
+                    placeholder={validation.kind === 'LENGTH' ? 'Min characters' : 'Min'}
+                    className={`${inputClass} w-32 py-1`}
+                  />
+                  to
+                  <input
+                    type="number"
+                    min={validation.kind === 'LENGTH' ? 0 : undefined}
+                    value={validation.max ?? ''}
+                    onChange={e => onChange(setValidation(form, index, { ...validation, max: readBound(e.target.value) }), key('validation-max'))}
+                    placeholder={validation.kind === 'LENGTH' ? 'Max characters' : 'Max'}
+                    className={`${inputClass} w-32 py-1`}
+                  />
+                </>
+              )}
+              {validation.kind === 'PATTERN' && (
+                <input
+                  value={validation.pattern || ''}
+                  onChange={e => onChange(setValidation(form, index, { ...validation, pattern: e.target.value }), key('validation-pattern'))}
+                  placeholder="e.g. [A-Z]{2}[0-9]{4}"
+                  className={`${inputClass} py-1 font-mono flex-grow`}
+                />
+              )}
+              <input
+                value={validation.message || ''}
+                onChange={e => onChange(setValidation(form, index, { ...validation, message: e.target.value }), key('validation-message'))}
+                placeholder="Message for responses that break the rule (optional)"
+                className={`${inputClass} py-1`}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {feedbackKind(item.type) && (
+        <div className="space-y-2">
+          <p className="text-xs text-slate-400">Feedback — shown to students after they submit.</p>
+          {feedbackKind(item.type) === 'result' ? (
+            <>
+              <textarea
+                value={item.feedback?.correct || ''}
+                onChange={e => onChange(updateFeedback(form, index, { correct: e.target.value }), key('feedback-correct'))}
+                placeholder="Shown for a correct answer (optional)"
+                className={`${inputClass} resize-y h-14`}
+              />
+              <textarea
+                value={item.feedback?.incorrect || ''}
+                onChange={e => onChange(updateFeedback(form, index, { incorrect: e.target.value }), key('feedback-incorrect'))}
+                placeholder="Shown for a wrong answer: explain the right one"
+                className={`${inputClass} resize-y h-14`}
+              />
+            </>
+          ) : (
+            <textarea
+              value={item.feedback?.general || ''}
+              onChange={e => onChange(updateFeedback(form, index, { general: e.target.value }), key('feedback-general'))}
+              placeholder="Shown after submitting, whatever the answer"
+              className={`${inputClass} resize-y h-14`}
+            />
+          )}
+          {item.feedback?.links?.map((link, i) => (
+            <div key={i} className="flex items-center gap-2">
+              <input
+                value={link.url}
+                onChange={e => onChange(updateFeedbackLink(form, index, i, { url: e.target.value }), key(`link-${i}-url`))}
+                placeholder="https://..."
+                className={`${inputClass} py-1.5`}
+              />
+              <input
+                value={link.label || ''}
+                onChange={e => onChange(updateFeedbackLink(form, index, i, { label: e.target.value }), key(`link-${i}-label`))}
+                placeholder="Link text (optional)"
+                className={`${inputClass} py-1.5`}
+              />
+              <button onClick={() => onChange(removeFeedbackLink(form, index, i))} className={iconButtonClass} title="Remove link">
+                <XMarkIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => onChange(addFeedbackLink(form, index, { url: '' }))}
+            className="flex items-center gap-1.5 text-sm text-cyan-400 hover:text-cyan-300"
+          >
+            <PlusIcon className="w-4 h-4" />
+            Add link
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-6 text-sm text-slate-300">
+        {isGradableType(item.type) && (
+          <label className="flex items-center gap-2">
+            Points
+            <input
+              type="number"
+              min={0}
+              value={item.points ?? ''}
+              onChange={e => onChange(updateItem(form, index, { points: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) }), key('points'))}
+              className={`${inputClass} w-20 py-1`}
+            />
+          </label>
+        )}
+        {isQuestionType(item.type) && (
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!item.required}
+              onChange={e => onChange(updateItem(form, index, { required: e.target.checked || undefined }))}
+              className="w-4 h-4 accent-cyan-500"
+            />
+            Required
+          </label>
+        )}
+        <button onClick={onDone} className="ml-auto bg-cyan-500 hover:bg-cyan-400 text-slate-900 font-bold py-1.5 px-4 rounded-md transition-colors">
+          Done
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/** Reads a picked file as a picture, or `null` if it isn't one the browser can show. */
+const readImageFile = async (e: React.ChangeEvent<HTMLInputElement>): Promise<FormImage | null> => {
+  const file = e.target.files?.[0];
+  e.target.value = '';
+  const src = file ? await toImageDataUrl(file) : null;
+  return src ? { src } : null;
+};
+
+interface ImageFieldProps {
+  image?: FormImage;
+  onChange: (image: FormImage | undefined) => void;
+}
+
+/** The picture shown with an item: add or replace it from a file, describe it, or remove it. */
+const ImageField: React.FC<ImageFieldProps> = ({ image, onChange }) => {
+  const [error, setError] = React.useState<string | null>(null);
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = await readImageFile(e);
+    setError(picked ? null : 'That file is not a picture this browser can show.');
+    if (picked) onChange({ ...picked, alt: image?.alt });
+  };
+  const picker = (label: string) => (
+    <label className="flex items-center gap-1.5 text-sm text-cyan-400 hover:text-cyan-300 cursor-pointer">
+      <PhotoIcon className="w-4 h-4" />
+      {label}
+      <input type="file" accept="image/*" className="hidden" onChange={handleFile} />
+    </label>
+  );
+
+  return (
+    <div className="space-y-2">
+      {image ? (
+        <div className="flex items-start gap-3">
+          <ItemImage image={image} thumbnail />
+          <div className="flex-grow space-y-2">
+            <input
+              value={image.alt || ''}
+              onChange={e => onChange({ ...image, alt: e.target.value || undefined })}
+              placeholder="Describe the picture for screen readers (optional)"
+              className={`${inputClass} py-1.5`}
+            />
+            <div className="flex items-center gap-4">
+              {picker('Replace picture')}
+              <button onClick={() => onChange(undefined)} className="flex items-center gap-1.5 text-sm text-slate-400 hover:text-red-300">
+                <TrashIcon className="w-4 h-4" />
+                Remove picture
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : picker('Add picture')}
+      {error && <p className="text-xs text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+interface OptionImageButtonProps {
+  image?: FormImage;
+  onChange: (image: FormImage | null) => void;
+}
+
+/** An option's picture as a thumbnail that removes it when clicked, or a button to add one. */
+const OptionImageButton: React.FC<OptionImageButtonProps> = ({ image, onChange }) => image ? (
+  <button onClick={() => onChange(null)} className="relative flex-shrink-0 group/image" title="Remove picture">
+    <img src={image.src} alt={image.alt || ''} className="h-8 w-12 object-contain bg-white rounded" />
+    <XMarkIcon className="absolute inset-0 m-auto w-5 h-5 text-red-500 opacity-0 group-hover/image:opacity-100" />
+  </button>
+) : (
+  <label className={`${iconButtonClass} cursor-pointer flex-shrink-0`} title="Add a picture to this option">
+    <PhotoIcon className="w-4 h-4" />
+    <input type="file" accept="image/*" className="hidden" onChange={async e => onChange(await readImageFile(e))} />
+  </label>
+);
+
+interface ListEditorProps {
+  values: string[];
+  onRename: (index: number, value: string) => void;
+  onMove: (from: number, to: number) => void;
+  onRemove: (index: number) => void;
+  onAdd: () => void;
+  noun: string;
+  /** Shown before each value, e.g. the button that marks a correct option. */
+  renderMarker?: (value: string) => React.ReactNode;
+  /** Shown after each value, e.g. where choosing an option leads. */
+  renderAfter?: (value: string) => React.ReactNode;
+}
+
+/** An editable, reorderable list of options, grid rows or grid columns. */
+const ListEditor: React.FC<ListEditorProps> = ({ values, onRename, onMove, onRemove, onAdd, noun, renderMarker, renderAfter }) => (
+  <>
+    {values.map((value, i) => (
+      <div key={i} className="flex items-center gap-2">
+        {renderMarker?.(value)}
+        <input
+          value={value}
+          onChange={e => onRename(i, e.target.value)}
+          className={`${inputClass} py-1.5`}
+        />
+        {renderAfter?.(value)}
+        <button onClick={() => onMove(i, i - 1)} disabled={i === 0} className={iconButtonClass} title="Move up">
+          <ArrowUpIcon className="w-4 h-4" />
+        </button>
+        <button onClick={() => onMove(i, i + 1)} disabled={i === values.length - 1} className={iconButtonClass} title="Move down">
+          <ArrowDownIcon className="w-4 h-4" />
+        </button>
+        <button onClick={() => onRemove(i)} className={iconButtonClass} title={`Remove ${noun}`}>
+          <XMarkIcon className="w-4 h-4" />
+        </button>
+      </div>
+    ))}
+    <button onClick={onAdd} className="flex items-center gap-1.5 text-sm text-cyan-400 hover:text-cyan-300">
+      <PlusIcon className="w-4 h-4" />
+      Add {noun}
+    </button>
+  </>
+);
+
+interface ItemToolbarProps {
+  index: number;
+  count: number;
+  isEditing: boolean;
+  onEdit: () => void;
+  onMove: (to: number) => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+/** Per-item actions shown above each card in the preview. */
+export const ItemToolbar: React.FC<ItemToolbarProps> = ({ index, count, isEditing, onEdit, onMove, onDuplicate, onDelete }) => (
+  <div className="flex justify-end gap-1 mb-1 opacity-60 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+    {!isEditing && (
+      <button onClick={onEdit} className={iconButtonClass} title="Edit">
+        <PencilIcon className="w-4 h-4" />
+      </button>
+    )}
+    <button onClick={() => onMove(index - 1)} disabled={index === 0} className={iconButtonClass} title="Move up">
+      <ArrowUpIcon className="w-4 h-4" />
+    </button>
+    <button onClick={() => onMove(index + 1)} disabled={index === count - 1} className={iconButtonClass} title="Move down">
+      <ArrowDownIcon className="w-4 h-4" />
+    </button>
+    <button onClick={onDuplicate} className={iconButtonClass} title="Duplicate">
+      <DuplicateIcon className="w-4 h-4" />
+    </button>
+    <button onClick={onDelete} className={`${iconButtonClass} hover:text-red-300`} title="Delete">
+      <TrashIcon className="w-4 h-4" />
+    </button>
+  </div>
+);
@@ -0,0 +1,19 @@
+import React from 'react';
+import type { FormImage } from '../types';
+
+interface ItemImageProps {
+  image: FormImage;
+  /** Option pictures are shown as thumbnails beside their text. */
+  thumbnail?: boolean;
+}
+
+/** A picture shown with an item or one of its options. */
+export const ItemImage: React.FC<ItemImageProps> = ({ image, thumbnail = false }) => (
+  <img
+    src={image.src}
+    alt={image.alt || ''}
+    title={image.alt}
+    loading="lazy"
+    className={`bg-white rounded-md border border-slate-700 object-contain ${thumbnail ? 'h-20 max-w-[10rem]' : 'max-h-80 max-w-full'}`}
+  />
+);
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import type { Form } from '../types';
+import { countBySeverity } from '../services/formValidator';
+import { FORM_SCHEMA_VERSION, parseFormJson } from '../services/formJson';
+import type { LoadedForm } from '../services/formJson';
+import { CheckIcon, UploadIcon, WarningIcon } from './icons';
+
+interface JsonImportModalProps {
+  onClose: () => void;
+  onImport: (form: Form) => void;
+}
+
+export const JsonImportModal: React.FC<JsonImportModalProps> = ({ onClose, onImport }) => {
+  const [json, setJson] = useState('');
+  const [dragActive, setDragActive] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<LoadedForm | null>(null);
+
+  const load = (text: string) => {
+    setError(null);
+    try {
+      setResult(parseFormJson(text));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The form could not be read.');
+    }
+  };
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setJson(text);
+    load(text);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    loadFile(file);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragActive(false);
+    loadFile(e.dataTransfer.files?.[0]);
+  };
+
+  const renderResult = (loaded: LoadedForm) => {
+    const issues = loaded.diagnostics.filter(d => d.severity !== 'repaired');
+    const repairedCount = countBySeverity(loaded.diagnostics, 'repaired');
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center gap-3">
+          <CheckIcon className="w-8 h-8 text-green-400 flex-shrink-0" />
+          <div>
+            <h3 className="text-lg font-bold text-slate-100">{loaded.form.title || 'Untitled form'}</h3>
+            <p className="text-sm text-slate-400">
+              {loaded.form.items.length} items ready to edit.
+              {repairedCount > 0 && ` ${repairedCount} ${repairedCount === 1 ? 'value was' : 'values were'} corrected.`}
+            </p>
+          </div>
+        </div>
+        {loaded.schemaVersion < FORM_SCHEMA_VERSION && (
+          <p className="text-sm text-slate-400">
+            {loaded.schemaVersion === 0 ? 'This JSON was saved before forms had a format version' : `This form was saved in an older format (version ${loaded.schemaVersion})`};
+            it has been brought up to date.
+          </p>
+        )}
+        {issues.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm text-yellow-300">{issues.length} {issues.length === 1 ? 'problem needs' : 'problems need'} a look:</p>
+            <ul className="space-y-2 max-h-60 overflow-y-auto">
+              {issues.map((issue, i) => (
+                <li key={i} className="flex items-start gap-2 text-sm bg-yellow-900/20 border border-yellow-700/50 text-yellow-300 rounded-md p-2">
+                  <WarningIcon className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                  <span>
+                    {issue.itemIndex !== null && <span className="font-medium">{issue.itemIndex + 1}. </span>}
+                    {issue.message}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <div className="flex gap-2">
+          <button
+            onClick={() => setResult(null)}
+            className="bg-slate-700 text-slate-200 font-bold py-3 px-4 rounded-lg hover:bg-slate-600 transition-all"
+          >
+            Back
+          </button>
+          <button
+            onClick={() => onImport(loaded.form)}
+            className="flex-grow bg-cyan-500 text-slate-900 font-bold py-3 px-4 rounded-lg hover:bg-cyan-400 transition-all"
+          >
+            Open in editor
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-slate-800 rounded-xl shadow-2xl border border-slate-700 w-full max-w-lg max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-slate-100">Open form JSON</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-300 transition-colors text-2xl leading-none">&times;</button>
+        </header>
+        <div className="p-6 overflow-y-auto space-y-4">
+          {result ? renderResult(result) : (
+            <>
+              <p className="text-sm text-slate-400">
+                Paste JSON from "Copy JSON", or drop a <code>.json</code> file exported from this app.
+              </p>
+              <textarea
+                value={json}
+                onChange={e => setJson(e.target.value)}
+                onDragOver={e => { e.preventDefault(); setDragActive(true); }}
+                onDragLeave={() => setDragActive(false)}
+                onDrop={handleDrop}
+                placeholder='{ "format": "form-architect-form", "schemaVersion": 1, "form": { ... } }'
+                className={`w-full h-48 p-3 bg-slate-900 border rounded-md font-mono text-xs text-slate-200 placeholder-slate-500 resize-y transition-colors ${
+                  dragActive ? 'border-cyan-400' : 'border-slate-600'
+                }`}
+              />
+              <div className="flex gap-2">
+                <label className="flex items-center gap-2 text-sm bg-slate-700 hover:bg-slate-600 text-slate-300 font-medium py-2 px-3 rounded-md transition-colors cursor-pointer">
+                  <UploadIcon className="w-4 h-4" />
+                  Choose file
+                  <input type="file" accept=".json,application/json" className="hidden" onChange={handleFileChange} />
+                </label>
+                <button
+                  onClick={() => load(json)}
+                  disabled={!json.trim()}
+                  className="flex-grow bg-cyan-500 text-slate-900 font-bold py-2 px-4 rounded-lg hover:bg-cyan-400 transition-all disabled:bg-slate-600 disabled:cursor-not-allowed disabled:text-slate-400"
+                >
+                  Read form
+                </button>
+              </div>
+              {error && (
+                <div className="flex items-start gap-2 text-sm bg-red-900/30 border border-red-700 text-red-300 p-3 rounded-md">
+                  <WarningIcon className="w-5 h-5 flex-shrink-0" />
+                  <span>{error}</span>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+        <footer className="p-4 border-t border-slate-700 text-right">
+          <button onClick={onClose} className="bg-slate-700 text-slate-200 font-bold py-2 px-4 rounded-lg hover:bg-slate-600 transition-all">
+            Close
+          </button>
+        </footer>
+      </div>
+    </div>
+  );
+};
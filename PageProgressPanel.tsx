@@ -0,0 +1,64 @@
+import React from 'react';
+import type { PageProgress, PageStatus } from '../services/pdfExtraction';
+
+interface PageProgressPanelProps {
+  pages: PageProgress[];
+  onCancel: () => void;
+}
+
+const STATUS_STYLES: Record<PageStatus, string> = {
+  pending: 'bg-slate-700 border-slate-600',
+  reading: 'bg-slate-600 border-cyan-400 animate-pulse',
+  ocr: 'bg-cyan-900 border-cyan-400 animate-pulse',
+  done: 'bg-cyan-500 border-cyan-400',
+  cached: 'bg-cyan-700 border-cyan-600',
+  failed: 'bg-red-900 border-red-500',
+};
+
+const STATUS_LABELS: Record<PageStatus, string> = {
+  pending: 'waiting',
+  reading: 'reading text',
+  ocr: 'reading the scan',
+  done: 'done',
+  cached: 'read before',
+  failed: 'could only be read in part',
+};
+
+export const PageProgressPanel: React.FC<PageProgressPanelProps> = ({ pages, onCancel }) => {
+  const finished = pages.filter(p => p.status === 'done' || p.status === 'cached' || p.status === 'failed').length;
+  const scanning = pages.filter(p => p.status === 'ocr').length;
+  const cached = pages.filter(p => p.status === 'cached').length;
+
+  return (
+    <div className="w-full max-w-md flex flex-col gap-3 px-6">
+      <div className="flex items-baseline justify-between">
+        <p className="text-slate-200 font-medium">
+          {pages.length === 0 ? 'Opening PDF...' : `Read ${finished} of ${pages.length} pages`}
+        </p>
+        <p className="text-xs text-slate-400">
+          {scanning > 0 && `${scanning} in OCR`}
+          {scanning > 0 && cached > 0 && ' · '}
+          {cached > 0 && `${cached} from earlier`}
+        </p>
+      </div>
+      <div className="w-full bg-slate-700 rounded-full h-2">
+        <div className="bg-cyan-400 h-2 rounded-full transition-all" style={{ width: `${pages.length ? (finished / pages.length) * 100 : 0}%` }} />
+      </div>
+      <ul className="flex flex-wrap gap-1 max-h-24 overflow-y-auto">
+        {pages.map(({ page, status, error }) => (
+          <li
+            key={page}
+            title={`Page ${page}: ${STATUS_LABELS[status]}${error ? ` (${error})` : ''}`}
+            className={`w-4 h-5 rounded-sm border ${STATUS_STYLES[status]}`}
+          />
+        ))}
+      </ul>
+      <button
+        onClick={onCancel}
+        className="self-center bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm font-bold py-1.5 px-4 rounded-lg transition-colors"
+      >
+        Cancel
+      </button>
+    </div>
+  );
+};
@@ -1,14 +1,80 @@
 
 import React from 'react';
-import type { FormItem } from '../types';
-import { ItemType } from '../types';
-import { CheckIcon } from './icons';
+import type { FormItem, RatingIcon, ResponseValidation } from '../types';
+import { ItemType, SUBMIT_FORM } from '../types';
+import { scaleBounds } from '../services/formValidator';
+import type { FormDiagnostic } from '../services/formValidator';
+import { DiagnosticList } from './DiagnosticList';
+import { ItemImage } from './ItemImage';
+import { CheckIcon, ExternalLinkIcon } from './icons';
 
 interface QuestionCardProps {
   item: FormItem;
   index: number;
+  diagnostics?: FormDiagnostic[];
+  /** Page titles by pageId, to say where the item's branches lead. */
+  pageTitles?: Map<string, string>;
 }
 
+const RATING_GLYPHS: Record<RatingIcon, string> = {
+  STAR: '☆',
+  HEART: '♡',
+  THUMB_UP: '👍',
+};
+
+const range = (low: number, high: number) => Array.from({ length: high - low + 1 }, (_, i) => low + i);
+
+const describeValidation = ({ kind, min, max, pattern }: ResponseValidation) => {
+  const bounds = (unit = '') =>
+    min !== undefined && max !== undefined ? ` from ${min} to ${max}${unit}`
+      : min !== undefined ? ` of at least ${min}${unit}`
+      : max !== undefined ? ` of at most ${max}${unit}`
+      : '';
+  switch (kind) {
+    case 'NUMBER': return `A number${bounds()}`;
+    case 'INTEGER': return 'A whole number';
+    case 'LENGTH': return `Text${bounds(' characters')}`;
+    case 'PATTERN': return `Text matching ${pattern}`;
+    case 'EMAIL': return 'An email address';
+    case 'URL': return 'A web address';
+  }
+};
+
+const renderGrid = (item: FormItem) => {
+  const shape = item.type === ItemType.CHECKBOX_GRID ? 'rounded-sm' : 'rounded-full';
+  return (
+    <div className="overflow-x-auto">
+      <table className="text-sm text-slate-300">
+        <thead>
+          <tr>
+            <th></th>
+            {item.options?.map((column, i) => (
+              <th key={i} className="px-3 pb-2 font-normal text-slate-400 text-center">{column}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {item.rows?.map((row, r) => (
+            <tr key={r} className="border-t border-slate-700/60">
+              <td className="pr-4 py-2">{row}</td>
+              {item.options?.map((_, c) => (
+                <td key={c} className="px-3 py-2">
+                  <div className={`mx-auto w-5 h-5 border-2 border-slate-400 ${shape}`} />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const renderOptionImage = (item: FormItem, option: string) => {
+  const image = item.optionImages?.find(o => o.option === option)?.image;
+  return image ? <ItemImage image={image} thumbnail /> : null;
+};
+
 const renderInput = (item: FormItem) => {
   const hasAnswer = item.correctAnswer !== undefined && item.correctAnswer !== null;
 
@@ -22,6 +88,12 @@ const renderInput = (item: FormItem) => {
               className="w-full bg-slate-900/0 border-b border-slate-500 py-2 focus:outline-none focus:border-cyan-400 transition-colors"
               disabled
             />
+            {item.validation && (
+                <p className="mt-2 text-xs text-slate-400">
+                    <span className="font-semibold">Accepts:</span> {describeValidation(item.validation)}
+                    {item.validation.message && <span className="text-slate-500"> — “{item.validation.message}”</span>}
+                </p>
+            )}
             {hasAnswer && typeof item.correctAnswer === 'string' && (
                 <div className="mt-3 flex items-center gap-2 text-sm text-green-300 bg-green-900/30 px-3 py-1.5 rounded-md">
                     <span className="font-semibold">Correct Answer:</span>
@@ -49,6 +121,7 @@ const renderInput = (item: FormItem) => {
                     {isCorrect && <CheckIcon className="w-4 h-4 text-slate-900" />}
                 </div>
                 <span className={`${isCorrect ? 'text-green-200 font-medium' : 'text-slate-300'}`}>{option}</span>
+                {renderOptionImage(item, option)}
               </div>
             );
           })}
@@ -65,6 +138,7 @@ const renderInput = (item: FormItem) => {
                     {isCorrect && <CheckIcon className="w-4 h-4 text-slate-900" />}
                 </div>
                 <span className={`${isCorrect ? 'text-green-200 font-medium' : 'text-slate-300'}`}>{option}</span>
+                {renderOptionImage(item, option)}
               </div>
             );
           })}
@@ -90,14 +164,97 @@ const renderInput = (item: FormItem) => {
             )}
         </>
       );
+    case ItemType.LINEAR_SCALE: {
+      const { low, high } = scaleBounds(item);
+      return (
+        <div className="flex items-end gap-4 overflow-x-auto text-sm text-slate-300">
+          {item.lowLabel && <span className="pb-0.5">{item.lowLabel}</span>}
+          {range(low, high).map(n => (
+            <div key={n} className="flex flex-col items-center gap-1">
+              <span>{n}</span>
+              <div className="w-5 h-5 border-2 border-slate-400 rounded-full" />
+            </div>
+          ))}
+          {item.highLabel && <span className="pb-0.5">{item.highLabel}</span>}
+        </div>
+      );
+    }
+    case ItemType.MULTIPLE_CHOICE_GRID:
+    case ItemType.CHECKBOX_GRID:
+      return renderGrid(item);
+    case ItemType.DATE:
+      return (
+        <div className="flex gap-3">
+          <input type="date" className="bg-slate-700 border border-slate-600 rounded-md p-2" disabled />
+          {item.includeTime && <input type="time" className="bg-slate-700 border border-slate-600 rounded-md p-2" disabled />}
+        </div>
+      );
+    case ItemType.TIME:
+      return item.duration ? (
+        <div className="flex items-center gap-2 text-slate-400">
+          <span>Duration</span>
+          <input type="text" placeholder="hh:mm:ss" className="w-28 bg-slate-700 border border-slate-600 rounded-md p-2" disabled />
+        </div>
+      ) : (
+        <input type="time" className="bg-slate-700 border border-slate-600 rounded-md p-2" disabled />
+      );
+    case ItemType.RATING: {
+      const glyph = RATING_GLYPHS[item.ratingIcon || 'STAR'];
+      return (
+        <div className="flex gap-2 text-2xl text-slate-400">
+          {range(1, scaleBounds(item).high).map(n => <span key={n}>{glyph}</span>)}
+        </div>
+      );
+    }
     default:
       return null;
   }
 };
 
-export const QuestionCard: React.FC<QuestionCardProps> = ({ item, index }) => {
+const renderBranches = (item: FormItem, pageTitles: Map<string, string>) => {
+  if (!item.branches?.length) return null;
+  return (
+    <ul className="mt-3 space-y-1 text-sm text-slate-400">
+      {item.branches.map((branch, i) => (
+        <li key={i}>
+          <span className="text-slate-300">{branch.option}</span> →{' '}
+          {branch.goTo === SUBMIT_FORM ? 'submit the form' : `go to ${pageTitles.get(branch.goTo) || 'a missing page'}`}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+const renderFeedback = (item: FormItem) => {
+  if (!item.feedback) return null;
+  const { correct, incorrect, general, links = [] } = item.feedback;
+  // Links are typed in the editor, so only web addresses become clickable.
+  const webLinks = links.filter(link => /^https?:\/\//i.test(link.url));
+  return (
+    <div className="mt-4 pt-3 border-t border-slate-700/60 space-y-1.5 text-sm">
+      {correct && <p><span className="font-semibold text-green-300">If correct:</span> <span className="text-slate-300">{correct}</span></p>}
+      {incorrect && <p><span className="font-semibold text-yellow-300">If wrong:</span> <span className="text-slate-300">{incorrect}</span></p>}
+      {general && <p><span className="font-semibold text-slate-300">Feedback:</span> <span className="text-slate-300">{general}</span></p>}
+      {webLinks.length > 0 && (
+        <ul className="flex flex-wrap gap-x-4 gap-y-1">
+          {webLinks.map((link, i) => (
+            <li key={i}>
+              <a href={link.url} target="_blank" rel="noopener noreferrer" className="inline-flex items-center gap-1 text-cyan-400 hover:text-cyan-300">
+                {link.label || link.url}
+                <ExternalLinkIcon className="w-3.5 h-3.5" />
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export const QuestionCard: React.FC<QuestionCardProps> = ({ item, index, diagnostics = [], pageTitles = new Map() }) => {
+  const hasErrors = diagnostics.some(d => d.severity === 'error');
   return (
-    <div className="relative bg-slate-800 border border-slate-700/80 rounded-lg p-5 shadow-md transition-all hover:border-slate-600">
+    <div className={`relative bg-slate-800 border rounded-lg p-5 shadow-md transition-all ${hasErrors ? 'border-red-700/80 hover:border-red-600' : 'border-slate-700/80 hover:border-slate-600'}`}>
        {item.points && (
         <div className="absolute top-3 right-3 bg-cyan-500 text-slate-900 text-xs font-bold px-2 py-1 rounded-full">
             {item.points} {item.points === 1 ? 'point' : 'points'}
@@ -107,7 +264,11 @@ export const QuestionCard: React.FC<QuestionCardProps> = ({ item, index }) => {
         {item.title}
         {item.required && <span className="text-red-400 ml-1">*</span>}
       </h4>
+      {item.image && <div className="mb-4"><ItemImage image={item.image} /></div>}
       <div className="mt-2">{renderInput(item)}</div>
+      {renderBranches(item, pageTitles)}
+      {renderFeedback(item)}
+      <DiagnosticList diagnostics={diagnostics} />
     </div>
   );
 };
\ No newline at end of file
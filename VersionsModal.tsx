@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import type { Form } from '../types';
+import { createVersions, MAX_VERSIONS, newVersionSeed, versionMappingRows } from '../services/testVersions';
+import type { TestVersion } from '../services/testVersions';
+import { downloadFile, openPrintWindow, toFileName } from '../services/fileDownload';
+import { serializeForm } from '../services/formJson';
+import { toAnswerKeyHtml, toStudentTestHtml } from '../services/printExport';
+import { createXlsx } from '../services/spreadsheet';
+import { GoogleFormModal } from './GoogleFormModal';
+import { DownloadIcon, GoogleFormsIcon } from './icons';
+
+interface VersionsModalProps {
+  form: Form;
+  onClose: () => void;
+}
+
+const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export const VersionsModal: React.FC<VersionsModalProps> = ({ form, onClose }) => {
+  const [count, setCount] = useState(3);
+  const [seed, setSeed] = useState(newVersionSeed);
+  const [publishing, setPublishing] = useState<TestVersion | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const versions = useMemo(() => createVersions(form, count, seed), [form, count, seed]);
+
+  const print = (html: string) => {
+    setError(null);
+    try {
+      openPrintWindow(html);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open the print window.');
+    }
+  };
+
+  const downloadJson = (version: TestVersion) =>
+    downloadFile(serializeForm(version.form), `${toFileName(version.form.title)}.json`, 'application/json');
+
+  const downloadMapping = () =>
+    downloadFile(createXlsx('Versions', versionMappingRows(form, versions)), `${toFileName(form.title)}-versions-${seed}.xlsx`, XLSX_MIME);
+
+  const actionClass = 'text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 py-1.5 px-2.5 rounded-md transition-colors';
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-slate-800 rounded-xl shadow-2xl border border-slate-700 w-full max-w-lg max-h-[90vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-slate-100">Test versions</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-300 transition-colors text-2xl leading-none">&times;</button>
+        </header>
+        <div className="p-6 overflow-y-auto space-y-5">
+          <p className="text-sm text-slate-400">
+            Each version shuffles the questions within their sections and the options of choice questions.
+            Passages and pages stay in place, and options like "All of the above" stay last.
+            The same seed always gives the same versions.
+          </p>
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block text-sm text-slate-300">
+              Versions
+              <input
+                type="number"
+                min={2}
+                max={MAX_VERSIONS}
+                value={count}
+                onChange={e => setCount(Math.min(MAX_VERSIONS, Math.max(2, Number(e.target.value) || 2)))}
+                className="mt-1 w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-slate-200"
+              />
+            </label>
+            <label className="block text-sm text-slate-300">
+              Seed
+              <div className="mt-1 flex gap-2">
+                <input
+                  value={seed}
+                  onChange={e => setSeed(e.target.value)}
+                  className="w-full bg-slate-900 border border-slate-600 rounded-md p-2 text-slate-200 font-mono"
+                />
+                <button onClick={() => setSeed(newVersionSeed())} className={actionClass} title="Pick a new seed">
+                  New
+                </button>
+              </div>
+            </label>
+          </div>
+
+          <ul className="space-y-2">
+            {versions.map(version => (
+              <li key={version.label} className="flex flex-wrap items-center gap-2 bg-slate-900/50 border border-slate-700 rounded-md p-3">
+                <span className="font-semibold text-slate-100 mr-auto">Version {version.label}</span>
+                <button onClick={() => downloadJson(version)} className={actionClass}>JSON</button>
+                <button onClick={() => print(toStudentTestHtml(version.form))} className={actionClass}>Print test</button>
+                <button onClick={() => print(toAnswerKeyHtml(version.form))} className={actionClass}>Print key</button>
+                <button onClick={() => setPublishing(version)} className={`${actionClass} flex items-center gap-1`}>
+                  <GoogleFormsIcon className="w-3.5 h-3.5" />
+                  Google Form
+                </button>
+              </li>
+            ))}
+          </ul>
+          {error && <p className="text-sm text-red-300">{error}</p>}
+        </div>
+        <footer className="p-4 border-t border-slate-700 flex justify-end gap-2">
+          <button onClick={onClose} className="bg-slate-700 text-slate-200 font-bold py-2 px-4 rounded-lg hover:bg-slate-600 transition-all">
+            Close
+          </button>
+          <button
+            onClick={downloadMapping}
+            className="flex items-center gap-2 bg-cyan-500 hover:bg-cyan-400 text-slate-900 font-bold py-2 px-4 rounded-lg transition-colors"
+            title="Each master question's number and answer in every version"
+          >
+            <DownloadIcon className="w-4 h-4" />
+            Mapping table
+          </button>
+        </footer>
+      </div>
+      {publishing && (
+        <div onClick={e => e.stopPropagation()}>
+          <GoogleFormModal isOpen onClose={() => setPublishing(null)} form={publishing.form} />
+        </div>
+      )}
+    </div>
+  );
+};
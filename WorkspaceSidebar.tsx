@@ -0,0 +1,249 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  deleteEntry, duplicateEntry, exportLibrary, getSourceDocument, importLibrary, listEntries, renameEntry, searchEntries,
+} from '../services/workspace';
+import type { FormRevision, WorkspaceEntry } from '../services/workspace';
+import { downloadFile } from '../services/fileDownload';
+import { DownloadIcon, DuplicateIcon, ExternalLinkIcon, PencilIcon, PlusIcon, TrashIcon, UploadIcon } from './icons';
+
+interface WorkspaceSidebarProps {
+  activeEntry: WorkspaceEntry | null;
+  onOpen: (entry: WorkspaceEntry) => void;
+  onNew: () => void;
+  onRestore: (revision: FormRevision) => void;
+  /** Called after the active entry is renamed or deleted here, with the entry as it now is (null once deleted). */
+  onActiveChanged: (entry: WorkspaceEntry | null) => void;
+  onClose: () => void;
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const questionCount = (entry: WorkspaceEntry) => entry.form?.items.length ?? 0;
+
+export const WorkspaceSidebar: React.FC<WorkspaceSidebarProps> = ({ activeEntry, onOpen, onNew, onRestore, onActiveChanged, onClose }) => {
+  const [entries, setEntries] = useState<WorkspaceEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [confirmingDelete, setConfirmingDelete] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const fail = (err: unknown) => {
+    console.error(err);
+    setError(err instanceof Error ? err.message : 'The library could not be updated.');
+  };
+
+  const refresh = () => listEntries().then(setEntries).catch(fail);
+
+  // Reloaded whenever the active entry is saved, so its name and date stay current.
+  useEffect(() => {
+    refresh();
+  }, [activeEntry?.updatedAt]);
+
+  const visible = useMemo(() => searchEntries(entries, query), [entries, query]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+    } catch (err) {
+      fail(err);
+    }
+    await refresh();
+  };
+
+  const handleRename = () => run(async () => {
+    if (!renaming) return;
+    const entry = await renameEntry(renaming.id, renaming.name);
+    setRenaming(null);
+    if (entry.id === activeEntry?.id) onActiveChanged(entry);
+  });
+
+  const handleDuplicate = (id: string) => run(async () => onOpen(await duplicateEntry(id)));
+
+  const handleDelete = (id: string) => run(async () => {
+    await deleteEntry(id);
+    setConfirmingDelete(null);
+    if (id === activeEntry?.id) onActiveChanged(null);
+  });
+
+  const handleDownloadDocument = (entry: WorkspaceEntry) => run(async () => {
+    const document = await getSourceDocument(entry.id);
+    if (!document || !entry.document) throw new Error('The uploaded file is no longer in the library.');
+    downloadFile(document, entry.document.fileName, entry.document.mimeType);
+  });
+
+  const handleExport = () => run(async () => {
+    downloadFile(await exportLibrary(), `form-architect-library-${new Date().toISOString().slice(0, 10)}.json`, 'application/json');
+  });
+
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    run(async () => {
+      const count = await importLibrary(await file.text());
+      setNotice(`Imported ${count} ${count === 1 ? 'entry' : 'entries'}.`);
+    });
+  };
+
+  const iconButton = 'p-1.5 rounded-md text-slate-400 hover:text-slate-100 hover:bg-slate-700 transition-colors';
+  const actionClass = 'flex items-center gap-1.5 text-xs bg-slate-700 hover:bg-slate-600 text-slate-200 py-1.5 px-2.5 rounded-md transition-colors';
+
+  const renderEntry = (entry: WorkspaceEntry) => {
+    const isActive = entry.id === activeEntry?.id;
+    return (
+      <li
+        key={entry.id}
+        className={`rounded-md border p-3 ${isActive ? 'border-cyan-500/60 bg-slate-900/70' : 'border-slate-700 bg-slate-900/40'}`}
+      >
+        {renaming?.id === entry.id ? (
+          <form onSubmit={e => { e.preventDefault(); handleRename(); }} className="flex gap-2">
+            <input
+              autoFocus
+              value={renaming.name}
+              onChange={e => setRenaming({ id: entry.id, name: e.target.value })}
+              onKeyDown={e => e.key === 'Escape' && setRenaming(null)}
+              className="w-full bg-slate-900 border border-slate-600 rounded-md px-2 py-1 text-sm text-slate-200"
+            />
+            <button type="submit" className={actionClass}>Save</button>
+          </form>
+        ) : (
+          <div className="flex items-start gap-2">
+            <button onClick={() => onOpen(entry)} className="text-left mr-auto min-w-0">
+              <span className="block font-medium text-slate-100 truncate">{entry.name}</span>
+              <span className="block text-xs text-slate-500">
+                {formatDate(entry.updatedAt)} · {questionCount(entry)} {questionCount(entry) === 1 ? 'item' : 'items'}
+                {entry.revisions.length > 0 && ` · ${entry.revisions.length} ${entry.revisions.length === 1 ? 'version' : 'versions'}`}
+              </span>
+            </button>
+            <button onClick={() => setRenaming({ id: entry.id, name: entry.name })} className={iconButton} title="Rename">
+              <PencilIcon className="w-4 h-4" />
+            </button>
+            <button onClick={() => handleDuplicate(entry.id)} className={iconButton} title="Duplicate">
+              <DuplicateIcon className="w-4 h-4" />
+            </button>
+            <button onClick={() => setConfirmingDelete(entry.id)} className={iconButton} title="Delete">
+              <TrashIcon className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+        {confirmingDelete === entry.id && (
+          <div className="mt-2 flex items-center gap-2 text-xs text-red-300">
+            <span className="mr-auto">Delete this entry and all its versions?</span>
+            <button onClick={() => handleDelete(entry.id)} className="bg-red-600 hover:bg-red-500 text-white py-1 px-2.5 rounded-md transition-colors">Delete</button>
+            <button onClick={() => setConfirmingDelete(null)} className={actionClass}>Keep</button>
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  const renderActiveDetails = (entry: WorkspaceEntry) => (
+    <div className="space-y-4 border-t border-slate-700 pt-4">
+      <h3 className="text-sm font-semibold text-slate-300">{entry.name}</h3>
+      {entry.document && (
+        <button onClick={() => handleDownloadDocument(entry)} className={actionClass} title="Download the uploaded file">
+          <DownloadIcon className="w-3.5 h-3.5" />
+          <span className="truncate">{entry.document.fileName}</span>
+        </button>
+      )}
+      {entry.googleForms.length > 0 && (
+        <div>
+          <h4 className="text-xs uppercase tracking-wide text-slate-500 mb-1">Google Forms</h4>
+          <ul className="space-y-1">
+            {entry.googleForms.map(link => (
+              <li key={link.formId} className="text-sm">
+                <a
+                  href={link.responderUri || `https://docs.google.com/forms/d/${link.formId}/edit`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1 text-cyan-400 hover:text-cyan-300"
+                >
+                  {link.title || link.formId}
+                  <ExternalLinkIcon className="w-3.5 h-3.5" />
+                </a>
+                <span className="text-xs text-slate-500 ml-2">{formatDate(link.linkedAt)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      <div>
+        <h4 className="text-xs uppercase tracking-wide text-slate-500 mb-1">Versions</h4>
+        {entry.revisions.length === 0 ? (
+          <p className="text-sm text-slate-500">Forms you generate from this text are kept here.</p>
+        ) : (
+          <ul className="space-y-1">
+            {[...entry.revisions].reverse().map(revision => (
+              <li key={revision.id} className="flex items-center gap-2 text-sm">
+                <span className="mr-auto min-w-0">
+                  <span className="block text-slate-300">{formatDate(revision.createdAt)}</span>
+                  <span className="block text-xs text-slate-500 truncate">
+                    {revision.settings
+                      ? `${revision.settings.model} (${revision.settings.provider}, temperature ${revision.settings.temperature})`
+                      : 'Imported'}
+                    {' · '}{revision.form.items.length} items
+                  </span>
+                </span>
+                <button onClick={() => onRestore(revision)} className={actionClass}>Restore</button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 z-40" onClick={onClose}>
+      <aside
+        className="absolute right-0 top-0 h-full w-full max-w-md bg-slate-800 border-l border-slate-700 shadow-2xl flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="p-4 border-b border-slate-700 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-slate-100">Library</h2>
+          <button onClick={onClose} className="text-slate-500 hover:text-slate-300 transition-colors text-2xl leading-none">&times;</button>
+        </header>
+        <div className="p-4 space-y-3 border-b border-slate-700">
+          <div className="flex gap-2">
+            <input
+              value={query}
+              onChange={e => setQuery(e.target.value)}
+              placeholder="Search names and text"
+              className="w-full bg-slate-900 border border-slate-600 rounded-md px-3 py-2 text-sm text-slate-200 placeholder-slate-500"
+            />
+            <button onClick={onNew} className="flex items-center gap-1 bg-cyan-500 hover:bg-cyan-400 text-slate-900 font-bold text-sm py-2 px-3 rounded-md transition-colors">
+              <PlusIcon className="w-4 h-4" />
+              New
+            </button>
+          </div>
+          <div className="flex gap-2">
+            <button onClick={handleExport} className={actionClass} title="Save the whole library, with uploaded files, as one JSON file">
+              <DownloadIcon className="w-3.5 h-3.5" />
+              Export library
+            </button>
+            <label className={`${actionClass} cursor-pointer`} title="Add the entries of an exported library">
+              <UploadIcon className="w-3.5 h-3.5" />
+              Import library
+              <input type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+            </label>
+          </div>
+          {error && <p className="text-sm text-red-300">{error}</p>}
+          {notice && <p className="text-sm text-green-300">{notice}</p>}
+        </div>
+        <div className="p-4 overflow-y-auto flex-grow space-y-4">
+          {visible.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center">
+              {entries.length === 0 ? 'Forms you work on are saved here automatically.' : 'Nothing matches your search.'}
+            </p>
+          ) : (
+            <ul className="space-y-2">{visible.map(renderEntry)}</ul>
+          )}
+          {activeEntry && renderActiveDetails(activeEntry)}
+        </div>
+      </aside>
+    </div>
+  );
+};
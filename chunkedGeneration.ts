@@ -0,0 +1,110 @@
+import type { Form } from '../types';
+import type { DocumentChunk } from './documentChunker';
+import type { SourceImage } from './formImages';
+import { splitIntoChunks } from './documentChunker';
+import { mergeForms } from './formMerge';
+import { generateFormPart, GenerationCancelledError } from './geminiService';
+
+export type ChunkStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface ChunkProgress {
+    chunk: DocumentChunk;
+    status: ChunkStatus;
+    /** The finished form, or for running and cancelled chunks the items received so far. */
+    form?: Form;
+    /** Set on a done chunk whose output was still cut off after the last continuation: items are missing. */
+    truncated?: boolean;
+    error?: string;
+}
+
+interface ChunkResult {
+    form: Form;
+    truncated: boolean;
+}
+
+// How many times a cut-off response is continued before we settle for what arrived.
+const MAX_CONTINUATIONS = 3;
+
+export const planChunks = (text: string): ChunkProgress[] =>
+    splitIntoChunks(text).map(chunk => ({ chunk, status: 'pending' }));
+
+/** Generates one chunk, asking the model to continue whenever its output is truncated. */
+const generateChunk = async (
+    chunk: DocumentChunk,
+    total: number,
+    onPartial: (form: Form) => void,
+    signal?: AbortSignal,
+    images?: SourceImage[],
+): Promise<ChunkResult> => {
+    const forms: Form[] = [];
+    let continueAfter: string | undefined;
+    let cutOff = false;
+
+    for (let attempt = 0; attempt <= MAX_CONTINUATIONS; attempt++) {
+        try {
+            const { form, truncated } = await generateFormPart(
+                chunk.text,
+                { index: chunk.index, total, context: chunk.context, continueAfter },
+                { signal, images, onPartial: partial => onPartial(mergeForms([...forms, partial])) },
+            );
+            forms.push(form);
+            cutOff = truncated;
+            const last = form.items[form.items.length - 1];
+            if (!truncated || !last) break;
+            continueAfter = last.title;
+        } catch (err) {
+            if (err instanceof GenerationCancelledError) {
+                throw new GenerationCancelledError(mergeForms([...forms, err.partial]));
+            }
+            throw err;
+        }
+    }
+
+    return { form: mergeForms(forms), truncated: cutOff };
+};
+
+/**
+ * Runs every chunk that is not already done, one at a time, reporting each state change and
+ * each newly streamed item. Failed chunks are recorded rather than thrown so the others still
+ * complete; call this again with the returned list to retry only the failures and the chunks
+ * that came back truncated. Aborting the
+ * signal stops the run and keeps the interrupted chunk's partial form as `cancelled`. `images`
+ * are the pictures the text marks, which the items are given where the model places them.
+ */
+export const runChunks = async (
+    initial: ChunkProgress[],
+    onUpdate: (progress: ChunkProgress[]) => void,
+    signal?: AbortSignal,
+    images?: SourceImage[],
+): Promise<ChunkProgress[]> => {
+    let progress = initial;
+    const set = (index: number, next: ChunkProgress) => {
+        progress = progress.map((p, i) => (i === index ? next : p));
+        onUpdate(progress);
+    };
+
+    for (let i = 0; i < progress.length && !signal?.aborted; i++) {
+        const { chunk, status, truncated } = progress[i];
+        if (status === 'done' && !truncated) continue;
+        set(i, { chunk, status: 'running' });
+        try {
+            const { form, truncated } = await generateChunk(chunk, progress.length, partial => set(i, { chunk, status: 'running', form: partial }), signal, images);
+            set(i, { chunk, status: 'done', form, ...(truncated ? { truncated } : {}) });
+        } catch (err) {
+            if (err instanceof GenerationCancelledError) {
+                set(i, { chunk, status: 'cancelled', form: err.partial });
+                break;
+            }
+            set(i, { chunk, status: 'failed', error: err instanceof Error ? err.message : 'Generation failed.' });
+        }
+    }
+    return progress;
+};
+
+/** Merges the chunks that have finished into one form, in document order. */
+export const mergeCompletedChunks = (progress: ChunkProgress[]): Form =>
+    mergeForms(progress.filter(p => p.status === 'done' && p.form).map(p => p.form!));
+
+/** Merges everything received so far, including the partial form of a running or cancelled chunk. */
+export const mergeAvailableChunks = (progress: ChunkProgress[]): Form =>
+    mergeForms(progress.filter(p => p.form).map(p => p.form!));
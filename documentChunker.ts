@@ -0,0 +1,150 @@
+export interface DocumentChunk {
+    index: number;
+    text: string;
+    /**
+     * A passage or heading that belongs to this chunk's questions but was already sent with an
+     * earlier chunk. It is given to the model for reference only.
+     */
+    context?: string;
+}
+
+export interface ChunkOptions {
+    maxChars?: number;
+    maxQuestions?: number;
+}
+
+// Sized so a chunk's JSON output stays well inside the model's output limit.
+const DEFAULT_MAX_CHARS = 8000;
+const DEFAULT_MAX_QUESTIONS = 25;
+
+const QUESTION_START = /^\s*(?:(?:Q(?:uestion)?\.?\s*)?\d{1,3}\s*[.):]|\(\d{1,3}\)\s)/i;
+const HEADING_START = /^\s*(?:Part|Section|Exercise|Reading|Passage|Text|Task)\b[^\n]{0,80}$/i;
+const PASSAGE_MIN_CHARS = 300;
+
+type UnitKind = 'question' | 'heading' | 'passage' | 'text';
+
+interface Unit {
+    kind: UnitKind;
+    text: string;
+}
+
+interface Group {
+    /** Headings and passages that introduce the group's questions. */
+    lead: string[];
+    questions: string[];
+}
+
+const classify = (text: string): UnitKind => {
+    if (QUESTION_START.test(text)) return 'question';
+    if (HEADING_START.test(text) && !text.includes('\n')) return 'heading';
+    if (text.length >= PASSAGE_MIN_CHARS) return 'passage';
+    return 'text';
+};
+
+/** Breaks text into units at blank lines and at lines that start a numbered question. */
+const toUnits = (text: string): Unit[] => {
+    const units: Unit[] = [];
+    let current: string[] = [];
+    const flush = () => {
+        const joined = current.join('\n').trim();
+        if (joined) units.push({ kind: classify(joined), text: joined });
+        current = [];
+    };
+    for (const line of text.split(/\r?\n/)) {
+        if (!line.trim()) {
+            flush();
+        } else {
+            if (QUESTION_START.test(line) && current.length > 0) flush();
+            current.push(line);
+        }
+    }
+    flush();
+    return units;
+};
+
+/** Groups units so that passages and headings travel with the questions that follow them. */
+const toGroups = (units: Unit[]): Group[] => {
+    const groups: Group[] = [];
+    let group: Group = { lead: [], questions: [] };
+    for (const unit of units) {
+        const startsNewGroup = (unit.kind === 'heading' || unit.kind === 'passage') && group.questions.length > 0;
+        if (startsNewGroup) {
+            groups.push(group);
+            group = { lead: [], questions: [] };
+        }
+        if (unit.kind === 'question') {
+            group.questions.push(unit.text);
+        } else if (unit.kind === 'text' && group.questions.length > 0) {
+            // Answer options or a word bank on their own lines belong to the preceding question.
+            group.questions[group.questions.length - 1] += `\n${unit.text}`;
+        } else {
+            group.lead.push(unit.text);
+        }
+    }
+    if (group.lead.length > 0 || group.questions.length > 0) groups.push(group);
+    return groups;
+};
+
+/**
+ * Splits a long document into chunks along question and passage boundaries. A passage is never
+ * separated from its first questions; when its questions overflow a chunk, the rest go into
+ * following chunks with the passage attached as `context`.
+ */
+export const splitIntoChunks = (text: string, options: ChunkOptions = {}): DocumentChunk[] => {
+    const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+    const maxQuestions = options.maxQuestions ?? DEFAULT_MAX_QUESTIONS;
+    const trimmed = text.trim();
+    const units = toUnits(trimmed);
+
+    if (trimmed.length <= maxChars && units.filter(u => u.kind === 'question').length <= maxQuestions) {
+        return [{ index: 0, text: trimmed }];
+    }
+
+    const chunks: Omit<DocumentChunk, 'index'>[] = [];
+    let parts: string[] = [];
+    let size = 0;
+    let questions = 0;
+    let context: string | undefined;
+
+    const flush = () => {
+        if (parts.length > 0) chunks.push({ text: parts.join('\n\n'), ...(context ? { context } : {}) });
+        parts = [];
+        size = 0;
+        questions = 0;
+        context = undefined;
+    };
+    const fits = (length: number, count: number) =>
+        parts.length === 0 || (size + length <= maxChars && questions + count <= maxQuestions);
+
+    for (const group of toGroups(units)) {
+        const groupSize = [...group.lead, ...group.questions].reduce((sum, part) => sum + part.length + 2, 0);
+        if (!fits(groupSize, group.questions.length)) flush();
+
+        // Text without numbered questions can still overflow; only its last part stays attached as the lead.
+        let leadParts: string[] = [];
+        for (const part of group.lead) {
+            if (!fits(part.length + 2, 0)) {
+                flush();
+                leadParts = [];
+            }
+            parts.push(part);
+            size += part.length + 2;
+            leadParts.push(part);
+        }
+        const lead = leadParts.join('\n\n');
+
+        for (const question of group.questions) {
+            if (!fits(question.length, 1)) {
+                flush();
+                // Carry the passage along so the model can still answer questions about it.
+                if (lead) context = lead;
+            }
+            parts.push(question);
+            size += question.length + 2;
+            questions++;
+        }
+    }
+    flush();
+
+    return chunks.map((chunk, index) => ({ index, ...chunk }));
+};
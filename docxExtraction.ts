@@ -0,0 +1,152 @@
+import mammoth from 'mammoth';
+import { imageLabel, imageMarker, toImageDataUrl } from './formImages';
+import type { SourceImage } from './formImages';
+import { BLANK_MARKER } from './pdfLayout';
+
+/*
+ * Reads DOCX files through mammoth's HTML conversion rather than its raw text, to keep the
+ * formatting teachers mark answers with. Bold, underlined and highlighted runs are wrapped in
+ * `[[...]]`, underlined gaps become blanks, tables are laid out as aligned rows, and pictures are
+ * marked where they were (see `formImages`). The prompt explains these markers to the model (see
+ * `geminiService`).
+ */
+
+export const EMPHASIS_OPEN = '[[';
+export const EMPHASIS_CLOSE = ']]';
+
+// Mammoth keeps bold as <strong> but drops underlines and highlights unless they are mapped.
+const STYLE_MAP = ['u => u', 'highlight => mark'];
+const EMPHASIS_TAGS = new Set(['STRONG', 'B', 'U', 'MARK']);
+const HEADING_TAGS = new Set(['H1', 'H2', 'H3', 'H4', 'H5', 'H6']);
+// Wider cells still get their whole text, but don't push the next column further out.
+const MAX_COLUMN_WIDTH = 40;
+
+const isElement = (node: Node): node is Element => node.nodeType === 1;
+
+/** Nothing but spaces and underscores: an underlined stretch of this is a blank to fill in. */
+const isGap = (text: string) => /^[\s_\u00a0]*$/.test(text);
+
+/** Wraps emphasized text in the markers, leaving its surrounding spaces outside them. */
+const mark = (text: string) => {
+    const [, before, core, after] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    return `${before}${EMPHASIS_OPEN}${core}${EMPHASIS_CLOSE}${after}`;
+};
+
+/**
+ * The text of an inline run. `emphasized` is set inside a marked run, so nested bold and underline
+ * give one pair of markers; `underlined` turns gaps in it into blanks.
+ */
+const inlineText = (node: Node, emphasized: boolean, underlined: boolean): string => {
+    if (!isElement(node)) return node.nodeType === 3 ? node.textContent || '' : '';
+    const tag = node.tagName.toUpperCase();
+    if (tag === 'BR') return '\n';
+    // The converter below sets a picture's `src` to its label, or leaves it empty to skip it.
+    if (tag === 'IMG') return node.getAttribute('src') ? ` ${imageMarker(node.getAttribute('src')!)} ` : '';
+
+    const isEmphasis = EMPHASIS_TAGS.has(tag);
+    const isUnderline = underlined || tag === 'U';
+    const text = Array.from(node.childNodes, child => inlineText(child, emphasized || isEmphasis, isUnderline)).join('');
+    if (!isEmphasis) return text;
+    if (isGap(text)) return isUnderline && text ? ` ${BLANK_MARKER} ` : text;
+    return emphasized ? text : mark(text);
+};
+
+/** Tidies one line: single spaces, one blank per gap, and neighbouring marked runs joined. */
+const cleanLine = (text: string) =>
+    text
+        .replace(/_{3,}/g, BLANK_MARKER)
+        .replace(/[ \u00a0]+/g, ' ')
+        .replace(new RegExp(`${BLANK_MARKER}(\\s*${BLANK_MARKER})+`, 'g'), BLANK_MARKER)
+        // Word splits runs at spelling marks and edits, so one bold word can arrive in pieces.
+        .replace(/\]\](\s*)\[\[/g, '$1')
+        .replace(new RegExp(`${BLANK_MARKER} ([.,;:!?)])`, 'g'), `${BLANK_MARKER}$1`)
+        .trim();
+
+const inlineLine = (node: Node, emphasized = false) =>
+    cleanLine(Array.from(node.childNodes, child => inlineText(child, emphasized, false)).join(''));
+
+const tableRows = (table: Element): Element[] =>
+    Array.from(table.children).flatMap(child => {
+        const tag = child.tagName.toUpperCase();
+        if (tag === 'TR') return [child];
+        return ['THEAD', 'TBODY', 'TFOOT'].includes(tag) ? tableRows(child) : [];
+    });
+
+/** The table's rows with their cells padded so the columns line up, cells separated by ` | `. */
+const tableText = (table: Element): string => {
+    const rows = tableRows(table).map(row =>
+        Array.from(row.children)
+            .filter(cell => ['TD', 'TH'].includes(cell.tagName.toUpperCase()))
+            .map(cell => blocks(cell).join(' ').replace(/\s+/g, ' ').trim()));
+    const widths: number[] = [];
+    rows.forEach(cells => cells.forEach((cell, i) => (widths[i] = Math.min(MAX_COLUMN_WIDTH, Math.max(widths[i] || 0, cell.length)))));
+    return rows
+        .filter(cells => cells.some(Boolean))
+        .map(cells => cells.map((cell, i) => (i < cells.length - 1 ? cell.padEnd(widths[i]) : cell)).join(' | ').trimEnd())
+        .join('\n');
+};
+
+const listText = (list: Element, depth = 0): string => {
+    const ordered = list.tagName.toUpperCase() === 'OL';
+    const lines: string[] = [];
+    Array.from(list.children).forEach((item, index) => {
+        const nested = Array.from(item.children).filter(child => ['OL', 'UL'].includes(child.tagName.toUpperCase()));
+        const own = item.cloneNode(true) as Element;
+        Array.from(own.children).forEach(child => ['OL', 'UL'].includes(child.tagName.toUpperCase()) && own.removeChild(child));
+        lines.push(`${'  '.repeat(depth)}${ordered ? `${index + 1}.` : '-'} ${inlineLine(own)}`);
+        nested.forEach(sublist => lines.push(listText(sublist, depth + 1)));
+    });
+    return lines.join('\n');
+};
+
+/** The element's block-level pieces in order: paragraphs, whole lists and whole tables. */
+const blocks = (node: Node): string[] =>
+    Array.from(node.childNodes).flatMap(child => {
+        if (!isElement(child)) return [cleanLine(child.textContent || '')];
+        const tag = child.tagName.toUpperCase();
+        if (tag === 'TABLE') return [tableText(child)];
+        if (tag === 'OL' || tag === 'UL') return [listText(child)];
+        // Headings are bold by their style, not to mark an answer.
+        if (HEADING_TAGS.has(tag)) return [inlineLine(child, true)];
+        if (tag === 'P') return [inlineLine(child)];
+        if (EMPHASIS_TAGS.has(tag) || tag === 'A') return [cleanLine(inlineText(child, false, false))];
+        return blocks(child);
+    }).filter(Boolean);
+
+/** Turns mammoth's HTML into the annotated text described above. */
+export const annotateDocxHtml = (html: string): string => {
+    const parsed = new DOMParser().parseFromString(`<html><body>${html}</body></html>`, 'text/html');
+    return blocks(parsed.body).join('\n\n');
+};
+
+// Word's vector formats, which browsers can't show.
+const SKIPPED_IMAGE_TYPES = new Set(['image/x-emf', 'image/x-wmf', 'image/emf', 'image/wmf']);
+
+export interface DocxText {
+    text: string;
+    /** The document's pictures, marked in the text where they were. */
+    images: SourceImage[];
+}
+
+export const extractDocxText = async (data: ArrayBuffer): Promise<DocxText> => {
+    const images: SourceImage[] = [];
+    const result = await mammoth.convertToHtml(
+        { arrayBuffer: data },
+        {
+            styleMap: STYLE_MAP,
+            // The HTML only needs to say where each picture was; the pictures are kept apart.
+            convertImage: mammoth.images.imgElement(async image => {
+                if (SKIPPED_IMAGE_TYPES.has(image.contentType)) return { src: '' };
+                const bytes = Uint8Array.from(atob(await image.read('base64')), c => c.charCodeAt(0));
+                const src = await toImageDataUrl(new Blob([bytes], { type: image.contentType }));
+                if (!src) return { src: '' };
+                const label = imageLabel(images.length + 1);
+                // Mammoth reads the picture's description but leaves it out of its types.
+                const alt = (image as { altText?: string }).altText;
+                images.push({ label, src, alt: alt || undefined });
+                return { src: label };
+            }),
+        },
+    );
+    return { text: annotateDocxHtml(result.value), images };
+};
@@ -0,0 +1,72 @@
+import type { Form } from '../types';
+import type { ExportIssue } from './exportText';
+import { moodleSkippedItems, toMoodleXml, toGift } from './moodleExport';
+import { qtiSkippedItems, toQtiPackage } from './qtiExport';
+import { downloadFile, toFileName } from './fileDownload';
+import { serializeForm } from './formJson';
+
+/** A file format the preview's Export menu can produce from a form. */
+export interface ExportFormat {
+    id: string;
+    label: string;
+    description: string;
+    extension: string;
+    mimeType: string;
+    build: (form: Form) => string | Blob | Promise<string | Blob>;
+    /** The items the format leaves out, to tell the user after exporting. */
+    skipped?: (form: Form) => ExportIssue[];
+}
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+    {
+        id: 'form-json',
+        label: 'Form JSON',
+        description: 'The whole form, to open again here or send to a colleague.',
+        extension: 'form.json',
+        mimeType: 'application/json',
+        build: serializeForm,
+    },
+    {
+        id: 'moodle-xml',
+        label: 'Moodle XML',
+        description: 'Question bank for Moodle, with partial credit and drop-down gaps.',
+        extension: 'xml',
+        mimeType: 'application/xml',
+        build: toMoodleXml,
+        skipped: moodleSkippedItems,
+    },
+    {
+        id: 'gift',
+        label: 'GIFT',
+        description: "Moodle's plain-text question format.",
+        extension: 'gift.txt',
+        mimeType: 'text/plain',
+        build: toGift,
+        skipped: moodleSkippedItems,
+    },
+    {
+        id: 'qti-21',
+        label: 'QTI 2.1 package',
+        description: 'Zipped IMS QTI 2.1 for Canvas, Blackboard and Brightspace.',
+        extension: 'qti21.zip',
+        mimeType: 'application/zip',
+        build: form => toQtiPackage(form, '2.1'),
+        skipped: qtiSkippedItems,
+    },
+    {
+        id: 'qti-30',
+        label: 'QTI 3.0 package',
+        description: 'Zipped IMS QTI 3.0, with passages as shared stimuli.',
+        extension: 'qti30.zip',
+        mimeType: 'application/zip',
+        build: form => toQtiPackage(form, '3.0'),
+        skipped: qtiSkippedItems,
+    },
+];
+
+/** Downloads the form in the format, resolving with the items it left out. */
+export const exportForm = async (form: Form, format: ExportFormat): Promise<ExportIssue[]> => {
+    const content = await format.build(form);
+    downloadFile(content, `${toFileName(form.title)}.${format.extension}`, format.mimeType);
+    return format.skipped?.(form) ?? [];
+};
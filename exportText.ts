@@ -0,0 +1,33 @@
+import type { FormItem } from '../types';
+
+/* Text helpers shared by the file exporters. */
+
+/** An item a file format has no place for, so it was left out of the export. */
+export interface ExportIssue {
+    itemIndex: number;
+    title: string;
+    message: string;
+}
+
+export const answersOf = (item: FormItem): string[] =>
+    item.correctAnswer === undefined ? [] : Array.isArray(item.correctAnswer) ? item.correctAnswer : [item.correctAnswer];
+
+/** A blank in a fill-in-the-blank sentence or passage: three or more underscores, or `[BLANK]`. */
+export const BLANK_PATTERN = /_{3,}|\[BLANK\]/gi;
+
+export const countBlanks = (text: string) => (text.match(BLANK_PATTERN) || []).length;
+
+/** Splits text around its first blank. */
+export const splitAtBlank = (text: string): [string, string] => {
+    const [before, ...rest] = text.split(/_{3,}|\[BLANK\]/i);
+    return [before, rest.join('___')];
+};
+
+export const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** A one-line, length-limited label for a question, for formats that name each question. */
+export const questionName = (item: FormItem) => {
+    const name = item.title.replace(/\s+/g, ' ').trim() || 'Untitled';
+    return name.length > 80 ? `${name.slice(0, 77)}...` : name;
+};
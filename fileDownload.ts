@@ -0,0 +1,29 @@
+/** Turns a form title into a safe, readable file name stem. */
+export const toFileName = (title: string, fallback = 'form') =>
+    title.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^\w\s-]/g, '').trim().replace(/[\s_]+/g, '-').toLowerCase().slice(0, 60) || fallback;
+
+/** Saves content as a file through a temporary object URL. */
+export const downloadFile = (content: string | Blob, fileName: string, mimeType: string) => {
+    const blob = typeof content === 'string' ? new Blob([content], { type: `${mimeType};charset=utf-8` }) : content;
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    // Revoke on the next tick so the download has started.
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+/** Opens an HTML document in a new window and brings up the print dialog, from which it can also be saved as PDF. */
+export const openPrintWindow = (html: string) => {
+    const win = window.open('', '_blank');
+    if (!win) throw new Error('The print window was blocked. Allow pop-ups for this site and try again.');
+    win.document.open();
+    win.document.write(html);
+    win.document.close();
+    win.focus();
+    // Give the new document a moment to lay out before printing.
+    setTimeout(() => win.print(), 250);
+};
@@ -0,0 +1,113 @@
+import type { LlmConfig, LlmProvider, LlmRequest } from './llmProvider';
+
+/**
+ * Fixture files map request keys (see `fixtureKey`) to the recorded model text:
+ * `{ "responses": { "<key>": "<text>" } }`. Requests without a recording fall back
+ * to the built-in samples below so the app is usable with no key and no server.
+ */
+interface FixtureFile {
+    responses: Record<string, string>;
+}
+
+const SAMPLE_FORM = JSON.stringify({
+    title: 'Sample Quiz',
+    description: 'Replayed from the built-in fixture provider.',
+    items: [
+        { title: 'Name', type: 'SHORT_ANSWER', required: true },
+        { title: 'What is the capital of Japan?', type: 'MULTIPLE_CHOICE', options: ['Tokyo', 'Kyoto', 'Osaka'], points: 1, correctAnswer: 'Tokyo', required: true },
+        { title: 'Which of the following are continents?', type: 'CHECKBOXES', options: ['Asia', 'Pacific', 'Africa'], points: 1, correctAnswer: ['Asia', 'Africa'], required: true },
+        { title: 'What are your thoughts on geography?', type: 'PARAGRAPH' },
+    ],
+});
+
+const SAMPLE_OCR_TEXT = 'Sample OCR text replayed from the built-in fixture provider.';
+
+// Replayed streams arrive in small pieces with a short pause so progressive rendering can be exercised.
+const STREAM_SLICE_CHARS = 80;
+const STREAM_DELAY_MS = 20;
+
+const abortError = () => new DOMException('The request was aborted.', 'AbortError');
+
+/** A stable FNV-1a hash of everything that influences the model's answer. */
+export const fixtureKey = (request: LlmRequest): string => {
+    const parts = [request.vision ? 'vision' : 'text', request.prompt, ...(request.images || []).map(i => `${i.mimeType}:${i.data}`)];
+    let hash = 0x811c9dc5;
+    for (const char of parts.join('\n')) {
+        hash ^= char.codePointAt(0)!;
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash.toString(16).padStart(8, '0');
+};
+
+/** Replays recorded responses deterministically; never touches the network except to load the fixture file. */
+export const createFixtureProvider = (config: LlmConfig): LlmProvider => {
+    let fixtures: Promise<FixtureFile> | null = null;
+
+    const loadFixtures = () => {
+        if (!fixtures) {
+            fixtures = config.fixturesUrl
+                ? fetch(config.fixturesUrl).then(async response => {
+                    if (!response.ok) throw new Error(`Could not load LLM fixtures from ${config.fixturesUrl} (${response.status}).`);
+                    return response.json() as Promise<FixtureFile>;
+                })
+                : Promise.resolve({ responses: {} });
+        }
+        return fixtures;
+    };
+
+    const replay = async (request: LlmRequest) => {
+        const { responses } = await loadFixtures();
+        const key = fixtureKey(request);
+        if (key in responses) return responses[key];
+        if (config.fixturesUrl) {
+            console.warn(`No recorded fixture for request ${key}; using the built-in sample.`);
+        }
+        return request.vision ? SAMPLE_OCR_TEXT : SAMPLE_FORM;
+    };
+
+    return {
+        name: 'fixture',
+        model: config.model,
+        supportsSchema: false,
+        async generate(request: LlmRequest) {
+            if (request.signal?.aborted) throw abortError();
+            return replay(request);
+        },
+        async *stream(request: LlmRequest) {
+            const text = await replay(request);
+            for (let i = 0; i < text.length; i += STREAM_SLICE_CHARS) {
+                if (request.signal?.aborted) throw abortError();
+                yield text.slice(i, i + STREAM_SLICE_CHARS);
+                await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+            }
+        },
+    };
+};
+
+/**
+ * Wraps a live provider and keeps every response keyed for replay. Recordings are exposed as
+ * `globalThis.llmFixtures` so they can be copied from the console into a fixture file.
+ */
+export const withFixtureRecording = (provider: LlmProvider): LlmProvider => {
+    const recorded: FixtureFile = { responses: {} };
+    (globalThis as { llmFixtures?: FixtureFile }).llmFixtures = recorded;
+
+    return {
+        name: provider.name,
+        model: provider.model,
+        supportsSchema: provider.supportsSchema,
+        async generate(request: LlmRequest) {
+            const text = await provider.generate(request);
+            recorded.responses[fixtureKey(request)] = text;
+            return text;
+        },
+        async *stream(request: LlmRequest) {
+            let text = '';
+            for await (const piece of provider.stream(request)) {
+                text += piece;
+                yield piece;
+            }
+            recorded.responses[fixtureKey(request)] = text;
+        },
+    };
+};
@@ -0,0 +1,285 @@
+import type { FeedbackLink, Form, FormImage, FormItem, ItemFeedback, OptionBranch, OptionImage, ResponseValidation } from '../types';
+import { ItemType } from '../types';
+import {
+    feedbackKind, isAnsweredType, isBranchingType, isChoiceType, isGradableType, isGridType, isOptionImageType, isQuestionType, newPageId,
+} from './formValidator';
+
+/*
+ * Pure, immutable edit operations on the `Form` model. The preview's editor calls these
+ * and hands the result to the undo history, so none of them may mutate their input.
+ */
+
+const replaceItem = (form: Form, index: number, item: FormItem): Form => ({
+    ...form,
+    items: form.items.map((existing, i) => (i === index ? item : existing)),
+});
+
+const answersOf = (item: FormItem): string[] =>
+    item.correctAnswer === undefined ? [] : Array.isArray(item.correctAnswer) ? item.correctAnswer : [item.correctAnswer];
+
+const withAnswers = (item: FormItem, answers: string[]): FormItem => {
+    const next = { ...item };
+    if (item.type === ItemType.CHECKBOXES) {
+        next.correctAnswer = answers;
+    } else if (answers.length > 0) {
+        next.correctAnswer = answers[0];
+    } else {
+        delete next.correctAnswer;
+    }
+    return next;
+};
+
+/** Drops empty feedback fields, and the feedback itself once nothing is left. */
+const compactFeedback = (feedback: ItemFeedback): ItemFeedback | undefined => {
+    const next: ItemFeedback = { ...feedback };
+    for (const key of Object.keys(next) as (keyof ItemFeedback)[]) {
+        const value = next[key];
+        if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) delete next[key];
+    }
+    return Object.keys(next).length > 0 ? next : undefined;
+};
+
+const withFeedback = (item: FormItem, feedback: ItemFeedback | undefined): FormItem => {
+    const next = { ...item, feedback };
+    if (!feedback) delete next.feedback;
+    return next;
+};
+
+const withBranches = (item: FormItem, branches: OptionBranch[]): FormItem => {
+    const next = { ...item, branches };
+    if (branches.length === 0) delete next.branches;
+    return next;
+};
+
+const withOptionImages = (item: FormItem, optionImages: OptionImage[]): FormItem => {
+    const next = { ...item, optionImages };
+    if (optionImages.length === 0) delete next.optionImages;
+    return next;
+};
+
+/** Drops every branch that goes to the given page, e.g. because the page is being removed. */
+const withoutBranchesTo = (form: Form, pageId?: string): Form => (pageId ? {
+    ...form,
+    items: form.items.map(item => (item.branches?.some(b => b.goTo === pageId)
+        ? withBranches(item, item.branches.filter(b => b.goTo !== pageId))
+        : item)),
+} : form);
+
+export const updateFormDetails = (form: Form, patch: Partial<Pick<Form, 'title' | 'description'>>): Form => ({ ...form, ...patch });
+
+export const updateItem = (form: Form, index: number, patch: Partial<FormItem>): Form => {
+    const next: FormItem = { ...form.items[index], ...patch };
+    // Clearing a field in the editor should remove the key rather than leave `undefined` or `''` behind.
+    for (const key of Object.keys(patch) as (keyof FormItem)[]) {
+        if (next[key] === undefined || next[key] === '') delete next[key];
+    }
+    return replaceItem(form, index, next);
+};
+
+/** Switches an item's type, carrying over whatever options and answers still make sense. */
+export const changeItemType = (form: Form, index: number, type: ItemType): Form => {
+    const item = form.items[index];
+    const next: FormItem = { title: item.title, type };
+    if (item.description) next.description = item.description;
+    if (item.image && type !== ItemType.PAGE_BREAK) next.image = item.image;
+
+    if (isChoiceType(type)) {
+        next.options = item.options && item.options.length > 0 ? [...item.options] : ['Option 1', 'Option 2'];
+    }
+    if (isGridType(type)) {
+        next.options = item.options && item.options.length > 0 ? [...item.options] : ['Column 1', 'Column 2'];
+        next.rows = item.rows && item.rows.length > 0 ? [...item.rows] : ['Row 1', 'Row 2'];
+    }
+    // A scale and a rating share their top value.
+    if ((type === ItemType.LINEAR_SCALE || type === ItemType.RATING) && item.high !== undefined) {
+        next.high = Math.max(type === ItemType.RATING ? 3 : 2, item.high);
+    }
+    if (isGradableType(type) && item.points) next.points = item.points;
+    if (isAnsweredType(type)) {
+        const answers = answersOf(item).filter(a => !next.options || next.options.includes(a));
+        if (answers.length > 0) next.correctAnswer = type === ItemType.CHECKBOXES ? answers : answers[0];
+    }
+    if (isQuestionType(type) && item.required) next.required = true;
+    if (type === ItemType.PAGE_BREAK) next.pageId = item.pageId || newPageId();
+    if (isBranchingType(type) && item.branches) {
+        const branches = item.branches.filter(b => next.options?.includes(b.option));
+        if (branches.length > 0) next.branches = branches;
+    }
+    if (isOptionImageType(type) && item.optionImages) {
+        const optionImages = item.optionImages.filter(o => next.options?.includes(o.option));
+        if (optionImages.length > 0) next.optionImages = optionImages;
+    }
+
+    // Feedback moves between the by-result and general fields when the way it is shown changes.
+    const kind = feedbackKind(type);
+    if (item.feedback && kind) {
+        const { correct, incorrect, general, links } = item.feedback;
+        const feedback = kind === 'result'
+            ? compactFeedback({ correct, incorrect: incorrect || general, links })
+            : compactFeedback({ general: general || incorrect || correct, links });
+        if (feedback) next.feedback = feedback;
+    }
+
+    // A page that stops being one can no longer be branched to.
+    const result = replaceItem(form, index, next);
+    return type === ItemType.PAGE_BREAK ? result : withoutBranchesTo(result, item.pageId);
+};
+
+/** Replaces a short answer's response validation, dropping empty settings; `null` removes it. */
+export const setValidation = (form: Form, index: number, validation: ResponseValidation | null): Form => {
+    const item = { ...form.items[index] };
+    if (validation) {
+        const next = { ...validation };
+        for (const key of Object.keys(next) as (keyof ResponseValidation)[]) {
+            const value = next[key];
+            if (value === undefined || value === '' || Number.isNaN(value)) delete next[key];
+        }
+        item.validation = next;
+    } else {
+        delete item.validation;
+    }
+    return replaceItem(form, index, item);
+};
+
+export const updateFeedback = (form: Form, index: number, patch: Partial<ItemFeedback>): Form => {
+    const item = form.items[index];
+    return replaceItem(form, index, withFeedback(item, compactFeedback({ ...item.feedback, ...patch })));
+};
+
+export const addFeedbackLink = (form: Form, index: number, link: FeedbackLink): Form =>
+    updateFeedback(form, index, { links: [...(form.items[index].feedback?.links || []), link] });
+
+export const updateFeedbackLink = (form: Form, index: number, linkIndex: number, patch: Partial<FeedbackLink>): Form => {
+    const links = (form.items[index].feedback?.links || []).map((link, i) => {
+        if (i !== linkIndex) return link;
+        const next = { ...link, ...patch };
+        if (!next.label) delete next.label;
+        return next;
+    });
+    return updateFeedback(form, index, { links });
+};
+
+export const removeFeedbackLink = (form: Form, index: number, linkIndex: number): Form =>
+    updateFeedback(form, index, { links: (form.items[index].feedback?.links || []).filter((_, i) => i !== linkIndex) });
+
+export const addItem = (form: Form, item: FormItem, index = form.items.length): Form => ({
+    ...form,
+    items: [...form.items.slice(0, index), item, ...form.items.slice(index)],
+});
+
+export const deleteItem = (form: Form, index: number): Form => withoutBranchesTo({
+    ...form,
+    items: form.items.filter((_, i) => i !== index),
+}, form.items[index].pageId);
+
+export const duplicateItem = (form: Form, index: number): Form => {
+    const copy: FormItem = JSON.parse(JSON.stringify(form.items[index]));
+    if (copy.pageId) copy.pageId = newPageId();
+    return addItem(form, copy, index + 1);
+};
+
+export const moveItem = (form: Form, from: number, to: number): Form => {
+    if (to < 0 || to >= form.items.length || from === to) return form;
+    const items = [...form.items];
+    const [moved] = items.splice(from, 1);
+    items.splice(to, 0, moved);
+    return { ...form, items };
+};
+
+export const addOption = (form: Form, index: number, option: string): Form => {
+    const item = form.items[index];
+    return replaceItem(form, index, { ...item, options: [...(item.options || []), option] });
+};
+
+/** Renames an option and keeps any correct answer, branch or picture that pointed at it in sync. */
+export const renameOption = (form: Form, index: number, optionIndex: number, value: string): Form => {
+    const item = form.items[index];
+    const previous = item.options?.[optionIndex];
+    const options = (item.options || []).map((o, i) => (i === optionIndex ? value : o));
+    const answers = answersOf(item).map(a => (a === previous ? value : a));
+    const branches = (item.branches || []).map(b => (b.option === previous ? { ...b, option: value } : b));
+    const optionImages = (item.optionImages || []).map(o => (o.option === previous ? { ...o, option: value } : o));
+    return replaceItem(form, index, withOptionImages(withBranches(withAnswers({ ...item, options }, answers), branches), optionImages));
+};
+
+export const removeOption = (form: Form, index: number, optionIndex: number): Form => {
+    const item = form.items[index];
+    const removed = item.options?.[optionIndex];
+    const options = (item.options || []).filter((_, i) => i !== optionIndex);
+    const answers = answersOf(item).filter(a => a !== removed);
+    const branches = (item.branches || []).filter(b => b.option !== removed);
+    const optionImages = (item.optionImages || []).filter(o => o.option !== removed);
+    return replaceItem(form, index, withOptionImages(withBranches(withAnswers({ ...item, options }, answers), branches), optionImages));
+};
+
+/** Sends respondents who pick `option` to a page (or SUBMIT_FORM); `null` continues to the next page. */
+export const setBranch = (form: Form, index: number, option: string, goTo: string | null): Form => {
+    const item = form.items[index];
+    const branches = (item.branches || []).filter(b => b.option !== option);
+    if (goTo) branches.push({ option, goTo });
+    // Keep branches in option order so exports stay stable.
+    const ordered = (item.options || []).flatMap(o => branches.filter(b => b.option === o));
+    return replaceItem(form, index, withBranches(item, ordered));
+};
+
+/** Shows a picture with `option`; `null` removes it. */
+export const setOptionImage = (form: Form, index: number, option: string, image: FormImage | null): Form => {
+    const item = form.items[index];
+    const optionImages = (item.optionImages || []).filter(o => o.option !== option);
+    if (image) optionImages.push({ option, image });
+    const ordered = (item.options || []).flatMap(o => optionImages.filter(i => i.option === o));
+    return replaceItem(form, index, withOptionImages(item, ordered));
+};
+
+export const moveOption = (form: Form, index: number, from: number, to: number): Form => {
+    const item = form.items[index];
+    const options = [...(item.options || [])];
+    if (to < 0 || to >= options.length || from === to) return form;
+    const [moved] = options.splice(from, 1);
+    options.splice(to, 0, moved);
+    return replaceItem(form, index, { ...item, options });
+};
+
+export const addRow = (form: Form, index: number, row: string): Form => {
+    const item = form.items[index];
+    return replaceItem(form, index, { ...item, rows: [...(item.rows || []), row] });
+};
+
+export const renameRow = (form: Form, index: number, rowIndex: number, value: string): Form => {
+    const item = form.items[index];
+    return replaceItem(form, index, { ...item, rows: (item.rows || []).map((r, i) => (i === rowIndex ? value : r)) });
+};
+
+export const removeRow = (form: Form, index: number, rowIndex: number): Form => {
+    const item = form.items[index];
+    return replaceItem(form, index, { ...item, rows: (item.rows || []).filter((_, i) => i !== rowIndex) });
+};
+
+export const moveRow = (form: Form, index: number, from: number, to: number): Form => {
+    const item = form.items[index];
+    const rows = [...(item.rows || [])];
+    if (to < 0 || to >= rows.length || from === to) return form;
+    const [moved] = rows.splice(from, 1);
+    rows.splice(to, 0, moved);
+    return replaceItem(form, index, { ...item, rows });
+};
+
+/** Marks an option as correct; for CHECKBOXES this toggles it within the answer set. */
+export const toggleCorrectOption = (form: Form, index: number, option: string): Form => {
+    const item = form.items[index];
+    const answers = answersOf(item);
+    if (item.type === ItemType.CHECKBOXES) {
+        const next = answers.includes(option) ? answers.filter(a => a !== option) : [...answers, option];
+        // Keep the answer set in option order so exports stay stable.
+        const ordered = (item.options || []).filter(o => next.includes(o));
+        return replaceItem(form, index, withAnswers(item, ordered));
+    }
+    return replaceItem(form, index, withAnswers(item, answers[0] === option ? [] : [option]));
+};
+
+export const createBlankItem = (type: ItemType = ItemType.MULTIPLE_CHOICE): FormItem => {
+    if (isChoiceType(type)) return { title: 'Untitled question', type, options: ['Option 1', 'Option 2'], points: 1, required: true };
+    if (isGridType(type)) return { title: 'Untitled question', type, options: ['Column 1', 'Column 2'], rows: ['Row 1', 'Row 2'] };
+    if (type === ItemType.PAGE_BREAK) return { title: 'Untitled page', type, pageId: newPageId() };
+    return { title: 'Untitled question', type };
+};
@@ -0,0 +1,81 @@
+import { useCallback, useRef, useState } from 'react';
+import type { Form } from '../types';
+
+const MAX_HISTORY = 100;
+// Consecutive edits with the same key inside this window become a single undo step (e.g. typing a title).
+const COALESCE_WINDOW_MS = 1000;
+
+interface HistoryState {
+    past: Form[];
+    present: Form | null;
+    future: Form[];
+}
+
+export interface FormHistory {
+    form: Form | null;
+    /** Records an edit. Pass a `coalesceKey` to merge rapid edits to the same field into one step. */
+    update: (next: Form, coalesceKey?: string) => void;
+    /** Replaces the form and clears the history, e.g. after a fresh generation. */
+    reset: (form: Form | null) => void;
+    undo: () => void;
+    redo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+}
+
+/**
+ * Undo/redo history for the form being edited in the preview. It lives for the editing
+ * session only; generating a new form starts a new history.
+ */
+export const useFormHistory = (): FormHistory => {
+    const [state, setState] = useState<HistoryState>({ past: [], present: null, future: [] });
+    const lastEdit = useRef<{ key: string; at: number } | null>(null);
+
+    const update = useCallback((next: Form, coalesceKey?: string) => {
+        const now = Date.now();
+        const previous = lastEdit.current;
+        const coalesce = !!coalesceKey && previous?.key === coalesceKey && now - previous.at < COALESCE_WINDOW_MS;
+        lastEdit.current = coalesceKey ? { key: coalesceKey, at: now } : null;
+
+        setState(current => {
+            if (current.present === next) return current;
+            if (coalesce || !current.present) {
+                return { ...current, present: next, future: [] };
+            }
+            return { past: [...current.past, current.present].slice(-MAX_HISTORY), present: next, future: [] };
+        });
+    }, []);
+
+    const reset = useCallback((form: Form | null) => {
+        lastEdit.current = null;
+        setState({ past: [], present: form, future: [] });
+    }, []);
+
+    const undo = useCallback(() => {
+        lastEdit.current = null;
+        setState(current => {
+            if (current.past.length === 0 || !current.present) return current;
+            const previous = current.past[current.past.length - 1];
+            return { past: current.past.slice(0, -1), present: previous, future: [current.present, ...current.future] };
+        });
+    }, []);
+
+    const redo = useCallback(() => {
+        lastEdit.current = null;
+        setState(current => {
+            if (current.future.length === 0 || !current.present) return current;
+            const [next, ...future] = current.future;
+            return { past: [...current.past, current.present], present: next, future };
+        });
+    }, []);
+
+    return {
+        form: state.present,
+        update,
+        reset,
+        undo,
+        redo,
+        canUndo: state.past.length > 0,
+        canRedo: state.future.length > 0,
+    };
+};
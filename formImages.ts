@@ -0,0 +1,122 @@
+import type { Form, FormImage } from '../types';
+import { blobToBase64 } from './imagePreprocessing';
+
+/*
+ * Pictures taken from uploaded documents. Extraction leaves a marker such as `[Image 3]` in the
+ * text where each picture was; the model refers to pictures by their label, and the validator
+ * swaps each reference for the picture itself (see `formValidator`). Forms keep their pictures
+ * as data URLs, so they work offline and travel with the form.
+ */
+
+/** A picture found in the source document. */
+export interface SourceImage {
+    /** How the text and the model refer to it, e.g. "Image 3". */
+    label: string;
+    /** A data URL. */
+    src: string;
+    alt?: string;
+}
+
+// Pictures are scaled down to this size along their longer side, which is plenty on screen and
+// keeps forms with many of them small enough to save and share.
+const MAX_SIDE = 1200;
+// Smaller than this on the page, a picture is an icon, a bullet or a rule rather than a figure.
+export const MIN_IMAGE_SIDE = 24;
+
+const EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'image/svg+xml': 'svg',
+};
+
+export const imageLabel = (number: number) => `Image ${number}`;
+
+export const imageMarker = (label: string) => `[${label}]`;
+
+export const isImageMarker = (text: string) => /^\[Image \d+\]$/.test(text.trim());
+
+/** The picture a reference names: "Image 3", "[image 3]" or just "3". */
+export const findSourceImage = (images: SourceImage[], reference: string): SourceImage | undefined => {
+    const key = reference.replace(/[[\]]/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase();
+    const label = /^\d+$/.test(key) ? imageLabel(Number(key)).toLowerCase() : key;
+    return images.find(image => image.label.toLowerCase() === label);
+};
+
+const DATA_URL_PATTERN = /^data:(image\/[\w.+-]+);base64,([A-Za-z0-9+/=\s]+)$/;
+
+/** Whether the value can be an image's `src`: a base64 image data URL, or a web address. */
+export const isImageSource = (value: string) => {
+    if (DATA_URL_PATTERN.test(value)) return true;
+    try {
+        return ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+        return false;
+    }
+};
+
+export const isDataUrl = (src: string) => src.startsWith('data:');
+
+/** The MIME type and base64 data of a data URL. */
+export const dataUrlParts = (src: string): { mimeType: string; data: string } | null => {
+    const match = DATA_URL_PATTERN.exec(src);
+    return match ? { mimeType: match[1], data: match[2].replace(/\s+/g, '') } : null;
+};
+
+export const dataUrlBytes = (src: string): Uint8Array | null => {
+    const parts = dataUrlParts(src);
+    return parts ? Uint8Array.from(atob(parts.data), c => c.charCodeAt(0)) : null;
+};
+
+export const imageExtension = (mimeType: string) => EXTENSIONS[mimeType] || 'img';
+
+/** Every picture in the form, each once, in the order the items show them. */
+export const formImages = (form: Form): FormImage[] => {
+    const images = new Map<string, FormImage>();
+    for (const item of form.items) {
+        for (const image of [...(item.image ? [item.image] : []), ...(item.optionImages || []).map(o => o.image)]) {
+            if (!images.has(image.src)) images.set(image.src, image);
+        }
+    }
+    return [...images.values()];
+};
+
+/**
+ * A picture as a data URL, scaled down to `MAX_SIDE` if larger. Works in workers too. Formats
+ * the browser can't decode are kept as they are when they can be shown, and dropped otherwise.
+ */
+export const toImageDataUrl = async (blob: Blob): Promise<string | null> => {
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(blob);
+    } catch {
+        return EXTENSIONS[blob.type] ? `data:${blob.type};base64,${await blobToBase64(blob)}` : null;
+    }
+    const scale = Math.min(1, MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+    if (scale === 1 && (blob.type === 'image/png' || blob.type === 'image/jpeg')) {
+        bitmap.close();
+        return `data:${blob.type};base64,${await blobToBase64(blob)}`;
+    }
+    const canvas = new OffscreenCanvas(Math.max(1, Math.round(bitmap.width * scale)), Math.max(1, Math.round(bitmap.height * scale)));
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Could not get canvas context');
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    // PNG keeps transparency and the sharp edges of diagrams.
+    const scaled = await canvas.convertToBlob({ type: 'image/png' });
+    return `data:image/png;base64,${await blobToBase64(scaled)}`;
+};
+
+/** A cropped region of a rendered page, as a JPEG data URL. */
+export const canvasRegionToDataUrl = async (source: OffscreenCanvas, x: number, y: number, width: number, height: number): Promise<string> => {
+    const scale = Math.min(1, MAX_SIDE / Math.max(width, height));
+    const canvas = new OffscreenCanvas(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)));
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Could not get canvas context');
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(source, x, y, width, height, 0, 0, canvas.width, canvas.height);
+    const blob = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.9 });
+    return `data:image/jpeg;base64,${await blobToBase64(blob)}`;
+};
@@ -0,0 +1,125 @@
+import type { Form } from '../types';
+import { validateForm } from './formValidator';
+import type { ValidationResult } from './formValidator';
+
+/*
+ * The JSON a form is saved and shared as. It names its schema version, so JSON saved by an
+ * earlier version of the app is upgraded step by step before it is validated, and JSON from a
+ * later version is refused rather than read wrongly.
+ */
+
+const FORMAT = 'form-architect-form';
+
+/** The current version of the saved form schema. Raise it, and add a migration, when `Form` changes shape. */
+export const FORM_SCHEMA_VERSION = 1;
+
+interface FormDocument {
+    format: typeof FORMAT;
+    schemaVersion: number;
+    form: Form;
+}
+
+/**
+ * Migrations by the version they upgrade from: `MIGRATIONS[n]` turns a version `n` form into a
+ * version `n + 1` one. Fields added as optional need none, as the validator fills in defaults;
+ * renamed or restructured fields do.
+ */
+const MIGRATIONS: Record<number, (form: unknown) => unknown> = {
+    // Version 0 is the bare form that "Copy JSON" produced before the format had a version; its
+    // fields are those of version 1.
+    0: form => form,
+};
+
+export class FormJsonError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'FormJsonError';
+    }
+}
+
+export interface LoadedForm extends ValidationResult {
+    /** The version the JSON was saved with; lower than `FORM_SCHEMA_VERSION` if it was upgraded. */
+    schemaVersion: number;
+}
+
+const toDocument = (form: Form): FormDocument => ({ format: FORMAT, schemaVersion: FORM_SCHEMA_VERSION, form });
+
+export const serializeForm = (form: Form): string => JSON.stringify(toDocument(form), null, 2);
+
+/** Upgrades a form saved with `schemaVersion` to the current schema and validates it. */
+export const upgradeForm = (raw: unknown, schemaVersion: number): ValidationResult => {
+    if (!Number.isInteger(schemaVersion) || schemaVersion < 0) {
+        throw new FormJsonError(`${JSON.stringify(schemaVersion)} is not a form schema version.`);
+    }
+    if (schemaVersion > FORM_SCHEMA_VERSION) {
+        throw new FormJsonError(`This form was saved by a newer version of the app (schema ${schemaVersion}). Update the app to open it.`);
+    }
+    let form = raw;
+    for (let version = schemaVersion; version < FORM_SCHEMA_VERSION; version++) {
+        form = MIGRATIONS[version](form);
+    }
+    return validateForm(form);
+};
+
+/** Reads a parsed form document, or a bare form from before documents had a version. */
+export const loadForm = (data: unknown): LoadedForm => {
+    if (!data || typeof data !== 'object' || Array.isArray(data)) {
+        throw new FormJsonError('That JSON is not a form.');
+    }
+    const document = data as Partial<FormDocument>;
+    if (document.format === FORMAT) {
+        if (!document.form || typeof document.form !== 'object') throw new FormJsonError('That file has no form in it.');
+        const schemaVersion = document.schemaVersion as number;
+        return { ...upgradeForm(document.form, schemaVersion), schemaVersion };
+    }
+    if (!Array.isArray((data as Form).items)) {
+        throw new FormJsonError('That JSON is not a form: it has no list of items.');
+    }
+    return { ...upgradeForm(data, 0), schemaVersion: 0 };
+};
+
+export const parseFormJson = (json: string): LoadedForm => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch (err) {
+        throw new FormJsonError(`That is not valid JSON${err instanceof SyntaxError ? `: ${err.message}` : '.'}`);
+    }
+    return loadForm(data);
+};
+
+// --- Links ---
+
+const HASH_PREFIX = '#form=';
+
+const toBase64Url = (bytes: Uint8Array) => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string) =>
+    Uint8Array.from(atob(text.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0));
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+    new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+/** A URL hash that carries the whole form, compressed, for links that open it. */
+export const toFormHash = async (form: Form): Promise<string> => {
+    const json = JSON.stringify(toDocument(form));
+    return HASH_PREFIX + toBase64Url(await pipeBytes(new TextEncoder().encode(json), new CompressionStream('deflate-raw')));
+};
+
+export const hasFormHash = (hash: string) => hash.startsWith(HASH_PREFIX);
+
+/** Reads the form from a hash made by `toFormHash`. */
+export const readFormHash = async (hash: string): Promise<LoadedForm> => {
+    let json: string;
+    try {
+        const bytes = await pipeBytes(fromBase64Url(decodeURIComponent(hash.slice(HASH_PREFIX.length))), new DecompressionStream('deflate-raw'));
+        json = new TextDecoder().decode(bytes);
+    } catch {
+        throw new FormJsonError('The form in this link is incomplete or damaged. Ask for the link again.');
+    }
+    return parseFormJson(json);
+};
@@ -0,0 +1,56 @@
+import type { Form, FormItem } from '../types';
+import { ItemType } from '../types';
+
+const normalize = (value: string | undefined) => (value || '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+/** The respondent-name question `getPrompt` asks for at the top of every form. */
+export const isNameItem = (item: FormItem) =>
+    item.type === ItemType.SHORT_ANSWER && !item.points && /^(your\s+)?(full\s+)?name:?$/.test(normalize(item.title));
+
+const mostCommon = (values: string[]): string | undefined => {
+    const counts = new Map<string, number>();
+    for (const value of values) counts.set(normalize(value), (counts.get(normalize(value)) ?? 0) + 1);
+    let best: string | undefined;
+    let bestCount = 0;
+    for (const value of values) {
+        const count = counts.get(normalize(value))!;
+        if (count > bestCount) {
+            best = value;
+            bestCount = count;
+        }
+    }
+    return best;
+};
+
+/**
+ * Combines forms generated from consecutive parts of one document. The result has a single Name
+ * item, the title most parts agreed on, and no repeated passages; everything else keeps its order.
+ */
+export const mergeForms = (forms: Form[]): Form => {
+    const title = mostCommon(forms.map(f => f.title).filter(Boolean)) ?? '';
+    const description = forms.find(f => normalize(f.title) === normalize(title) && f.description)?.description
+        ?? forms.find(f => f.description)?.description
+        ?? '';
+
+    const items: FormItem[] = [];
+    const seenPassages = new Set<string>();
+    let nameItem: FormItem | undefined;
+
+    for (const item of forms.flatMap(f => f.items)) {
+        if (isNameItem(item)) {
+            nameItem ??= item;
+            continue;
+        }
+        if (item.type === ItemType.SECTION_HEADER && item.description) {
+            const key = normalize(item.description);
+            if (seenPassages.has(key)) continue;
+            seenPassages.add(key);
+        }
+        // Continuation requests may repeat the item they were asked to continue after.
+        const previous = items[items.length - 1];
+        if (previous && JSON.stringify(previous) === JSON.stringify(item)) continue;
+        items.push(item);
+    }
+
+    return { title, description, items: nameItem ? [nameItem, ...items] : items };
+};
@@ -0,0 +1,113 @@
+import type { Form, FormItem } from '../types';
+import { ItemType } from '../types';
+
+/** The subset of JSON Schema that Gemini and OpenAI-compatible servers both accept. */
+export interface JsonSchema {
+    type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    enum?: string[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    anyOf?: JsonSchema[];
+    minimum?: number;
+    additionalProperties?: boolean;
+}
+
+// Mapped over `FormItem` so adding a field to the model without describing it here is a type error.
+const ITEM_PROPERTIES: { [K in keyof Required<FormItem>]: JsonSchema } = {
+    title: { type: 'string', description: 'Question text, or the heading of a passage.' },
+    description: { type: 'string', description: "Passage text for 'SECTION_HEADER' items; instructions for a 'PAGE_BREAK'." },
+    type: { type: 'string', enum: Object.values(ItemType) },
+    options: {
+        type: 'array',
+        items: { type: 'string' },
+        description: "Answer choices for 'MULTIPLE_CHOICE', 'CHECKBOXES' and 'DROPDOWN'; the columns of a grid.",
+    },
+    rows: { type: 'array', items: { type: 'string' }, description: "Only for 'MULTIPLE_CHOICE_GRID' and 'CHECKBOX_GRID'." },
+    points: { type: 'number', minimum: 0, description: 'Points for gradable questions.' },
+    correctAnswer: {
+        anyOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }],
+        description: "Must exactly match an option. An array only for 'CHECKBOXES'.",
+    },
+    required: { type: 'boolean' },
+    feedback: {
+        type: 'object',
+        description: 'A short explanation of the answer, grounded in the source text.',
+        properties: {
+            correct: { type: 'string', description: 'Choice questions: shown when the answer is right.' },
+            incorrect: { type: 'string', description: 'Choice questions: shown when the answer is wrong. Explain the right answer.' },
+            general: { type: 'string', description: "Only for 'SHORT_ANSWER' and 'PARAGRAPH': shown whatever the answer." },
+            links: {
+                type: 'array',
+                items: { type: 'object', properties: { url: { type: 'string' }, label: { type: 'string' } }, required: ['url'], additionalProperties: false },
+            },
+        },
+        additionalProperties: false,
+    },
+    validation: {
+        type: 'object',
+        description: "Only for 'SHORT_ANSWER': a rule every response must follow.",
+        properties: {
+            kind: { type: 'string', enum: ['NUMBER', 'INTEGER', 'LENGTH', 'PATTERN', 'EMAIL', 'URL'] },
+            min: { type: 'number', description: "'NUMBER': the smallest value. 'LENGTH': the fewest characters." },
+            max: { type: 'number', description: "'NUMBER': the largest value. 'LENGTH': the most characters." },
+            pattern: { type: 'string', description: "Only for 'PATTERN': a regular expression the whole response must match." },
+            message: { type: 'string', description: 'Shown to respondents whose response breaks the rule.' },
+        },
+        required: ['kind'],
+        additionalProperties: false,
+    },
+    low: { type: 'integer', minimum: 0, description: "Lowest value of a 'LINEAR_SCALE': 0 or 1." },
+    high: { type: 'integer', minimum: 2, description: "Highest value of a 'LINEAR_SCALE' (2 to 10), or the number of icons of a 'RATING' (3 to 10)." },
+    lowLabel: { type: 'string', description: "Label for the low end of a 'LINEAR_SCALE'." },
+    highLabel: { type: 'string', description: "Label for the high end of a 'LINEAR_SCALE'." },
+    ratingIcon: { type: 'string', enum: ['STAR', 'HEART', 'THUMB_UP'], description: "Only for 'RATING'." },
+    includeTime: { type: 'boolean', description: "Only for 'DATE': also ask for a time." },
+    duration: { type: 'boolean', description: "Only for 'TIME': ask for an elapsed time instead of a time of day." },
+    pageId: { type: 'string', description: "Only for 'PAGE_BREAK': a short name that branches refer to." },
+    branches: {
+        type: 'array',
+        description: "Only for 'MULTIPLE_CHOICE' and 'DROPDOWN': the page to continue on after an option.",
+        items: {
+            type: 'object',
+            properties: {
+                option: { type: 'string', description: 'Must exactly match an option.' },
+                goTo: { type: 'string', description: "The pageId of a 'PAGE_BREAK', or 'SUBMIT' to end the form." },
+            },
+            required: ['option', 'goTo'],
+            additionalProperties: false,
+        },
+    },
+    image: { type: 'string', description: "The label of a picture marked in the text, e.g. 'Image 2'." },
+    optionImages: {
+        type: 'array',
+        description: "Only for 'MULTIPLE_CHOICE' and 'CHECKBOXES': the pictures shown with options.",
+        items: {
+            type: 'object',
+            properties: {
+                option: { type: 'string', description: 'Must exactly match an option.' },
+                image: { type: 'string', description: "The label of a picture marked in the text, e.g. 'Image 3'." },
+            },
+            required: ['option', 'image'],
+            additionalProperties: false,
+        },
+    },
+};
+
+const FORM_PROPERTIES: { [K in keyof Form]: JsonSchema } = {
+    title: { type: 'string' },
+    description: { type: 'string' },
+    items: {
+        type: 'array',
+        items: { type: 'object', properties: ITEM_PROPERTIES, required: ['title', 'type'], additionalProperties: false },
+    },
+};
+
+/** JSON Schema for a generated `Form`, passed to providers that support constrained output. */
+export const FORM_RESPONSE_SCHEMA: JsonSchema = {
+    type: 'object',
+    properties: FORM_PROPERTIES,
+    required: ['title', 'description', 'items'],
+    additionalProperties: false,
+};
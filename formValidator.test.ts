@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { ItemType } from '../types';
+import { validateForm } from './formValidator';
+
+describe('validateForm', () => {
+    it('keeps the points of a paragraph question, which is marked by hand', () => {
+        const { form, diagnostics } = validateForm({
+            title: 'Essay',
+            items: [{ title: 'Why do the Alps matter?', type: 'PARAGRAPH', points: 5, required: true }],
+        });
+
+        expect(form.items).toEqual([{ title: 'Why do the Alps matter?', type: ItemType.PARAGRAPH, points: 5, required: true }]);
+        expect(diagnostics).toEqual([]);
+    });
+
+    it('removes a correct answer from a paragraph question but keeps its points', () => {
+        const { form, diagnostics } = validateForm({
+            title: 'Essay',
+            items: [{ title: 'Why do the Alps matter?', type: 'PARAGRAPH', points: '5', correctAnswer: 'Water' }],
+        });
+
+        expect(form.items[0]).toEqual({ title: 'Why do the Alps matter?', type: ItemType.PARAGRAPH, points: 5 });
+        expect(diagnostics.map(d => [d.field, d.message])).toEqual([
+            ['correctAnswer', 'Removed a correct answer, which PARAGRAPH items cannot be graded on.'],
+            ['points', 'Converted points "5" to a number.'],
+        ]);
+    });
+});
@@ -0,0 +1,702 @@
+import type {
+    FeedbackLink, Form, FormImage, FormItem, ItemFeedback, OptionBranch, OptionImage, RatingIcon, ResponseValidation, ResponseValidationKind,
+} from '../types';
+import { ItemType, SUBMIT_FORM } from '../types';
+import { findSourceImage, isImageSource } from './formImages';
+import type { SourceImage } from './formImages';
+
+export type DiagnosticSeverity = 'repaired' | 'warning' | 'error';
+
+export interface FormDiagnostic {
+    /** Index into `form.items`, or `null` for form-level problems. */
+    itemIndex: number | null;
+    field?: string;
+    severity: DiagnosticSeverity;
+    message: string;
+}
+
+export interface ValidationResult {
+    form: Form;
+    diagnostics: FormDiagnostic[];
+}
+
+const CHOICE_TYPES = [ItemType.MULTIPLE_CHOICE, ItemType.CHECKBOXES, ItemType.DROPDOWN];
+const ANSWERED_TYPES = [...CHOICE_TYPES, ItemType.SHORT_ANSWER];
+// Paragraph answers are marked by hand, so they are worth points but have no correct answer.
+const GRADABLE_TYPES = [...ANSWERED_TYPES, ItemType.PARAGRAPH];
+const GRID_TYPES = [ItemType.MULTIPLE_CHOICE_GRID, ItemType.CHECKBOX_GRID];
+const SURVEY_TYPES = [ItemType.LINEAR_SCALE, ...GRID_TYPES, ItemType.DATE, ItemType.TIME, ItemType.RATING];
+const RATING_ICONS: RatingIcon[] = ['STAR', 'HEART', 'THUMB_UP'];
+const VALIDATION_KINDS: ResponseValidationKind[] = ['NUMBER', 'INTEGER', 'LENGTH', 'PATTERN', 'EMAIL', 'URL'];
+
+// Settings that only some types use, by type.
+const TYPE_SETTINGS: Partial<Record<ItemType, (keyof FormItem)[]>> = {
+    [ItemType.SHORT_ANSWER]: ['validation'],
+    [ItemType.LINEAR_SCALE]: ['low', 'high', 'lowLabel', 'highLabel'],
+    [ItemType.MULTIPLE_CHOICE_GRID]: ['rows'],
+    [ItemType.CHECKBOX_GRID]: ['rows'],
+    [ItemType.DATE]: ['includeTime'],
+    [ItemType.TIME]: ['duration'],
+    [ItemType.RATING]: ['high', 'ratingIcon'],
+    [ItemType.PAGE_BREAK]: ['pageId'],
+    [ItemType.MULTIPLE_CHOICE]: ['branches', 'optionImages'],
+    [ItemType.CHECKBOXES]: ['optionImages'],
+    [ItemType.DROPDOWN]: ['branches'],
+};
+const SETTING_KEYS = [...new Set(Object.values(TYPE_SETTINGS).flat())] as (keyof FormItem)[];
+const ITEM_KEYS: (keyof FormItem)[] = ['title', 'description', 'type', 'options', 'points', 'correctAnswer', 'required', 'feedback', 'image', ...SETTING_KEYS];
+
+// Spellings models commonly produce for our types, keyed by their normalized form.
+const TYPE_ALIASES: Record<string, ItemType> = {
+    TEXT: ItemType.SHORT_ANSWER,
+    SHORT_TEXT: ItemType.SHORT_ANSWER,
+    LONG_ANSWER: ItemType.PARAGRAPH,
+    PARAGRAPH_TEXT: ItemType.PARAGRAPH,
+    RADIO: ItemType.MULTIPLE_CHOICE,
+    CHECKBOX: ItemType.CHECKBOXES,
+    DROP_DOWN: ItemType.DROPDOWN,
+    LIST: ItemType.DROPDOWN,
+    SECTION: ItemType.SECTION_HEADER,
+    TEXT_ITEM: ItemType.SECTION_HEADER,
+    PASSAGE: ItemType.SECTION_HEADER,
+    SCALE: ItemType.LINEAR_SCALE,
+    LIKERT: ItemType.LINEAR_SCALE,
+    LIKERT_SCALE: ItemType.LINEAR_SCALE,
+    GRID: ItemType.MULTIPLE_CHOICE_GRID,
+    MATRIX: ItemType.MULTIPLE_CHOICE_GRID,
+    RADIO_GRID: ItemType.MULTIPLE_CHOICE_GRID,
+    CHECKBOXES_GRID: ItemType.CHECKBOX_GRID,
+    CHECKBOX_MATRIX: ItemType.CHECKBOX_GRID,
+    STAR_RATING: ItemType.RATING,
+    STARS: ItemType.RATING,
+    PAGE: ItemType.PAGE_BREAK,
+    NEW_PAGE: ItemType.PAGE_BREAK,
+    SECTION_BREAK: ItemType.PAGE_BREAK,
+};
+
+// The same for response validation kinds.
+const VALIDATION_ALIASES: Record<string, ResponseValidationKind> = {
+    NUMBER_RANGE: 'NUMBER',
+    NUMERIC: 'NUMBER',
+    RANGE: 'NUMBER',
+    WHOLE_NUMBER: 'INTEGER',
+    INT: 'INTEGER',
+    TEXT_LENGTH: 'LENGTH',
+    CHARACTER_COUNT: 'LENGTH',
+    REGEX: 'PATTERN',
+    REGEXP: 'PATTERN',
+    EMAIL_ADDRESS: 'EMAIL',
+    LINK: 'URL',
+    WEB_ADDRESS: 'URL',
+};
+
+export const isChoiceType = (type: ItemType) => CHOICE_TYPES.includes(type);
+export const isGradableType = (type: ItemType) => GRADABLE_TYPES.includes(type);
+/** Gradable types whose answer can be checked against a correct answer. */
+export const isAnsweredType = (type: ItemType) => ANSWERED_TYPES.includes(type);
+export const isGridType = (type: ItemType) => GRID_TYPES.includes(type);
+/** Types for collecting opinions and facts rather than testing; quiz formats have no equivalent. */
+export const isSurveyType = (type: ItemType) => SURVEY_TYPES.includes(type);
+
+/** Section headers and page breaks structure the form; every other type is a question. */
+export const isQuestionType = (type: ItemType) => type !== ItemType.SECTION_HEADER && type !== ItemType.PAGE_BREAK;
+/** Types whose options can send the respondent to another page, as Google Forms allows. */
+export const isBranchingType = (type: ItemType) => type === ItemType.MULTIPLE_CHOICE || type === ItemType.DROPDOWN;
+/** Types whose options can show pictures, as Google Forms allows. */
+export const isOptionImageType = (type: ItemType) => type === ItemType.MULTIPLE_CHOICE || type === ItemType.CHECKBOXES;
+
+// Google Forms item IDs are eight hex digits; page IDs double as them so branches can be published.
+const PAGE_ID_PATTERN = /^[0-9a-f]{8}$/;
+
+export const newPageId = () =>
+    Array.from({ length: 8 }, () => Math.floor(Math.random() * 16).toString(16)).join('');
+
+/**
+ * How a type's feedback is shown: choice questions by whether the answer was right ('result'),
+ * text questions the same to everyone ('general'). Other types have none.
+ */
+export const feedbackKind = (type: ItemType): 'result' | 'general' | null =>
+    isChoiceType(type) ? 'result' : type === ItemType.SHORT_ANSWER || type === ItemType.PARAGRAPH ? 'general' : null;
+
+/** The values a LINEAR_SCALE or RATING item offers, with the defaults Google Forms uses. */
+export const scaleBounds = (item: FormItem) => ({
+    low: item.type === ItemType.RATING ? 1 : item.low ?? 1,
+    high: item.high ?? 5,
+});
+
+/** Whether a response passes the rule, checked the way Google Forms checks it. */
+export const passesValidation = (validation: ResponseValidation, response: string): boolean => {
+    const text = response.trim();
+    switch (validation.kind) {
+        case 'NUMBER': {
+            const value = Number(text);
+            return text !== '' && Number.isFinite(value) && value >= (validation.min ?? -Infinity) && value <= (validation.max ?? Infinity);
+        }
+        case 'INTEGER':
+            return /^[-+]?\d+$/.test(text);
+        case 'LENGTH':
+            return response.length >= (validation.min ?? 0) && response.length <= (validation.max ?? Infinity);
+        case 'PATTERN':
+            // Google Forms' "matches" needs the whole response to match.
+            try {
+                return new RegExp(`^(?:${validation.pattern ?? ''})$`).test(response);
+            } catch {
+                return true;
+            }
+        case 'EMAIL':
+            return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(text);
+        case 'URL':
+            return /^(https?:\/\/)?[^\s/.]+(\.[^\s/.]+)+(\/\S*)?$/i.test(text);
+    }
+};
+
+const normalizeText = (value: string) => value.replace(/\s+/g, ' ').trim();
+const matchKey = (value: string) => normalizeText(value).toLowerCase();
+
+const normalizeType = (value: unknown): ItemType | null => {
+    if (typeof value !== 'string') return null;
+    const key = value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+    if ((Object.values(ItemType) as string[]).includes(key)) return key as ItemType;
+    return TYPE_ALIASES[key] ?? null;
+};
+
+const isWebUrl = (value: string) => {
+    try {
+        return ['http:', 'https:'].includes(new URL(value).protocol);
+    } catch {
+        return false;
+    }
+};
+
+type Report = (severity: DiagnosticSeverity, field: string | undefined, message: string) => void;
+
+const validateFeedback = (raw: unknown, type: ItemType, report: Report): ItemFeedback | undefined => {
+    const kind = feedbackKind(type);
+    if (kind === null) {
+        report('repaired', 'feedback', `Removed feedback, which ${type} items cannot show.`);
+        return undefined;
+    }
+    // A bare string is the explanation models most often give instead of the object.
+    const source = (typeof raw === 'string' ? { [kind === 'result' ? 'incorrect' : 'general']: raw } : raw) as Record<string, unknown>;
+    if (typeof raw === 'string') {
+        report('repaired', 'feedback', `Used the feedback text as the ${kind === 'result' ? 'incorrect-answer' : 'general'} feedback.`);
+    } else if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        report('repaired', 'feedback', 'Removed feedback that was not an object.');
+        return undefined;
+    }
+
+    const text = (key: keyof ItemFeedback) => (typeof source[key] === 'string' ? (source[key] as string).trim() : '');
+    const feedback: ItemFeedback = {};
+    if (kind === 'result') {
+        if (text('correct')) feedback.correct = text('correct');
+        if (text('incorrect') || text('general')) feedback.incorrect = text('incorrect') || text('general');
+        if (text('general')) {
+            report('repaired', 'feedback', text('incorrect')
+                ? 'Removed general feedback; choice questions show feedback by whether the answer was right.'
+                : 'Used the general feedback as the incorrect-answer feedback.');
+        }
+    } else {
+        const kept = (['general', 'incorrect', 'correct'] as const).find(key => text(key));
+        if (kept) feedback.general = text(kept);
+        if (text('correct') || text('incorrect')) {
+            const name = kept === 'general' ? 'general' : `${kept}-answer`;
+            report('repaired', 'feedback', `${type} questions show the same feedback whatever the answer; kept the ${name} feedback.`);
+        }
+    }
+
+    if (source.links !== undefined) {
+        const links: FeedbackLink[] = [];
+        for (const link of Array.isArray(source.links) ? source.links : [source.links]) {
+            const entry = (typeof link === 'string' ? { url: link } : link) as Record<string, unknown> | null;
+            const url = typeof entry?.url === 'string' ? entry.url.trim() : '';
+            if (!isWebUrl(url)) {
+                report('warning', 'feedback', `Removed feedback link ${JSON.stringify(url || link)}, which is not a web address.`);
+                continue;
+            }
+            const label = typeof entry?.label === 'string' ? normalizeText(entry.label) : '';
+            links.push(label ? { url, label } : { url });
+        }
+        if (links.length > 0) feedback.links = links;
+    }
+
+    return Object.keys(feedback).length > 0 ? feedback : undefined;
+};
+
+/** Branches with their options matched; targets are resolved later, once every page is known. */
+const readBranches = (raw: unknown, options: string[], report: Report): OptionBranch[] => {
+    if (!Array.isArray(raw)) {
+        report('error', 'branches', 'Branches must be a list of { option, goTo } objects.');
+        return [];
+    }
+    const branches: OptionBranch[] = [];
+    for (const entry of raw) {
+        const source = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+        const text = typeof source.option === 'string' || typeof source.option === 'number' ? normalizeText(String(source.option)) : '';
+        const goTo = typeof source.goTo === 'string' || typeof source.goTo === 'number' ? String(source.goTo).trim() : '';
+        const option = options.find(o => matchKey(o) === matchKey(text));
+        if (!option) {
+            report('error', 'branches', `Removed a branch for ${JSON.stringify(text || entry)}, which is not one of the options.`);
+        } else if (!goTo) {
+            report('error', 'branches', `Removed the branch for "${option}", which does not say where to go.`);
+        } else if (branches.some(b => b.option === option)) {
+            report('repaired', 'branches', `Removed a second branch for "${option}".`);
+        } else {
+            branches.push({ option, goTo });
+        }
+    }
+    return branches;
+};
+
+/**
+ * A picture given as `{ src, alt }` or as a bare string: either an address or data URL, or the
+ * label of one of the document's pictures, such as "Image 2".
+ */
+const readImage = (raw: unknown, images: SourceImage[], field: string, report: Report): FormImage | undefined => {
+    const source = (typeof raw === 'string' ? { src: raw } : raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const src = typeof source.src === 'string' ? source.src.trim() : '';
+    const alt = typeof source.alt === 'string' ? normalizeText(source.alt) : '';
+    if (src && isImageSource(src)) return alt ? { src, alt } : { src };
+    const found = src ? findSourceImage(images, src) : undefined;
+    if (!found) {
+        report('warning', field, `Removed picture ${JSON.stringify(src || raw)}, which is not one of the document's pictures.`);
+        return undefined;
+    }
+    return alt || found.alt ? { src: found.src, alt: alt || found.alt } : { src: found.src };
+};
+
+/** Option pictures with their options matched, as branches are. */
+const readOptionImages = (raw: unknown, options: string[], images: SourceImage[], report: Report): OptionImage[] => {
+    if (!Array.isArray(raw)) {
+        report('error', 'optionImages', 'Option pictures must be a list of { option, image } objects.');
+        return [];
+    }
+    const optionImages: OptionImage[] = [];
+    for (const entry of raw) {
+        const source = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+        const text = typeof source.option === 'string' || typeof source.option === 'number' ? normalizeText(String(source.option)) : '';
+        const option = options.find(o => matchKey(o) === matchKey(text));
+        if (!option) {
+            report('error', 'optionImages', `Removed a picture for ${JSON.stringify(text || entry)}, which is not one of the options.`);
+        } else if (optionImages.some(o => o.option === option)) {
+            report('repaired', 'optionImages', `Removed a second picture for "${option}".`);
+        } else {
+            const image = readImage(source.image, images, 'optionImages', report);
+            if (image) optionImages.push({ option, image });
+        }
+    }
+    return optionImages;
+};
+
+const readValidation = (raw: unknown, report: Report): ResponseValidation | undefined => {
+    // A bare kind, e.g. "EMAIL", is a rule without settings.
+    const source = (typeof raw === 'string' ? { kind: raw } : raw) as Record<string, unknown> | null;
+    if (!source || typeof source !== 'object' || Array.isArray(source)) {
+        report('warning', 'validation', 'Removed response validation that was not an object.');
+        return undefined;
+    }
+    const key = typeof source.kind === 'string' ? source.kind.trim().toUpperCase().replace(/[\s-]+/g, '_') : '';
+    const kind = VALIDATION_KINDS.find(k => k === key) ?? VALIDATION_ALIASES[key];
+    if (!kind) {
+        report('warning', 'validation', `Removed response validation of unknown kind ${JSON.stringify(source.kind)}.`);
+        return undefined;
+    }
+    if (kind !== source.kind) {
+        report('repaired', 'validation', `Normalized validation kind ${JSON.stringify(source.kind)} to ${kind}.`);
+    }
+    const validation: ResponseValidation = { kind };
+
+    const hasBounds = kind === 'NUMBER' || kind === 'LENGTH';
+    for (const bound of ['min', 'max'] as const) {
+        const value = source[bound];
+        if (value === undefined || value === null || value === '') continue;
+        const number = typeof value === 'string' ? Number(value.trim()) : value;
+        if (!hasBounds) {
+            report('repaired', 'validation', `Removed "${bound}", which ${kind} rules do not use.`);
+        } else if (typeof number !== 'number' || !Number.isFinite(number) || (kind === 'LENGTH' && (number < 0 || !Number.isInteger(number)))) {
+            report('warning', 'validation', `Removed invalid ${bound} ${JSON.stringify(value)}.`);
+        } else {
+            validation[bound] = number;
+        }
+    }
+    if (validation.min !== undefined && validation.max !== undefined && validation.min > validation.max) {
+        [validation.min, validation.max] = [validation.max, validation.min];
+        report('repaired', 'validation', 'Swapped min and max, which were the wrong way round.');
+    }
+    if (kind === 'LENGTH' && validation.min === undefined && validation.max === undefined) {
+        report('warning', 'validation', 'Removed a LENGTH rule with neither a min nor a max.');
+        return undefined;
+    }
+
+    if (kind === 'PATTERN') {
+        let pattern = typeof source.pattern === 'string' ? source.pattern.trim() : '';
+        // Models often write a regex literal; its flags can't be kept.
+        const literal = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+        if (literal) {
+            pattern = literal[1];
+            report('repaired', 'validation', literal[2] ? `Removed the slashes and the "${literal[2]}" ${literal[2].length === 1 ? 'flag' : 'flags'} around the pattern.` : 'Removed the slashes around the pattern.');
+        }
+        if (!pattern) {
+            report('warning', 'validation', 'Removed a PATTERN rule with no pattern.');
+            return undefined;
+        }
+        try {
+            new RegExp(pattern);
+        } catch {
+            report('warning', 'validation', `Removed the invalid pattern ${JSON.stringify(pattern)}.`);
+            return undefined;
+        }
+        validation.pattern = pattern;
+    } else if (source.pattern !== undefined) {
+        report('repaired', 'validation', `Removed "pattern", which ${kind} rules do not use.`);
+    }
+
+    if (typeof source.message === 'string' && source.message.trim()) validation.message = normalizeText(source.message);
+    return validation;
+};
+
+/**
+ * Gives every page break a unique ID in the Google Forms format and points each branch at one.
+ * Branches may name a page by its original ID or by its title, which is what models write.
+ */
+const resolvePages = (items: FormItem[], diagnostics: FormDiagnostic[]) => {
+    const aliases = new Map<string, string>();
+    const ids = new Set<string>();
+    items.forEach(item => {
+        if (item.type !== ItemType.PAGE_BREAK) return;
+        const original = item.pageId;
+        if (!original || !PAGE_ID_PATTERN.test(original) || ids.has(original)) {
+            do item.pageId = newPageId(); while (ids.has(item.pageId));
+        }
+        ids.add(item.pageId!);
+        if (original && !aliases.has(matchKey(original))) aliases.set(matchKey(original), item.pageId!);
+        if (item.title && !aliases.has(matchKey(item.title))) aliases.set(matchKey(item.title), item.pageId!);
+    });
+
+    items.forEach((item, index) => {
+        if (!item.branches) return;
+        item.branches = item.branches.flatMap(branch => {
+            const key = matchKey(branch.goTo);
+            if (ids.has(branch.goTo) || branch.goTo === SUBMIT_FORM) return [branch];
+            if (key === 'submit' || key === 'submit form' || key === 'submit_form' || key === 'end') return [{ ...branch, goTo: SUBMIT_FORM }];
+            if (key === 'next' || key === 'next page' || key === 'next_page') {
+                diagnostics.push({ itemIndex: index, field: 'branches', severity: 'repaired', message: `Removed the branch for "${branch.option}", which went to the next page anyway.` });
+                return [];
+            }
+            const target = aliases.get(key);
+            if (target) return [{ ...branch, goTo: target }];
+            diagnostics.push({ itemIndex: index, field: 'branches', severity: 'error', message: `Removed the branch for "${branch.option}": there is no page ${JSON.stringify(branch.goTo)}.` });
+            return [];
+        });
+        if (item.branches.length === 0) delete item.branches;
+    });
+};
+
+const validateItem = (raw: unknown, index: number, diagnostics: FormDiagnostic[], images: SourceImage[]): FormItem => {
+    const report: Report = (severity, field, message) => diagnostics.push({ itemIndex: index, field, severity, message });
+
+    const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    if (source !== raw) {
+        report('error', undefined, 'Item is not an object and was replaced with an empty question.');
+    }
+
+    for (const key of Object.keys(source)) {
+        if (!ITEM_KEYS.includes(key as keyof FormItem)) {
+            report('repaired', key, `Removed unsupported key "${key}".`);
+        }
+    }
+
+    // Type
+    let type = normalizeType(source.type);
+    if (type === null) {
+        const options = Array.isArray(source.options) && source.options.length > 0;
+        type = options ? ItemType.MULTIPLE_CHOICE : ItemType.SHORT_ANSWER;
+        report('error', 'type', `Unknown item type ${JSON.stringify(source.type)}; treated as ${type}.`);
+    } else if (type !== source.type) {
+        report('repaired', 'type', `Normalized type ${JSON.stringify(source.type)} to ${type}.`);
+    }
+
+    const item: FormItem = { title: '', type };
+
+    // Title and description
+    if (typeof source.title === 'string' || typeof source.title === 'number') {
+        item.title = normalizeText(String(source.title));
+    }
+    if (!item.title) {
+        report(isQuestionType(type) ? 'error' : 'warning', 'title', 'Item has no title.');
+    }
+    if (typeof source.description === 'string' && source.description.trim()) {
+        item.description = source.description.trim();
+    } else if (source.description !== undefined && source.description !== '') {
+        report('repaired', 'description', 'Removed a description that was not text.');
+    }
+    if (type === ItemType.SECTION_HEADER && !item.description) {
+        report('warning', 'description', 'Section header has no passage text.');
+    }
+
+    // Options, and the rows of a grid
+    const cleanList = (field: 'options' | 'rows', noun: string, minimum: 1 | 2): string[] => {
+        const raw = source[field];
+        if (raw !== undefined && !Array.isArray(raw)) {
+            report('error', field, `The ${noun}s must be a list.`);
+        }
+        const values: string[] = [];
+        let invalidCount = 0;
+        for (const value of Array.isArray(raw) ? raw : []) {
+            const text = typeof value === 'string' || typeof value === 'number' ? normalizeText(String(value)) : '';
+            if (!text) {
+                invalidCount++;
+            } else if (values.some(existing => matchKey(existing) === matchKey(text))) {
+                report('repaired', field, `Removed duplicate ${noun} "${text}".`);
+            } else {
+                values.push(text);
+            }
+        }
+        if (invalidCount > 0) {
+            report('repaired', field, `Removed ${invalidCount} empty or invalid ${noun}(s).`);
+        }
+        if (values.length < minimum) {
+            report('error', field, `A ${type} question needs at least ${minimum === 1 ? `one ${noun}` : `two ${noun}s`}.`);
+        }
+        return values;
+    };
+    if (isChoiceType(type)) {
+        item.options = cleanList('options', 'option', 2);
+    } else if (isGridType(type)) {
+        item.options = cleanList('options', 'column', 1);
+    } else if (source.options !== undefined) {
+        report('repaired', 'options', `Removed options, which ${type} items do not use.`);
+    }
+
+    // Correct answer
+    const rawAnswer = source.correctAnswer;
+    const hasRawAnswer = rawAnswer !== undefined && rawAnswer !== null && rawAnswer !== '' &&
+        !(Array.isArray(rawAnswer) && rawAnswer.length === 0);
+    if (hasRawAnswer && !isAnsweredType(type)) {
+        report('repaired', 'correctAnswer', `Removed a correct answer, which ${type} items cannot be graded on.`);
+    } else if (hasRawAnswer) {
+        let answers = (Array.isArray(rawAnswer) ? rawAnswer : [rawAnswer])
+            .filter(a => typeof a === 'string' || typeof a === 'number')
+            .map(a => normalizeText(String(a)))
+            .filter(Boolean);
+
+        if (item.options) {
+            const options = item.options;
+            // A single comma-separated string is a common way for models to give several checkbox answers.
+            if (type === ItemType.CHECKBOXES && !Array.isArray(rawAnswer) && answers.length === 1) {
+                const parts = answers[0].split(/\s*[,;]\s*/);
+                const matchesWhole = options.some(o => matchKey(o) === matchKey(answers[0]));
+                if (!matchesWhole && parts.length > 1 && parts.every(p => options.some(o => matchKey(o) === matchKey(p)))) {
+                    answers = parts;
+                }
+            }
+            answers = answers.map(answer => {
+                const option = options.find(o => matchKey(o) === matchKey(answer));
+                if (!option) {
+                    report('error', 'correctAnswer', `Correct answer "${answer}" is not one of the options.`);
+                    return answer;
+                }
+                if (option !== answer) {
+                    report('repaired', 'correctAnswer', `Matched answer "${answer}" to option "${option}".`);
+                }
+                return option;
+            });
+            answers = answers.filter((a, i) => answers.indexOf(a) === i);
+        }
+
+        if (type === ItemType.CHECKBOXES) {
+            if (!Array.isArray(rawAnswer)) {
+                report('repaired', 'correctAnswer', 'Wrapped the correct answer in a list for a CHECKBOXES question.');
+            }
+            item.correctAnswer = answers;
+        } else if (answers.length > 0) {
+            if (Array.isArray(rawAnswer)) {
+                if (answers.length > 1) {
+                    report('error', 'correctAnswer', `A ${type} question can only have one correct answer; kept "${answers[0]}".`);
+                } else {
+                    report('repaired', 'correctAnswer', 'Unwrapped a single correct answer from a list.');
+                }
+            }
+            item.correctAnswer = answers[0];
+        }
+        if (answers.length === 0) {
+            report('error', 'correctAnswer', 'Correct answer is not valid text.');
+            delete item.correctAnswer;
+        }
+    }
+
+    // Points
+    if (source.points !== undefined && source.points !== null) {
+        const points = typeof source.points === 'string' ? Number(source.points.trim()) : source.points;
+        if (!isGradableType(type)) {
+            report('repaired', 'points', `Removed points, which ${type} items cannot be graded on.`);
+        } else if (typeof points !== 'number' || !Number.isFinite(points) || points < 0) {
+            report('warning', 'points', `Removed invalid points value ${JSON.stringify(source.points)}.`);
+        } else {
+            if (points !== source.points) {
+                report('repaired', 'points', `Converted points ${JSON.stringify(source.points)} to a number.`);
+            }
+            if (points > 0) item.points = points;
+        }
+    }
+    if (isChoiceType(type) && item.points && item.correctAnswer === undefined) {
+        report('warning', 'correctAnswer', 'Question is worth points but has no correct answer.');
+    }
+    if (item.correctAnswer !== undefined && !item.points) {
+        report('warning', 'points', 'Question has a correct answer but no points, so it will not be graded.');
+    }
+
+    // Feedback
+    if (source.feedback !== undefined && source.feedback !== null && source.feedback !== '') {
+        const feedback = validateFeedback(source.feedback, type, report);
+        if (feedback) item.feedback = feedback;
+    }
+
+    // Type-specific settings
+    const settings = TYPE_SETTINGS[type] ?? [];
+    for (const key of SETTING_KEYS) {
+        if (source[key] !== undefined && !settings.includes(key)) {
+            report('repaired', key, `Removed "${key}", which ${type} items do not use.`);
+        }
+    }
+    const readBoolean = (key: 'includeTime' | 'duration') => {
+        if (source[key] === undefined) return;
+        if (typeof source[key] !== 'boolean') {
+            report('repaired', key, `Converted ${key} ${JSON.stringify(source[key])} to a boolean.`);
+        }
+        if (source[key] === true || source[key] === 'true') item[key] = true;
+    };
+    const readInteger = (key: 'low' | 'high', min: number, max: number) => {
+        if (source[key] === undefined || source[key] === null) return;
+        const value = typeof source[key] === 'string' ? Number((source[key] as string).trim()) : source[key];
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            report('warning', key, `Removed invalid ${key} value ${JSON.stringify(source[key])}.`);
+            return;
+        }
+        const clamped = Math.min(max, Math.max(min, Math.round(value)));
+        if (clamped !== value) {
+            report('repaired', key, `Changed ${key} ${JSON.stringify(source[key])} to ${clamped}, the nearest allowed value.`);
+        } else if (value !== source[key]) {
+            report('repaired', key, `Converted ${key} ${JSON.stringify(source[key])} to a number.`);
+        }
+        item[key] = clamped;
+    };
+    const readLabel = (key: 'lowLabel' | 'highLabel') => {
+        if (typeof source[key] === 'string' && source[key].trim()) {
+            item[key] = normalizeText(source[key] as string);
+        } else if (source[key] !== undefined && source[key] !== '') {
+            report('repaired', key, `Removed a ${key} that was not text.`);
+        }
+    };
+
+    if (isGridType(type)) {
+        item.rows = cleanList('rows', 'row', 1);
+    } else if (type === ItemType.LINEAR_SCALE) {
+        readInteger('low', 0, 1);
+        readInteger('high', 2, 10);
+        readLabel('lowLabel');
+        readLabel('highLabel');
+    } else if (type === ItemType.RATING) {
+        readInteger('high', 3, 10);
+        if (source.ratingIcon !== undefined) {
+            const icon = typeof source.ratingIcon === 'string' ? source.ratingIcon.trim().toUpperCase().replace(/[\s-]+/g, '_') : '';
+            const match = RATING_ICONS.find(i => i === icon || `${i}S` === icon);
+            if (match) {
+                if (match !== source.ratingIcon) report('repaired', 'ratingIcon', `Normalized rating icon ${JSON.stringify(source.ratingIcon)} to ${match}.`);
+                item.ratingIcon = match;
+            } else {
+                report('warning', 'ratingIcon', `Unknown rating icon ${JSON.stringify(source.ratingIcon)}; stars will be used.`);
+            }
+        }
+    } else if (type === ItemType.PAGE_BREAK) {
+        // Checked and made unique across the form in `resolvePages`.
+        if (typeof source.pageId === 'string' || typeof source.pageId === 'number') item.pageId = String(source.pageId).trim();
+    } else if (isBranchingType(type) && source.branches !== undefined) {
+        const branches = readBranches(source.branches, item.options || [], report);
+        if (branches.length > 0) item.branches = branches;
+    } else if (type === ItemType.SHORT_ANSWER && source.validation !== undefined && source.validation !== null) {
+        const validation = readValidation(source.validation, report);
+        if (validation) item.validation = validation;
+        if (validation && typeof item.correctAnswer === 'string' && !passesValidation(validation, item.correctAnswer)) {
+            report('warning', 'validation', `The correct answer "${item.correctAnswer}" does not pass the response validation.`);
+        }
+    } else if (type === ItemType.DATE) {
+        readBoolean('includeTime');
+    } else if (type === ItemType.TIME) {
+        readBoolean('duration');
+    }
+    if (settings.includes('optionImages') && source.optionImages !== undefined && source.optionImages !== null) {
+        const optionImages = readOptionImages(source.optionImages, item.options || [], images, report);
+        if (optionImages.length > 0) item.optionImages = optionImages;
+    }
+
+    // Picture
+    if (source.image !== undefined && source.image !== null && source.image !== '') {
+        if (type === ItemType.PAGE_BREAK) {
+            report('repaired', 'image', 'Removed a picture from a PAGE_BREAK; put it on a section header instead.');
+        } else {
+            const image = readImage(source.image, images, 'image', report);
+            if (image) item.image = image;
+        }
+    }
+
+    // Required
+    if (source.required !== undefined) {
+        const required = source.required === true || source.required === 'true';
+        if (!isQuestionType(type)) {
+            report('repaired', 'required', `Removed "required" from a ${type} item.`);
+        } else {
+            if (typeof source.required !== 'boolean') {
+                report('repaired', 'required', `Converted required ${JSON.stringify(source.required)} to a boolean.`);
+            }
+            if (required) item.required = true;
+        }
+    }
+
+    return item;
+};
+
+/**
+ * Checks an untrusted value against the `Form` model, repairing what can be fixed
+ * without guessing and reporting everything else per item. Pictures may be given by the label
+ * of one of `images`, the pictures of the document the form was generated from.
+ */
+export const validateForm = (raw: unknown, images: SourceImage[] = []): ValidationResult => {
+    const diagnostics: FormDiagnostic[] = [];
+    const source = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+    const title = typeof source.title === 'string' ? normalizeText(source.title) : '';
+    if (!title) {
+        diagnostics.push({ itemIndex: null, field: 'title', severity: 'error', message: 'Form has no title.' });
+    }
+    const description = typeof source.description === 'string' ? source.description.trim() : '';
+    if (source.description !== undefined && typeof source.description !== 'string') {
+        diagnostics.push({ itemIndex: null, field: 'description', severity: 'repaired', message: 'Removed a form description that was not text.' });
+    }
+
+    let items: FormItem[] = [];
+    if (Array.isArray(source.items)) {
+        items = source.items.map((item, index) => validateItem(item, index, diagnostics, images));
+        resolvePages(items, diagnostics);
+    } else {
+        diagnostics.push({ itemIndex: null, field: 'items', severity: 'error', message: 'Form has no list of items.' });
+    }
+    if (Array.isArray(source.items) && items.length === 0) {
+        diagnostics.push({ itemIndex: null, field: 'items', severity: 'warning', message: 'Form has no items.' });
+    }
+
+    return { form: { title, description, items }, diagnostics };
+};
+
+/** Groups diagnostics by item index so cards can look up their own. */
+export const diagnosticsByItem = (diagnostics: FormDiagnostic[]): Map<number | null, FormDiagnostic[]> => {
+    const map = new Map<number | null, FormDiagnostic[]>();
+    for (const diagnostic of diagnostics) {
+        const list = map.get(diagnostic.itemIndex) ?? [];
+        list.push(diagnostic);
+        map.set(diagnostic.itemIndex, list);
+    }
+    return map;
+};
+
+export const countBySeverity = (diagnostics: FormDiagnostic[], severity: DiagnosticSeverity) =>
+    diagnostics.filter(d => d.severity === severity).length;
@@ -0,0 +1,210 @@
+import type { Form, FormItem } from '../types';
+import { ItemType } from '../types';
+import { isNameItem } from './formMerge';
+import { isSurveyType } from './formValidator';
+import { answersOf } from './exportText';
+import { createXlsx, toCsv } from './spreadsheet';
+import type { SheetRow } from './spreadsheet';
+
+/*
+ * Spreadsheet imports for quiz game platforms. These only take choice questions, so everything
+ * else in the form is reported rather than exported, and anything shortened is reported too.
+ */
+
+export type GamePlatformId = 'kahoot' | 'quizizz' | 'blooket';
+
+/** A question as the game platforms see it; `correct` holds 1-based option numbers. */
+export interface GameQuestion {
+    /** The item's position in the form. */
+    itemIndex: number;
+    text: string;
+    multiple: boolean;
+    options: string[];
+    correct: number[];
+    timeLimit: number;
+}
+
+export interface GamePlatform {
+    id: GamePlatformId;
+    label: string;
+    fileType: 'xlsx' | 'csv';
+    maxOptions: number;
+    maxQuestionLength?: number;
+    maxAnswerLength?: number;
+    /** Time limits, in seconds, the platform's template accepts. */
+    timeLimits: number[];
+    toRows: (questions: GameQuestion[], form: Form) => SheetRow[];
+}
+
+export interface GameExportIssue {
+    itemIndex: number;
+    title: string;
+    kind: 'skipped' | 'changed';
+    message: string;
+}
+
+const pad = (values: string[], length: number): (string | null)[] =>
+    Array.from({ length }, (_, i) => values[i] ?? null);
+
+export const GAME_PLATFORMS: GamePlatform[] = [
+    {
+        id: 'kahoot',
+        label: 'Kahoot!',
+        fileType: 'xlsx',
+        maxOptions: 4,
+        maxQuestionLength: 120,
+        maxAnswerLength: 75,
+        timeLimits: [5, 10, 20, 30, 60, 90, 120, 240],
+        // Kahoot's template has its column headings on row 8 and numbers each question in column A.
+        toRows: (questions, form) => [
+            [null, form.title],
+            [], [], [], [], [], [],
+            [
+                null,
+                'Question - max 120 characters',
+                'Answer 1 - max 75 characters',
+                'Answer 2 - max 75 characters',
+                'Answer 3 - max 75 characters',
+                'Answer 4 - max 75 characters',
+                'Time limit (sec) – 5, 10, 20, 30, 60, 90, 120, or 240 secs',
+                'Correct answer(s) - choose at least one',
+            ],
+            ...questions.map((q, i) => [i + 1, q.text, ...pad(q.options, 4), q.timeLimit, q.correct.join(',')]),
+        ],
+    },
+    {
+        id: 'quizizz',
+        label: 'Quizizz',
+        fileType: 'xlsx',
+        maxOptions: 5,
+        timeLimits: [5, 10, 20, 30, 45, 60, 90, 120, 180, 300, 600, 900],
+        toRows: questions => [
+            ['Question Text', 'Question Type', 'Option 1', 'Option 2', 'Option 3', 'Option 4', 'Option 5', 'Correct Answer', 'Time in seconds', 'Image Link', 'Answer explanation'],
+            ...questions.map(q => [
+                q.text,
+                q.multiple ? 'Checkbox' : 'Multiple Choice',
+                ...pad(q.options, 5),
+                q.correct.join(','),
+                q.timeLimit,
+                null,
+                null,
+            ]),
+        ],
+    },
+    {
+        id: 'blooket',
+        label: 'Blooket',
+        fileType: 'csv',
+        maxOptions: 4,
+        timeLimits: [5, 10, 20, 30, 45, 60, 90, 120, 180, 240, 300],
+        toRows: questions => [
+            ['Blooket\nImport Template'],
+            [
+                'Question #',
+                'Question Text',
+                'Answer 1',
+                'Answer 2',
+                'Answer 3\n(Optional)',
+                'Answer 4\n(Optional)',
+                'Time Limit (sec)\n(Max: 300 seconds)',
+                'Correct Answer(s)\n(Only include Answer #)',
+            ],
+            ...questions.map((q, i) => [i + 1, q.text, ...pad(q.options, 4), q.timeLimit, q.correct.join(',')]),
+        ],
+    },
+];
+
+export const DEFAULT_TIME_LIMIT = 30;
+
+/** The accepted time limit closest to the requested one. */
+export const nearestTimeLimit = (platform: GamePlatform, seconds: number) =>
+    platform.timeLimits.reduce((best, t) => (Math.abs(t - seconds) < Math.abs(best - seconds) ? t : best));
+
+const shorten = (text: string, max?: number) =>
+    max !== undefined && text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+
+const UNSUPPORTED: Partial<Record<ItemType, string>> = {
+    [ItemType.SHORT_ANSWER]: 'Short-answer questions have no game equivalent.',
+    [ItemType.PARAGRAPH]: 'Paragraph questions have no game equivalent.',
+};
+
+/**
+ * Converts the form's questions for one platform and lists everything that was skipped or
+ * shortened along the way, so the teacher can review it before importing. Every question gets
+ * `timeLimit` unless `timeLimits` has its own, by item index.
+ */
+export const planGameQuiz = (form: Form, platform: GamePlatform, timeLimit: number, timeLimits: Record<number, number> = {}) => {
+    const questions: GameQuestion[] = [];
+    const issues: GameExportIssue[] = [];
+    let passage: GameExportIssue | null = null;
+    let passageQuestions = 0;
+
+    const closePassage = () => {
+        if (passage) {
+            passage.message = passageQuestions > 0
+                ? `${platform.label} can't show reading passages. The ${passageQuestions} question${passageQuestions === 1 ? '' : 's'} after it are exported without it, so share the passage with students separately.`
+                : `${platform.label} can't show reading passages.`;
+        }
+        passage = null;
+        passageQuestions = 0;
+    };
+
+    form.items.forEach((item: FormItem, itemIndex) => {
+        if (isNameItem(item)) return;
+        const skip = (message: string) => issues.push({ itemIndex, title: item.title, kind: 'skipped', message });
+        const change = (message: string) => issues.push({ itemIndex, title: item.title, kind: 'changed', message });
+
+        if (item.type === ItemType.SECTION_HEADER) {
+            closePassage();
+            if (item.description) {
+                passage = { itemIndex, title: item.title, kind: 'skipped', message: '' };
+                issues.push(passage);
+            }
+            return;
+        }
+        // Pages only matter to respondents filling in the form.
+        if (item.type === ItemType.PAGE_BREAK) return;
+        const unsupported = UNSUPPORTED[item.type] ?? (isSurveyType(item.type) ? 'Survey questions have no game equivalent.' : undefined);
+        if (unsupported) return skip(unsupported);
+
+        const answers = answersOf(item);
+        let options = item.options || [];
+        if (answers.length === 0) return skip('It has no correct answer marked.');
+        if (answers.length > platform.maxOptions) {
+            return skip(`It has ${answers.length} correct answers but ${platform.label} allows only ${platform.maxOptions} options.`);
+        }
+        if (options.length > platform.maxOptions) {
+            // Keep every correct answer and as many of the wrong ones as still fit, in their original order.
+            let room = platform.maxOptions - answers.length;
+            const kept = options.filter(o => answers.includes(o) || room-- > 0);
+            const dropped = options.filter(o => !kept.includes(o));
+            change(`${platform.label} allows ${platform.maxOptions} options, so these wrong options were left out: ${dropped.join(', ')}.`);
+            options = kept;
+        }
+        if (options.length < 2) return skip('It needs at least two options.');
+
+        const text = shorten(item.title, platform.maxQuestionLength);
+        if (text !== item.title) change(`The question was shortened to ${platform.maxQuestionLength} characters.`);
+        const shortOptions = options.map(o => shorten(o, platform.maxAnswerLength));
+        if (shortOptions.some((o, i) => o !== options[i])) change(`Some options were shortened to ${platform.maxAnswerLength} characters.`);
+
+        if (passage) passageQuestions++;
+        questions.push({
+            itemIndex,
+            text,
+            multiple: item.type === ItemType.CHECKBOXES,
+            options: shortOptions,
+            correct: options.map((o, i) => (answers.includes(o) ? i + 1 : 0)).filter(n => n > 0),
+            timeLimit: nearestTimeLimit(platform, timeLimits[itemIndex] ?? timeLimit),
+        });
+    });
+    closePassage();
+
+    return { questions, issues };
+};
+
+/** Builds the platform's import file. */
+export const toGameSpreadsheet = (form: Form, platform: GamePlatform, timeLimit: number, timeLimits: Record<number, number> = {}): string | Blob => {
+    const rows = platform.toRows(planGameQuiz(form, platform, timeLimit, timeLimits).questions, form);
+    return platform.fileType === 'xlsx' ? createXlsx(form.title || 'Quiz', rows) : toCsv(rows);
+};
@@ -0,0 +1,54 @@
+import { GoogleGenAI } from "@google/genai";
+import type { LlmConfig, LlmProvider, LlmRequest } from './llmProvider';
+
+/** Google Gemini through the `@google/genai` SDK. */
+export const createGeminiProvider = (config: LlmConfig): LlmProvider => {
+    let ai: GoogleGenAI | null = null;
+
+    // The client is built on first request so a missing key only matters when Gemini is actually used.
+    const getClient = () => {
+        if (!config.apiKey) {
+            throw new Error("API_KEY environment variable not set");
+        }
+        if (!ai) {
+            ai = new GoogleGenAI({ apiKey: config.apiKey });
+        }
+        return ai;
+    };
+
+    const toParams = (request: LlmRequest) => {
+        const imageParts = (request.images || []).map(image => ({
+            inlineData: { mimeType: image.mimeType, data: image.data },
+        }));
+
+        return {
+            model: request.vision ? config.visionModel : config.model,
+            contents: imageParts.length > 0
+                ? { parts: [...imageParts, { text: request.prompt }] }
+                : request.prompt,
+            config: {
+                ...(request.json ? { responseMimeType: "application/json" } : {}),
+                ...(request.schema ? { responseJsonSchema: request.schema } : {}),
+                temperature: request.temperature,
+                thinkingConfig: { thinkingBudget: 0 }, // Optimize for speed by disabling thinking
+                abortSignal: request.signal,
+            },
+        };
+    };
+
+    return {
+        name: 'gemini',
+        model: config.model,
+        supportsSchema: config.structuredOutput,
+        async generate(request: LlmRequest) {
+            const response = await getClient().models.generateContent(toParams(request));
+            return response.text ?? '';
+        },
+        async *stream(request: LlmRequest) {
+            const responses = await getClient().models.generateContentStream(toParams(request));
+            for await (const response of responses) {
+                if (response.text) yield response.text;
+            }
+        },
+    };
+};
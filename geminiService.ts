@@ -1,13 +1,42 @@
-import { GoogleGenAI } from "@google/genai";
 import type { Form } from '../types';
+import type { SourceImage } from './formImages';
+import { validateForm } from './formValidator';
+import { getProvider } from './llmProvider';
+import { FORM_RESPONSE_SCHEMA } from './formSchema';
+import { parseTolerantJson, JsonRepairError } from './tolerantJson';
+import { createFormStreamParser } from './streamingJson';
+import type { StreamedFormSnapshot } from './streamingJson';
+import type { GenerationSettings } from './workspace';
 
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
+
+/** Where a request sits within a document that is generated in several parts. */
+export interface PromptPart {
+  index: number;
+  total: number;
+  /** Passage already sent with an earlier part, repeated so its remaining questions can be answered. */
+  context?: string;
+  /** Title of the last item received before the previous response for this part was cut off. */
+  continueAfter?: string;
 }
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
+const getPartInstructions = (part?: PromptPart) => {
+  if (!part) return '';
+  const lines: string[] = [];
+  if (part.total > 1) {
+    lines.push(`**DOCUMENT PART ${part.index + 1} OF ${part.total}:** The text below is only one part of a longer document that is converted in several requests.`);
+    lines.push(`- Convert only the questions in this part. Choose a "title" and "description" that describe the whole document, not just this part.`);
+  }
+  if (part.context) {
+    lines.push(`- The following passage was already output as a SECTION_HEADER with an earlier part. Use it to answer this part's questions, but do NOT output it again:`);
+    lines.push(`"""\n${part.context}\n"""`);
+  }
+  if (part.continueAfter) {
+    lines.push(`- **CONTINUATION:** Your previous response for this text was cut off after the item titled ${JSON.stringify(part.continueAfter)}. Output the complete JSON object again, but its "items" must contain ONLY the items that come AFTER that one. Do not repeat the Name item or earlier items.`);
+  }
+  return lines.length > 0 ? `\n${lines.join('\n')}\n\n---\n` : '';
+};
 
-const getPrompt = (textContent: string) => `
+const getPrompt = (textContent: string, part?: PromptPart) => `
 You are an expert 'Quiz Architect AI'. Your single, most important mission is to convert the provided text into a perfectly structured JSON object for a Google Form that can be automatically graded. To do this, you MUST identify the correct answer for every gradable question and assign it points.
 
 **CRITICAL RULES:**
@@ -22,12 +51,26 @@ You are an expert 'Quiz Architect AI'. Your single, most important mission is to
   "items": [
     {
       "title": "string",
-      "description": "string", // ONLY for 'SECTION_HEADER'. Holds the passage text. Omit for all other types.
+      "description": "string", // ONLY for 'SECTION_HEADER' (the passage text) and 'PAGE_BREAK' (instructions for the page). Omit for all other types.
       "type": "ONE_OF_ENUM",
-      "options": ["string"], // This key MUST be omitted if 'type' is not 'MULTIPLE_CHOICE', 'CHECKBOXES', or 'DROPDOWN'.
+      "options": ["string"], // ONLY for 'MULTIPLE_CHOICE', 'CHECKBOXES', 'DROPDOWN', and the columns of the two grid types. Omit otherwise.
+      "rows": ["string"],    // ONLY for 'MULTIPLE_CHOICE_GRID' and 'CHECKBOX_GRID'.
       "points": number,      // MUST include for gradable questions. Default to 1 if not specified.
       "correctAnswer": "string" | ["string"], // MUST include for gradable questions. Use an array of strings ONLY for 'CHECKBOXES'.
-      "required": boolean    // Omit if not required.
+      "required": boolean,   // Omit if not required.
+      "feedback": { "correct": "string", "incorrect": "string", "general": "string", "links": [{ "url": "string", "label": "string" }] }, // See rule #9.
+      "validation": { "kind": "NUMBER" | "INTEGER" | "LENGTH" | "PATTERN" | "EMAIL" | "URL", "min": number, "max": number, "pattern": "string", "message": "string" }, // ONLY for 'SHORT_ANSWER'. See rule #11.
+      "low": number,         // ONLY for 'LINEAR_SCALE': 0 or 1.
+      "high": number,        // ONLY for 'LINEAR_SCALE' (2 to 10) and 'RATING' (number of icons, 3 to 10).
+      "lowLabel": "string",  // ONLY for 'LINEAR_SCALE', e.g. "Strongly disagree".
+      "highLabel": "string", // ONLY for 'LINEAR_SCALE', e.g. "Strongly agree".
+      "ratingIcon": "STAR" | "HEART" | "THUMB_UP", // ONLY for 'RATING'.
+      "includeTime": boolean, // ONLY for 'DATE'. Omit unless a time is also asked for.
+      "duration": boolean,   // ONLY for 'TIME'. true when asking how long something took.
+      "pageId": "string",    // ONLY for 'PAGE_BREAK'. A short name, e.g. "part-b".
+      "branches": [{ "option": "string", "goTo": "string" }], // ONLY for 'MULTIPLE_CHOICE' and 'DROPDOWN'. See rule #10.
+      "image": "string",     // A picture shown with the item, e.g. "Image 2". See rule #13. Any type but 'PAGE_BREAK'.
+      "optionImages": [{ "option": "string", "image": "string" }] // ONLY for 'MULTIPLE_CHOICE' and 'CHECKBOXES'. See rule #13.
     }
   ]
 }
@@ -39,6 +82,13 @@ You are an expert 'Quiz Architect AI'. Your single, most important mission is to
 - 'CHECKBOXES'
 - 'DROPDOWN'
 - 'SECTION_HEADER' // Use this for text blocks, like reading passages.
+- 'LINEAR_SCALE' // A numbered scale, e.g. 1 to 5, with optional labels for its ends.
+- 'MULTIPLE_CHOICE_GRID' // Several statements ("rows") each rated on the same choices ("options"), one choice per row.
+- 'CHECKBOX_GRID' // Like 'MULTIPLE_CHOICE_GRID', but several choices per row are allowed.
+- 'DATE'
+- 'TIME'
+- 'RATING' // Stars, hearts or thumbs.
+- 'PAGE_BREAK' // Starts a new page. Its title and description head that page.
 
 **PARSING, GRADING, AND ANSWERING INSTRUCTIONS (MANDATORY):**
 1.  **Name Field:** The first item in the "items" array MUST always be a 'Name' question: \`{ "title": "Name", "type": "SHORT_ANSWER", "required": true }\`. It should not have points.
@@ -56,8 +106,12 @@ You are an expert 'Quiz Architect AI'. Your single, most important mission is to
     - The \`options\` for EACH dropdown MUST be the complete list of words from the word bank.
     - You MUST identify the correct word for that specific blank and set it as the \`correctAnswer\`.
     - These \`DROPDOWN\` questions MUST be gradable: include \`"points": 1\` and \`"required": true\`.
-6.  **Cleanliness:** Remove prefixes like "Q1." or "A)" from titles and options.
-7.  **GRADING AND ANSWER IDENTIFICATION (YOUR #1 PRIORITY):**
+6.  **Surveys and Scales:** Use the survey types when the text asks for them; never force them into \`MULTIPLE_CHOICE\`.
+    - A single "rate from 1 to 5" or agree/disagree statement becomes a \`LINEAR_SCALE\` with "low", "high" and, if the text names them, "lowLabel" and "highLabel".
+    - A table of statements that share the same answer columns (a Likert matrix) becomes ONE \`MULTIPLE_CHOICE_GRID\` (or \`CHECKBOX_GRID\` if several columns may be ticked per row), with the statements as "rows" and the column headings as "options".
+    - Questions asking for a date, a time or a duration become \`DATE\` or \`TIME\`; "rate with stars" becomes \`RATING\`.
+7.  **Cleanliness:** Remove prefixes like "Q1." or "A)" from titles and options.
+8.  **GRADING AND ANSWER IDENTIFICATION (YOUR #1 PRIORITY):**
     - Your purpose is to create a quiz, not just a form. Therefore, you must be aggressive in identifying correct answers and making questions gradable.
     - **\`MULTIPLE_CHOICE\` / \`CHECKBOXES\` / \`DROPDOWN\`:**
         - These questions are ALWAYS gradable.
@@ -71,7 +125,29 @@ You are an expert 'Quiz Architect AI'. Your single, most important mission is to
         - For gradable \`SHORT_ANSWER\` questions, you MUST include \`"points": 1\`, the \`"correctAnswer"\` key with the precise string answer, and \`"required": true\`.
         - ONLY if the answer is subjective or an opinion (e.g., "What did you think?"), should you OMIT \`points\` and \`correctAnswer\`.
     - **Non-Gradable Types:**
-        - \`PARAGRAPH\`, \`SECTION_HEADER\`: These are never graded. You MUST OMIT \`points\` and \`correctAnswer\` for these types.
+        - \`PARAGRAPH\`, \`SECTION_HEADER\` and the survey types (\`LINEAR_SCALE\`, both grids, \`DATE\`, \`TIME\`, \`RATING\`): These are never graded. You MUST OMIT \`points\` and \`correctAnswer\` for these types.
+9.  **FEEDBACK (EXPLANATIONS):** Students see this feedback after submitting, so they learn why an answer is right or wrong.
+    - For every gradable question, add a "feedback" object with ONE OR TWO short sentences that explain the correct answer, grounded in the source text (e.g. quote or paraphrase the sentence that gives it away). Never invent facts that are not in the text.
+    - For \`MULTIPLE_CHOICE\`, \`CHECKBOXES\` and \`DROPDOWN\`, use "incorrect" for the explanation and, optionally, "correct" for a brief confirmation. For \`SHORT_ANSWER\` and \`PARAGRAPH\`, use "general" only.
+    - Include "links" ONLY if the source text itself contains a relevant web address. Omit "feedback" for the Name item, \`SECTION_HEADER\`, \`PAGE_BREAK\` and the survey types.
+10. **PAGES AND BRANCHING:**
+    - If the source is divided into parts (e.g. "Part A", "Section 2: Listening"), start each part after the first with a \`PAGE_BREAK\` item whose "title" is the part's heading and whose "pageId" is a short unique name. Do not add page breaks otherwise.
+    - If the source says where to continue depending on an answer (e.g. "If you answered No, skip to Part C"), give that \`MULTIPLE_CHOICE\` or \`DROPDOWN\` question "branches": \`[{ "option": "No", "goTo": "part-c" }]\`. "goTo" is the pageId of a \`PAGE_BREAK\`, or "SUBMIT" to end the form. Options without a branch simply continue to the next page; do not list them.
+11. **RESPONSE VALIDATION:** A \`SHORT_ANSWER\` question may carry ONE "validation" rule that stops answers of the wrong form, so "Solve for x" does not accept "banana".
+    - Add one when the expected answer has an obvious form: \`{ "kind": "INTEGER" }\` for whole-number answers, \`{ "kind": "NUMBER" }\` for other numbers (add "min"/"max" only if the text gives a range), \`{ "kind": "EMAIL" }\` or \`{ "kind": "URL" }\` when asking for one, \`{ "kind": "LENGTH", "max": 20 }\` for one-word answers, or \`{ "kind": "PATTERN", "pattern": "^[A-Z]{2}[0-9]{4}$" }\` for codes with a fixed format.
+    - Add a short "message" saying what is expected, e.g. "Enter a whole number.". The "correctAnswer" MUST pass the rule.
+    - Omit "validation" for the Name item, opinions and any answer whose form is open.
+12. **FORMATTING CUES:** Text read from Word documents keeps the formatting teachers use to mark answers.
+    - Text between \`[[\` and \`]]\` was bold, underlined or highlighted. A marked option is the correct answer to its question; a marked word or phrase in a sentence is the answer for that sentence, so the question is built around it (e.g. "Water boils at [[100]] degrees." asks for 100). Use marked text as the \`correctAnswer\` unless the text clearly says otherwise.
+    - Ignore the marking when it is only styling: headings, instructions, or every option marked alike.
+    - NEVER copy \`[[\` or \`]]\` into any title, description, option, answer or feedback; write the text without them.
+    - \`___\` is a blank to fill in, as in rule #5.
+    - Lines with cells separated by \`|\` are the rows of a table, columns aligned. A table pairing terms with definitions is a matching exercise: make one \`DROPDOWN\` per term whose options are all the definitions. Use the row pairings as the answers only if the definitions are not shuffled; otherwise work out each match from the text and any marking.
+13. **IMAGES:** A marker such as \`[Image 2]\` stands where a picture was in the document.
+    - Give the question the picture belongs to \`"image": "Image 2"\`; a picture is usually just above or beside its question.
+    - When the options themselves are pictures (e.g. "Which graph shows...?" followed by pictures labelled A to D), use \`"optionImages": [{ "option": "A", "image": "Image 3" }]\` and give each option a short text such as its letter.
+    - A picture that belongs to no single question, such as a diagram for a passage, goes on the passage's \`SECTION_HEADER\`, or on a \`SECTION_HEADER\` of its own titled after its caption.
+    - Use each picture once, and NEVER copy the markers into any title, description, option or answer.
 
 ---
 **EXAMPLE 1: Quiz with various questions**
@@ -82,8 +158,8 @@ Correct JSON Output:
   "description": "A quiz about world geography.",
   "items": [
     { "title": "Name", "type": "SHORT_ANSWER", "required": true },
-    { "title": "What is the capital of Japan?", "type": "MULTIPLE_CHOICE", "options": ["Tokyo", "Kyoto", "Osaka"], "points": 1, "correctAnswer": "Tokyo", "required": true },
-    { "title": "Which two of the following are continents?", "type": "CHECKBOXES", "options": ["Asia", "Pacific", "Africa"], "points": 1, "correctAnswer": ["Asia", "Africa"], "required": true },
+    { "title": "What is the capital of Japan?", "type": "MULTIPLE_CHOICE", "options": ["Tokyo", "Kyoto", "Osaka"], "points": 1, "correctAnswer": "Tokyo", "required": true, "feedback": { "incorrect": "The text states that the capital of Japan is Tokyo." } },
+    { "title": "Which two of the following are continents?", "type": "CHECKBOXES", "options": ["Asia", "Pacific", "Africa"], "points": 1, "correctAnswer": ["Asia", "Africa"], "required": true, "feedback": { "incorrect": "Asia and Africa are continents; the Pacific is an ocean." } },
     { "title": "What are your thoughts on geography?", "type": "PARAGRAPH" }
   ]
 }
@@ -102,91 +178,130 @@ Correct JSON Output:
       "type": "SECTION_HEADER",
       "description": "Complete the sentences using the word bank below.\\n\\n1. The ___ is blue.\\n2. A ___ has four wheels.\\n\\nWord Bank: [sky, car]"
     },
-    { "title": "Sentence 1: The ___ is blue.", "type": "DROPDOWN", "options": ["sky", "car"], "points": 1, "correctAnswer": "sky", "required": true },
-    { "title": "Sentence 2: A ___ has four wheels.", "type": "DROPDOWN", "options": ["sky", "car"], "points": 1, "correctAnswer": "car", "required": true }
+    { "title": "Sentence 1: The ___ is blue.", "type": "DROPDOWN", "options": ["sky", "car"], "points": 1, "correctAnswer": "sky", "required": true, "feedback": { "incorrect": "The sky is what is blue." } },
+    { "title": "Sentence 2: A ___ has four wheels.", "type": "DROPDOWN", "options": ["sky", "car"], "points": 1, "correctAnswer": "car", "required": true, "feedback": { "incorrect": "A car is what has four wheels." } }
   ]
 }
 
 ---
-**Text to Analyze:**
+${getPartInstructions(part)}**Text to Analyze:**
 ---
 ${textContent}
 ---
 `;
 
-/**
- * Attempts to fix common JSON errors from LLM output, like trailing commas.
- */
-function sanitizeJsonString(jsonStr: string): string {
-    // Remove trailing commas from objects and arrays.
-    // Handles cases like { "a": 1, } and [ "b", ]
-    return jsonStr.replace(/,(?=\s*?[}\]])/g, '');
-}
-
-export const extractTextFromImage = async (base64ImageData: string): Promise<string> => {
+export const extractTextFromImage = async (base64ImageData: string, mimeType = 'image/png'): Promise<string> => {
   try {
-    const imagePart = {
-      inlineData: {
-        mimeType: 'image/png',
-        data: base64ImageData,
-      },
-    };
-
-    const textPart = {
-      text: 'Perform OCR on this image. Extract all visible text exactly as it appears. Maintain paragraph and line breaks.'
-    };
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: { parts: [imagePart, textPart] },
-      config: {
-        temperature: 0, // Be very factual for OCR
-        thinkingConfig: { thinkingBudget: 0 },
-      },
+    return await getProvider().generate({
+      prompt: 'Perform OCR on this image. Extract all visible text exactly as it appears. Maintain paragraph and line breaks.',
+      images: [{ mimeType, data: base64ImageData }],
+      temperature: 0, // Be very factual for OCR
+      vision: true,
     });
-
-    return response.text;
   } catch (error) {
-    console.error("Error extracting text from image with Gemini:", error);
+    console.error("Error extracting text from image:", error);
     throw new Error("Failed to perform OCR on the image. The service might be unavailable.");
   }
 };
 
 
-export const generateFormFromText = async (textContent: string): Promise<Form> => {
+export interface GeneratedForm {
+  form: Form;
+  /** The response was cut off; `form` holds only the items that arrived complete. */
+  truncated: boolean;
+}
+
+export interface GenerationOptions {
+  /** Streams the response and reports the form received so far each time another item completes. */
+  onPartial?: (form: Form) => void;
+  signal?: AbortSignal;
+  /** The pictures the text marks, which the items are given where the model refers to them. */
+  images?: SourceImage[];
+}
+
+/** Thrown when generation is aborted through its signal; carries whatever had arrived by then. */
+export class GenerationCancelledError extends Error {
+  constructor(readonly partial: Form) {
+    super('Generation was cancelled.');
+    this.name = 'GenerationCancelledError';
+  }
+}
+
+const toPartialForm = (snapshot: StreamedFormSnapshot, images?: SourceImage[]): Form =>
+  validateForm({ title: snapshot.title ?? '', description: snapshot.description ?? '', items: snapshot.items }, images).form;
+
+// Lower temperature for more deterministic, structured output
+const GENERATION_TEMPERATURE = 0.1;
+
+/** The provider settings forms are generated with, to record alongside them. */
+export const generationSettings = (): GenerationSettings => {
+  const { name, model } = getProvider();
+  return { provider: name, model, temperature: GENERATION_TEMPERATURE };
+};
+
+/** Generates a form from one part of a document. See `chunkedGeneration` for whole documents. */
+export const generateFormPart = async (textContent: string, part?: PromptPart, options: GenerationOptions = {}): Promise<GeneratedForm> => {
+  const { onPartial, signal, images } = options;
+  const parser = createFormStreamParser();
+
   try {
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: getPrompt(textContent),
-        config: {
-          responseMimeType: "application/json",
-          temperature: 0.1, // Lower temperature for more deterministic, structured output
-          thinkingConfig: { thinkingBudget: 0 }, // Optimize for speed by disabling thinking
-        },
-    });
+    const provider = getProvider();
+    const request = {
+        prompt: getPrompt(textContent, part),
+        json: true,
+        // Constrained decoding makes the JSON valid by construction; the tolerant parser below
+        // is the fallback for providers without schema support.
+        schema: provider.supportsSchema ? FORM_RESPONSE_SCHEMA : undefined,
+        temperature: GENERATION_TEMPERATURE,
+        signal,
+    };
 
-    let jsonStr = response.text.trim();
-    
-    // 1. Remove markdown fences
-    const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
-    const match = jsonStr.match(fenceRegex);
-    if (match && match[2]) {
-        jsonStr = match[2].trim();
+    let responseText = '';
+    if (onPartial) {
+      let itemCount = 0;
+      for await (const piece of provider.stream(request)) {
+        responseText += piece;
+        const snapshot = parser.push(piece);
+        if (snapshot.items.length > itemCount) {
+          itemCount = snapshot.items.length;
+          onPartial(toPartialForm(snapshot, images));
+        }
+      }
+    } else {
+      responseText = await provider.generate(request);
+    }
+    if (signal?.aborted) {
+      throw new GenerationCancelledError(toPartialForm(parser.push(''), images));
     }
-    
-    // 2. Sanitize for common errors like trailing commas
-    const sanitizedJsonStr = sanitizeJsonString(jsonStr);
 
-    const parsedData = JSON.parse(sanitizedJsonStr) as Form;
+    // 1. Parse, repairing fences, comments, trailing commas and truncated output
+    const { value: parsedData, truncated } = parseTolerantJson(responseText);
 
-    if (!parsedData.title || !parsedData.description || !Array.isArray(parsedData.items)) {
+    if (!parsedData || typeof parsedData !== 'object' || !Array.isArray((parsedData as Form).items)) {
         throw new Error("AI response is missing required fields (title, description, or items).");
     }
 
-    return parsedData;
+    // 2. Repair what can be repaired safely; remaining problems are flagged in the preview.
+    const { form, diagnostics } = validateForm(parsedData, images);
+
+    // 3. A truncated response usually ends in a half-written item; drop it unless it came through intact.
+    if (truncated && form.items.length > 0) {
+        const lastIndex = form.items.length - 1;
+        if (diagnostics.some(d => d.itemIndex === lastIndex && d.severity === 'error')) {
+            form.items.pop();
+        }
+        console.warn(`The AI's response was cut off; kept ${form.items.length} complete item(s).`);
+    }
+
+    return { form, truncated };
 
   } catch (error) {
-    console.error("Error generating form from Gemini:", error);
+    if (error instanceof GenerationCancelledError) throw error;
+    if (signal?.aborted) throw new GenerationCancelledError(toPartialForm(parser.push(''), images));
+    console.error("Error generating form:", error);
+    if (error instanceof JsonRepairError) {
+       throw new Error(`The AI's response couldn't be processed (${error.message}) Please try again, or split the input into smaller parts.`);
+    }
     if (error instanceof SyntaxError) {
        // Provide a more helpful message for parsing errors
        throw new Error("The AI's response couldn't be processed. This can happen with complex requests. Please try simplifying or rephrasing your input.");
@@ -196,4 +311,7 @@ export const generateFormFromText = async (textContent: string): Promise<Form> =
     }
     throw new Error("Failed to generate form from AI. The service might be temporarily unavailable or the input is too complex.");
   }
-};
\ No newline at end of file
+};
+
+export const generateFormFromText = async (textContent: string): Promise<Form> =>
+  (await generateFormPart(textContent)).form;
@@ -0,0 +1,42 @@
+// Declare the google object from the GSI client library
+declare const google: any;
+
+export const GOOGLE_SCOPES = {
+    formsBody: 'https://www.googleapis.com/auth/forms.body',
+    formsReadonly: 'https://www.googleapis.com/auth/forms.body.readonly',
+    // Only files this app created; used to remove a form whose creation failed part-way.
+    driveFile: 'https://www.googleapis.com/auth/drive.file',
+};
+
+export const getGoogleClientId = (): string | undefined => process.env.GOOGLE_CLIENT_ID || undefined;
+
+/** Whether the GSI script from index.html has loaded. */
+export const isGoogleSignInReady = () => typeof google !== 'undefined' && !!google.accounts?.oauth2;
+
+/**
+ * Asks the user to sign in (or reuses their session) and resolves with an OAuth access token
+ * for the given scopes. Rejects if they close the popup or GSI is not configured.
+ */
+export const requestAccessToken = (scopes: string[]): Promise<string> => new Promise((resolve, reject) => {
+    const clientId = getGoogleClientId();
+    if (!clientId || !isGoogleSignInReady()) {
+        reject(new Error('Authentication libraries are not ready. Please try again in a moment.'));
+        return;
+    }
+
+    const tokenClient = google.accounts.oauth2.initTokenClient({
+        client_id: clientId,
+        scope: scopes.join(' '),
+        callback: (tokenResponse: any) => {
+            if (tokenResponse && tokenResponse.access_token) {
+                resolve(tokenResponse.access_token);
+            } else {
+                reject(new Error('Authentication failed. No access token received.'));
+            }
+        },
+        error_callback: (error: any) => {
+            reject(new Error(`Authentication error: ${error.message || 'The sign-in process was closed or failed.'}`));
+        },
+    });
+    tokenClient.requestAccessToken();
+});
@@ -0,0 +1,231 @@
+/*
+ * The subset of the Google Forms API v1 resources this app reads and writes.
+ * See https://developers.google.com/forms/api/reference/rest/v1/forms.
+ */
+
+export interface ApiFeedback {
+    text?: string;
+    material?: { link?: { uri: string; displayText?: string }; video?: object }[];
+}
+
+export interface ApiGrading {
+    pointValue?: number;
+    correctAnswers?: { answers: { value: string }[] };
+    whenRight?: ApiFeedback;
+    whenWrong?: ApiFeedback;
+    generalFeedback?: ApiFeedback;
+}
+
+/** A picture. Google fetches `sourceUri` when the item is written and keeps a copy of its own. */
+export interface ApiImage {
+    sourceUri?: string;
+    /** Google's copy, returned on reads; the link expires after a while. */
+    contentUri?: string;
+    altText?: string;
+    properties?: { alignment?: 'LEFT' | 'RIGHT' | 'CENTER'; width?: number };
+}
+
+export interface ApiChoiceQuestion {
+    type: 'RADIO' | 'CHECKBOX' | 'DROP_DOWN';
+    /** Only RADIO and CHECKBOX options can have an image. */
+    options: { value?: string; image?: ApiImage; isOther?: boolean; goToAction?: string; goToSectionId?: string }[];
+    shuffle?: boolean;
+}
+
+export interface ApiQuestion {
+    questionId?: string;
+    required?: boolean;
+    grading?: ApiGrading;
+    choiceQuestion?: ApiChoiceQuestion;
+    textQuestion?: { paragraph?: boolean };
+    scaleQuestion?: { low?: number; high?: number; lowLabel?: string; highLabel?: string };
+    dateQuestion?: { includeTime?: boolean; includeYear?: boolean };
+    timeQuestion?: { duration?: boolean };
+    fileUploadQuestion?: object;
+    /** A row of a grid; only found inside a `questionGroupItem`. */
+    rowQuestion?: { title: string };
+    ratingQuestion?: { ratingScaleLevel: number; iconType: 'STAR' | 'HEART' | 'THUMB_UP' };
+}
+
+export interface ApiItem {
+    itemId?: string;
+    title?: string;
+    description?: string;
+    questionItem?: { question: ApiQuestion; image?: ApiImage };
+    /** A grid: one question per row, sharing the columns. Without `grid` it is a group of images. */
+    questionGroupItem?: {
+        questions: ApiQuestion[];
+        grid?: { columns: ApiChoiceQuestion; shuffleQuestions?: boolean };
+        image?: ApiImage;
+    };
+    pageBreakItem?: object;
+    textItem?: object;
+    imageItem?: { image: ApiImage };
+    videoItem?: object;
+}
+
+export interface ApiForm {
+    formId: string;
+    info: { title?: string; documentTitle?: string; description?: string };
+    items?: ApiItem[];
+    revisionId?: string;
+    responderUri?: string;
+}
+
+// Overridable so the app can run against a local mock of the REST APIs.
+const FORMS_API = `${(process.env.GOOGLE_FORMS_API_URL || 'https://forms.googleapis.com/v1').replace(/\/+$/, '')}/forms`;
+const DRIVE_API = (process.env.GOOGLE_DRIVE_API_URL || 'https://www.googleapis.com/drive/v3').replace(/\/+$/, '');
+const DRIVE_UPLOAD_API = (process.env.GOOGLE_DRIVE_UPLOAD_URL || 'https://www.googleapis.com/upload/drive/v3').replace(/\/+$/, '');
+
+/**
+ * Extracts a form ID from an edit link or a bare ID. Responder links (`/forms/d/e/...`) carry a
+ * different, public ID that the API does not accept, so they are rejected with a hint.
+ */
+export const parseFormId = (input: string): string => {
+    const text = input.trim();
+    if (/\/forms\/d\/e\//.test(text)) {
+        throw new Error('That is the link students use to answer the form. Open the form in the editor and copy that link instead.');
+    }
+    const match = text.match(/\/forms\/d\/([\w-]{20,})/) || text.match(/^([\w-]{20,})$/);
+    if (!match) throw new Error('Paste a Google Forms edit link or form ID.');
+    return match[1];
+};
+
+/** An error response from a Google API, after any retries. */
+export class GoogleApiError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'GoogleApiError';
+    }
+
+    /** The write was rejected because the form changed since the given revision. */
+    get isRevisionMismatch() {
+        return this.status === 400 && /revision/i.test(this.message);
+    }
+}
+
+// Rate limiting and transient server errors; anything else will fail the same way again.
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+const MAX_RETRIES = 4;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Exponential backoff with jitter, or the server's `Retry-After` when it sends one. */
+const retryDelay = (attempt: number, response?: Response) => {
+    const retryAfter = Number(response?.headers.get('Retry-After'));
+    if (retryAfter > 0) return retryAfter * 1000;
+    return 500 * 2 ** attempt + Math.random() * 250;
+};
+
+interface RequestOptions extends RequestInit {
+    headers?: Record<string, string>;
+    /**
+     * Whether the request may be sent again after a network error or server error, when it may
+     * have gone through: true for reads, and writes that do the same when repeated or are pinned to
+     * a revision; false for ones that would create something twice. A rate-limited request is
+     * always retried, as Google did nothing with it.
+     */
+    retry?: boolean;
+}
+
+/** Sends a request with the token; bodies are JSON unless `headers` give another type. Resolves with the response's JSON, or null when it has none. */
+const request = async <T>(url: string, accessToken: string, { retry = true, ...init }: RequestOptions = {}): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        let response: Response;
+        try {
+            response = await fetch(url, {
+                ...init,
+                headers: { 'Authorization': `Bearer ${accessToken}`, ...(init.body ? { 'Content-Type': 'application/json' } : {}), ...init.headers },
+            });
+        } catch {
+            if (retry && attempt < MAX_RETRIES) {
+                await sleep(retryDelay(attempt));
+                continue;
+            }
+            throw new GoogleApiError('Could not reach Google. Check your connection and try again.', 0);
+        }
+
+        if (response.ok) return (response.status === 204 ? null : await response.json().catch(() => null)) as T;
+        if (RETRYABLE_STATUSES.has(response.status) && (retry || response.status === 429) && attempt < MAX_RETRIES) {
+            await sleep(retryDelay(attempt, response));
+            continue;
+        }
+        const data: { error?: { message?: string } } | null = await response.json().catch(() => null);
+        throw new GoogleApiError(data?.error?.message || `Google returned ${response.status}.`, response.status);
+    }
+};
+
+/**
+ * Creates an empty form with just a title (`forms.create`); items are added with `batchUpdate`.
+ * Not retried once it may have reached Google, which would leave a second form in the user's Drive.
+ */
+export const createEmptyForm = async (title: string, accessToken: string): Promise<ApiForm> =>
+    request<ApiForm>(FORMS_API, accessToken, {
+        method: 'POST',
+        body: JSON.stringify({ info: { title, documentTitle: title } }),
+        retry: false,
+    });
+
+/** Fetches a form with its items (`forms.get`). */
+export const getForm = async (formId: string, accessToken: string): Promise<ApiForm> => {
+    try {
+        return await request<ApiForm>(`${FORMS_API}/${encodeURIComponent(formId)}`, accessToken);
+    } catch (err) {
+        if (err instanceof GoogleApiError && err.status === 404) {
+            throw new GoogleApiError('Form not found. Check the link, and that your account can edit the form.', 404);
+        }
+        throw err;
+    }
+};
+
+/**
+ * Applies requests in one `forms.batchUpdate`, which the API runs atomically. Passing the
+ * revision the requests were computed from makes the call fail if someone edited the form since,
+ * and makes it safe to retry: a repeat of a call that went through fails with a revision mismatch
+ * instead of applying twice. Without a revision, it is sent once. Resolves with the form's new revision ID.
+ */
+export const batchUpdate = async (formId: string, accessToken: string, requests: object[], requiredRevisionId?: string): Promise<string | undefined> => {
+    const data = await request<{ writeControl?: { requiredRevisionId?: string } } | null>(`${FORMS_API}/${encodeURIComponent(formId)}:batchUpdate`, accessToken, {
+        method: 'POST',
+        body: JSON.stringify({
+            requests,
+            includeFormInResponse: false,
+            ...(requiredRevisionId ? { writeControl: { requiredRevisionId } } : {}),
+        }),
+        retry: Boolean(requiredRevisionId),
+    });
+    return data?.writeControl?.requiredRevisionId;
+};
+
+/** Moves a file the app created, such as a form, to the trash through the Drive API; needs the `drive.file` scope. */
+export const trashFile = async (fileId: string, accessToken: string) => {
+    await request<unknown>(`${DRIVE_API}/files/${encodeURIComponent(fileId)}`, accessToken, {
+        method: 'PATCH',
+        body: JSON.stringify({ trashed: true }),
+    });
+};
+
+/**
+ * Uploads a picture to the user's Drive and shares it with anyone who has the link, so the Forms
+ * API can fetch it; needs the `drive.file` scope. Resolves with the file's ID and a link to its bytes.
+ */
+export const uploadImage = async (data: Uint8Array, mimeType: string, name: string, accessToken: string): Promise<{ fileId: string; uri: string }> => {
+    const boundary = `form-architect-${Math.random().toString(36).slice(2)}`;
+    const body = new Blob([
+        `--${boundary}\r\nContent-Type: application/json; charset=UTF-8\r\n\r\n${JSON.stringify({ name, mimeType })}\r\n`,
+        `--${boundary}\r\nContent-Type: ${mimeType}\r\n\r\n`,
+        data,
+        `\r\n--${boundary}--`,
+    ]);
+    const file = await request<{ id: string; webContentLink?: string }>(`${DRIVE_UPLOAD_API}/files?uploadType=multipart&fields=id,webContentLink`, accessToken, {
+        method: 'POST',
+        body,
+        headers: { 'Content-Type': `multipart/related; boundary=${boundary}` },
+        retry: false,
+    });
+    await request<unknown>(`${DRIVE_API}/files/${encodeURIComponent(file.id)}/permissions`, accessToken, {
+        method: 'POST',
+        body: JSON.stringify({ role: 'reader', type: 'anyone' }),
+    });
+    return { fileId: file.id, uri: file.webContentLink || `https://drive.google.com/uc?id=${encodeURIComponent(file.id)}&export=download` };
+};
@@ -0,0 +1,321 @@
+import type { Form } from '../types';
+import type { ApiFeedback, ApiForm, ApiGrading, ApiImage, ApiItem } from './googleFormsApi';
+import { hasNavigation, toApiItem, withoutNavigation } from './googleFormsMapping';
+
+/** One change shown in the preview before a published form is updated. */
+export interface FormChange {
+    kind: 'info' | 'create' | 'update' | 'delete' | 'move';
+    title: string;
+    /** For updates, which parts of the item changed. */
+    fields?: string[];
+}
+
+export interface FormDiff {
+    changes: FormChange[];
+    /** `batchUpdate` requests that turn the remote form into the local one, in order. */
+    requests: object[];
+    /**
+     * Remote items left where they are: ones the Form model can't represent, and pictures added in
+     * Google Forms that the local form doesn't have.
+     */
+    keptCount: number;
+}
+
+type ItemKind = 'text' | 'page' | 'shortAnswer' | 'paragraph' | 'choice' | 'grid' | 'scale' | 'date' | 'time' | 'rating' | 'image' | 'other';
+
+const kindOf = (item: ApiItem): ItemKind => {
+    if (item.textItem) return 'text';
+    if (item.pageBreakItem) return 'page';
+    if (item.imageItem) return 'image';
+    if (item.questionGroupItem?.grid) return 'grid';
+    const question = item.questionItem?.question;
+    if (question?.choiceQuestion) return 'choice';
+    if (question?.textQuestion) return question.textQuestion.paragraph ? 'paragraph' : 'shortAnswer';
+    if (question?.scaleQuestion) return 'scale';
+    if (question?.dateQuestion) return 'date';
+    if (question?.timeQuestion) return 'time';
+    if (question?.ratingQuestion) return 'rating';
+    return 'other';
+};
+
+const comparableFeedback = (feedback?: ApiFeedback) => (feedback
+    ? { text: feedback.text || '', links: (feedback.material || []).map(m => (m.link ? [m.link.uri, m.link.displayText || ''] : null)) }
+    : null);
+
+const comparableGrading = (grading?: ApiGrading) => (grading && (grading.pointValue || grading.whenRight || grading.whenWrong || grading.generalFeedback)
+    ? {
+        pointValue: grading.pointValue || 0,
+        answers: (grading.correctAnswers?.answers || []).map(a => a.value),
+        whenRight: comparableFeedback(grading.whenRight),
+        whenWrong: comparableFeedback(grading.whenWrong),
+        generalFeedback: comparableFeedback(grading.generalFeedback),
+    }
+    : null);
+
+// Google only returns its own copy of a picture, so pictures are told apart by their description.
+const comparableImage = (image?: ApiImage) => (image ? { altText: image.altText || '' } : null);
+
+/**
+ * The parts of an item we compare, each normalized so absent and empty values are equal. Option
+ * pictures are only compared when the local item has some, like the item's picture in `changedFields`.
+ */
+const comparable = (item: ApiItem, optionImages = false) => {
+    const question = item.questionItem?.question;
+    const group = item.questionGroupItem;
+    const scale = question?.scaleQuestion;
+    return {
+        title: item.title || '',
+        description: item.description || '',
+        required: Boolean(question?.required || group?.questions.some(q => q.required)),
+        grading: comparableGrading(question?.grading),
+        choiceQuestion: question?.choiceQuestion
+            ? {
+                type: question.choiceQuestion.type,
+                options: question.choiceQuestion.options.map(o => {
+                    const goTo = o.goToSectionId || (o.goToAction !== 'NEXT_SECTION' && o.goToAction) || null;
+                    const option = o.isOther ? { isOther: true } : o.value;
+                    const compared = optionImages ? [option, comparableImage(o.image)] : option;
+                    return goTo ? [compared, goTo] : compared;
+                }),
+            }
+            : null,
+        grid: group?.grid
+            ? { type: group.grid.columns.type, columns: group.grid.columns.options.map(o => o.value), rows: group.questions.map(q => q.rowQuestion?.title) }
+            : null,
+        scaleQuestion: scale
+            ? { low: scale.low ?? 0, high: scale.high ?? 0, lowLabel: scale.lowLabel || '', highLabel: scale.highLabel || '' }
+            : null,
+        dateQuestion: question?.dateQuestion
+            ? { includeTime: Boolean(question.dateQuestion.includeTime), includeYear: Boolean(question.dateQuestion.includeYear) }
+            : null,
+        timeQuestion: question?.timeQuestion ? { duration: Boolean(question.timeQuestion.duration) } : null,
+        ratingQuestion: question?.ratingQuestion
+            ? { ratingScaleLevel: question.ratingQuestion.ratingScaleLevel, iconType: question.ratingQuestion.iconType }
+            : null,
+        image: comparableImage(item.imageItem?.image || item.questionItem?.image || group?.image),
+    };
+};
+
+type Field = keyof ReturnType<typeof comparable>;
+
+// The `updateMask` path for each compared part.
+const FIELD_MASKS: Record<Field, string> = {
+    title: 'title',
+    description: 'description',
+    required: 'questionItem.question.required',
+    grading: 'questionItem.question.grading',
+    choiceQuestion: 'questionItem.question.choiceQuestion',
+    grid: 'questionGroupItem',
+    scaleQuestion: 'questionItem.question.scaleQuestion',
+    dateQuestion: 'questionItem.question.dateQuestion',
+    timeQuestion: 'questionItem.question.timeQuestion',
+    ratingQuestion: 'questionItem.question.ratingQuestion',
+    image: 'questionItem.image',
+};
+
+const FIELD_LABELS: Record<Field, string> = {
+    title: 'title',
+    description: 'description',
+    required: 'required',
+    grading: 'points, answer or feedback',
+    choiceQuestion: 'options',
+    grid: 'rows or columns',
+    scaleQuestion: 'scale',
+    dateQuestion: 'date settings',
+    timeQuestion: 'time settings',
+    ratingQuestion: 'rating',
+    image: 'picture',
+};
+
+const fieldMask = (item: ApiItem, field: Field) => {
+    if (field === 'image' && item.imageItem) return 'imageItem.image';
+    if (item.questionGroupItem) {
+        if (field === 'image') return 'questionGroupItem.image';
+        if (field === 'required') return FIELD_MASKS.grid;
+    }
+    return FIELD_MASKS[field];
+};
+
+/** The `updateMask` for the changed fields. A grid's rows are replaced as a whole, including whether they are required. */
+const updateMask = (item: ApiItem, fields: Field[]) => [...new Set(fields.map(field => fieldMask(item, field)))].join(',');
+
+/**
+ * The fields that differ. A picture missing locally is not a change: forms read back from Google
+ * don't carry pictures, and removing one in Google Forms is easy.
+ */
+const changedFields = (remote: ApiItem, local: ApiItem): Field[] => {
+    const optionImages = Boolean(local.questionItem?.question.choiceQuestion?.options.some(o => o.image));
+    const a = comparable(remote, optionImages);
+    const b = comparable(local, optionImages);
+    return (Object.keys(a) as Field[]).filter(field => !(field === 'image' && b.image === null) && JSON.stringify(a[field]) !== JSON.stringify(b[field]));
+};
+
+const normalizeTitle = (title?: string) => (title || '').trim().replace(/\s+/g, ' ').toLowerCase();
+
+/** Indices (into `values`) of one longest strictly increasing subsequence. */
+const longestIncreasing = (values: number[]): Set<number> => {
+    const tails: number[] = [];
+    const previous: number[] = new Array(values.length).fill(-1);
+    values.forEach((value, i) => {
+        let lo = 0;
+        let hi = tails.length;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (values[tails[mid]] < value) lo = mid + 1;
+            else hi = mid;
+        }
+        if (lo > 0) previous[i] = tails[lo - 1];
+        tails[lo] = i;
+    });
+    const result = new Set<number>();
+    for (let i = tails.length ? tails[tails.length - 1] : -1; i !== -1; i = previous[i]) result.add(i);
+    return result;
+};
+
+/**
+ * Computes the smallest practical set of requests that makes the remote form match `local`.
+ * Local items are paired with remote ones first by identical content, then by title and kind;
+ * paired items are moved and updated in place so responses stay attached, unpaired remote
+ * items are deleted and unpaired local ones created. Moves keep the longest run of items
+ * already in order still.
+ */
+export const diffForm = (local: Form, remote: ApiForm): FormDiff => {
+    const changes: FormChange[] = [];
+    const requests: object[] = [];
+
+    if ((remote.info.title || '') !== local.title || (remote.info.description || '') !== (local.description || '')) {
+        requests.push({
+            updateFormInfo: { info: { title: local.title, description: local.description }, updateMask: 'title,description' },
+        });
+        changes.push({ kind: 'info', title: local.title });
+    }
+
+    const remoteItems = remote.items || [];
+    let localItems = local.items.map(toApiItem).filter((item): item is ApiItem => item !== null);
+    const pairs: (number | null)[] = localItems.map(() => null); // local index -> remote index
+    const used = new Set<number>();
+
+    const pair = (matches: (l: ApiItem, r: ApiItem) => boolean) => localItems.forEach((localItem, l) => {
+        if (pairs[l] !== null) return;
+        const r = remoteItems.findIndex((remoteItem, i) => !used.has(i) && kindOf(remoteItem) !== 'other' && matches(localItem, remoteItem));
+        if (r !== -1) {
+            pairs[l] = r;
+            used.add(r);
+        }
+    });
+    const isPage = (item: ApiItem) => kindOf(item) === 'page';
+    pair((l, r) => isPage(l) && isPage(r) && l.itemId === r.itemId);
+    pair((l, r) => isPage(l) && isPage(r) && changedFields(r, l).length === 0);
+    pair((l, r) => isPage(l) && isPage(r) && normalizeTitle(l.title) === normalizeTitle(r.title));
+
+    // Paired pages keep their remote ID, so branches must go to that instead of the local one.
+    const sectionIds = new Map<string, string>();
+    localItems.forEach((item, l) => {
+        if (pairs[l] !== null && item.itemId) sectionIds.set(item.itemId, remoteItems[pairs[l]!].itemId!);
+    });
+    localItems = localItems.map(item => {
+        const choice = item.questionItem?.question.choiceQuestion;
+        if (!choice || !hasNavigation(item)) return item;
+        const options = choice.options.map(o => (o.goToSectionId && sectionIds.has(o.goToSectionId) ? { ...o, goToSectionId: sectionIds.get(o.goToSectionId) } : o));
+        return { ...item, questionItem: { ...item.questionItem!, question: { ...item.questionItem!.question, choiceQuestion: { ...choice, options } } } };
+    });
+
+    pair((l, r) => kindOf(l) === kindOf(r) && changedFields(r, l).length === 0);
+    pair((l, r) => kindOf(l) === kindOf(r) && normalizeTitle(l.title) === normalizeTitle(r.title));
+
+    // Unpaired remote items that are kept as they are.
+    const leftAlone = (i: number) => !used.has(i) && ['image', 'other'].includes(kindOf(remoteItems[i]));
+
+    // 1. Delete unpaired remote items, last first so earlier indices stay valid.
+    const kept = remoteItems.map((item, i) => ({ item, i })).filter(({ i }) => used.has(i) || leftAlone(i));
+    for (let i = remoteItems.length - 1; i >= 0; i--) {
+        if (used.has(i) || leftAlone(i)) continue;
+        requests.push({ deleteItem: { location: { index: i } } });
+        changes.push({ kind: 'delete', title: remoteItems[i].title || `Item ${i + 1}` });
+    }
+
+    // 2. The target order: local items in order, each remote item left alone staying right after
+    //    the remote item it followed.
+    type Slot = { remote: number } | { local: number };
+    const target: Slot[] = localItems.map((_, l) => (pairs[l] !== null ? { remote: pairs[l]! } : { local: l }));
+    kept.filter(({ i }) => leftAlone(i)).forEach(({ i }) => {
+        let at = 0;
+        for (let before = i - 1; before >= 0; before--) {
+            const index = target.findIndex(slot => 'remote' in slot && slot.remote === before);
+            if (index !== -1) {
+                at = index + 1;
+                break;
+            }
+        }
+        while (at < target.length && 'remote' in target[at] && leftAlone((target[at] as { remote: number }).remote)) at++;
+        target.splice(at, 0, { remote: i });
+    });
+
+    // 3. Create and move. `current` mirrors the remote order as each request is applied.
+    const current: Slot[] = kept.map(({ i }) => ({ remote: i }));
+    const position = (slot: Slot) => current.findIndex(c => ('remote' in c && 'remote' in slot && c.remote === slot.remote) || ('local' in c && 'local' in slot && c.local === slot.local));
+    const targetRemote = target.filter((slot): slot is { remote: number } => 'remote' in slot);
+    const stay = longestIncreasing(targetRemote.map(slot => position(slot)));
+    const stays = new Set([...stay].map(i => targetRemote[i].remote));
+
+    target.forEach((slot, t) => {
+        const index = t === 0 ? 0 : position(target[t - 1]) + 1;
+        if ('local' in slot) {
+            // Go-to-section options are added in step 4, once every section they may refer to exists.
+            requests.push({ createItem: { item: withoutNavigation(localItems[slot.local]), location: { index } } });
+            changes.push({ kind: 'create', title: localItems[slot.local].title || `Item ${t + 1}` });
+            current.splice(index, 0, slot);
+            return;
+        }
+        if (stays.has(slot.remote)) return;
+        const from = position(slot);
+        current.splice(from, 1);
+        const to = t === 0 ? 0 : position(target[t - 1]) + 1;
+        current.splice(to, 0, slot);
+        requests.push({ moveItem: { originalLocation: { index: from }, newLocation: { index: to } } });
+        changes.push({ kind: 'move', title: remoteItems[slot.remote].title || `Item ${t + 1}` });
+    });
+
+    // 4. Update paired items whose content changed, and add the navigation of created ones, at
+    //    their final positions.
+    localItems.forEach((localItem, l) => {
+        const r = pairs[l];
+        if (r === null) {
+            if (hasNavigation(localItem)) {
+                requests.push({
+                    updateItem: { item: localItem, location: { index: position({ local: l }) }, updateMask: 'questionItem.question.choiceQuestion.options' },
+                });
+            }
+            return;
+        }
+        const remoteItem = remoteItems[r];
+        const fields = changedFields(remoteItem, localItem);
+        if (fields.length === 0) return;
+
+        const item: ApiItem = { ...localItem, itemId: remoteItem.itemId };
+        if (item.questionItem) {
+            item.questionItem = { ...item.questionItem, question: { ...item.questionItem.question, questionId: remoteItem.questionItem?.question.questionId } };
+        }
+        if (item.questionGroupItem) {
+            // Rows that kept their title keep their question, so their responses stay attached.
+            const remoteRows = remoteItem.questionGroupItem?.questions || [];
+            item.questionGroupItem = {
+                ...item.questionGroupItem,
+                questions: item.questionGroupItem.questions.map(q => ({
+                    ...q,
+                    questionId: remoteRows.find(row => row.rowQuestion?.title === q.rowQuestion?.title)?.questionId,
+                })),
+            };
+        }
+        requests.push({
+            updateItem: {
+                item,
+                location: { index: position({ remote: r }) },
+                updateMask: updateMask(item, fields),
+            },
+        });
+        changes.push({ kind: 'update', title: localItem.title || `Item ${l + 1}`, fields: fields.map(field => FIELD_LABELS[field]) });
+    });
+
+    return { changes, requests, keptCount: kept.filter(({ i }) => leftAlone(i)).length };
+};
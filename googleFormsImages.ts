@@ -0,0 +1,55 @@
+import type { Form, FormImage, FormItem } from '../types';
+import { dataUrlBytes, dataUrlParts, formImages, imageExtension, isDataUrl } from './formImages';
+import { trashFile, uploadImage } from './googleFormsApi';
+
+/*
+ * Google Forms only takes pictures from a web address it can fetch, while forms keep theirs as
+ * data URLs. Before a form is written, its pictures are uploaded to the user's Drive and shared by
+ * link; Google copies them as the items are written, after which the uploads are trashed again.
+ */
+
+export interface HostedImages {
+    /** The form with its pictures pointing at the uploaded files. */
+    form: Form;
+    /** The uploaded files, to trash once the form has been written. */
+    fileIds: string[];
+}
+
+/** Whether the form has pictures to upload before it is written, which needs the `drive.file` scope. */
+export const needsImageHosting = (form: Form) => formImages(form).some(image => isDataUrl(image.src));
+
+/** Trashes uploaded pictures. Failures are only logged: a leftover file in Drive does no harm. */
+export const removeHostedImages = async (fileIds: string[], accessToken: string): Promise<void> => {
+    await Promise.all(fileIds.map(fileId => trashFile(fileId, accessToken).catch(err => {
+        console.warn('An uploaded picture could not be removed from Drive:', err);
+    })));
+};
+
+/** Uploads the form's data URL pictures, each once however many items show it. */
+export const hostFormImages = async (form: Form, accessToken: string): Promise<HostedImages> => {
+    const uris = new Map<string, string>();
+    const fileIds: string[] = [];
+    try {
+        for (const image of formImages(form)) {
+            const parts = dataUrlParts(image.src);
+            const data = dataUrlBytes(image.src);
+            if (!parts || !data) continue;
+            const name = `${form.title || 'Form'} picture ${fileIds.length + 1}.${imageExtension(parts.mimeType)}`;
+            const { fileId, uri } = await uploadImage(data, parts.mimeType, name, accessToken);
+            fileIds.push(fileId);
+            uris.set(image.src, uri);
+        }
+    } catch (err) {
+        await removeHostedImages(fileIds, accessToken);
+        throw err;
+    }
+
+    const host = (image: FormImage): FormImage => ({ ...image, src: uris.get(image.src) ?? image.src });
+    const items = form.items.map((item): FormItem => {
+        const next = { ...item };
+        if (item.image) next.image = host(item.image);
+        if (item.optionImages) next.optionImages = item.optionImages.map(o => ({ ...o, image: host(o.image) }));
+        return next;
+    });
+    return { form: { ...form, items }, fileIds };
+};
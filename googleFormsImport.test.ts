@@ -0,0 +1,151 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { ItemType, SUBMIT_FORM } from '../types';
+import type { ApiForm } from './googleFormsApi';
+import { fromGoogleForm } from './googleFormsImport';
+
+// `forms.get` responses, as the API returns them.
+const readForm = (name: string): ApiForm =>
+    JSON.parse(readFileSync(path.resolve(__dirname, 'fixtures/googleForms', `${name}.json`), 'utf8'));
+
+describe('fromGoogleForm', () => {
+    it('maps a graded quiz with sections and branches', () => {
+        const { form, issues } = fromGoogleForm(readForm('quiz'));
+
+        expect(form).toEqual({
+            title: 'Geography quiz',
+            description: 'Ten minutes, no atlas.',
+            items: [
+                { title: 'Your name', type: ItemType.SHORT_ANSWER, required: true },
+                {
+                    title: 'Capital of France',
+                    type: ItemType.SHORT_ANSWER,
+                    description: 'One word.',
+                    required: true,
+                    points: 2,
+                    correctAnswer: 'Paris',
+                    feedback: { general: 'It is Paris.', links: [{ url: 'https://en.wikipedia.org/wiki/Paris', label: 'Paris on Wikipedia' }] },
+                },
+                {
+                    title: 'Which river runs through Paris?',
+                    type: ItemType.MULTIPLE_CHOICE,
+                    options: ['The Seine', 'The Loire', 'The Rhône'],
+                    correctAnswer: 'The Seine',
+                    points: 1,
+                    feedback: { incorrect: 'The Seine rises in Burgundy.' },
+                },
+                {
+                    title: 'Which of these border France?',
+                    type: ItemType.CHECKBOXES,
+                    options: ['Spain', 'Belgium', 'Austria'],
+                    correctAnswer: ['Spain', 'Belgium'],
+                    points: 2,
+                },
+                {
+                    title: 'Take the harder questions?',
+                    type: ItemType.DROPDOWN,
+                    options: ['Yes', 'No'],
+                    branches: [{ option: 'Yes', goTo: '7a8b9c0d' }, { option: 'No', goTo: SUBMIT_FORM }],
+                    required: true,
+                },
+                { title: 'Harder questions', type: ItemType.PAGE_BREAK, description: 'Take your time.', pageId: '7a8b9c0d' },
+                { title: 'About the Alps', type: ItemType.SECTION_HEADER, description: 'The next questions are about the mountains in the south-east.' },
+                { title: 'Why do the Alps matter to France?', type: ItemType.PARAGRAPH, points: 5 },
+            ],
+        });
+        // What the validator repaired is reported against the item's place in the Google Form.
+        expect(issues).toEqual([
+            { itemIndex: 1, title: 'Capital of France', message: 'SHORT_ANSWER questions show the same feedback whatever the answer; kept the incorrect-answer feedback.' },
+            { itemIndex: 2, title: 'Which river runs through Paris?', message: 'Used the general feedback as the incorrect-answer feedback.' },
+        ]);
+    });
+
+    it('reports everything it leaves out or changes, in form order', () => {
+        const { form, issues } = fromGoogleForm(readForm('quirks'));
+
+        expect(form.title).toBe('Course feedback');
+        expect(form.items.map(item => item.type)).toEqual([
+            ItemType.LINEAR_SCALE,
+            ItemType.RATING,
+            ItemType.DATE,
+            ItemType.TIME,
+            ItemType.MULTIPLE_CHOICE_GRID,
+            ItemType.MULTIPLE_CHOICE,
+            ItemType.SHORT_ANSWER,
+        ]);
+        expect(form.items[4]).toMatchObject({ options: ['Useful', 'Not useful'], rows: ['Monday', 'Thursday'], required: true });
+        // The "Other" option and the branch to a section that does not exist are gone.
+        expect(form.items[5]).toMatchObject({ options: ['Mountains', 'Cities'] });
+        expect(form.items[5].branches).toBeUndefined();
+        expect(form.items[6].correctAnswer).toBe('Lyon');
+
+        expect(issues.map(({ itemIndex, message }) => [itemIndex, message])).toEqual([
+            [2, 'The date will be asked with a year.'],
+            [4, 'Only some rows were required; the whole grid is now required.'],
+            [4, 'Shuffling the rows was left out.'],
+            [5, 'The "Other" option was left out.'],
+            [5, 'Options that restart the form now continue to the next page.'],
+            [5, 'Correct answer "Rivers" is not one of the options.'],
+            [5, 'Question has a correct answer but no points, so it will not be graded.'],
+            [5, 'Removed the branch for "Mountains": there is no page "00000000".'],
+            [6, 'A video in the feedback was left out.'],
+            [6, 'Only the first of 2 accepted answers was kept.'],
+            [6, 'Question has a correct answer but no points, so it will not be graded.'],
+            [7, 'File upload questions are not supported yet and were left out.'],
+            [8, 'Videos are not supported yet and were left out.'],
+        ]);
+    });
+
+    it("links pictures to Google's copies and says so", () => {
+        const { form, issues } = fromGoogleForm(readForm('pictures'));
+
+        expect(form.items).toEqual([
+            {
+                title: 'Europe',
+                type: ItemType.SECTION_HEADER,
+                description: 'Flags of the European Union.',
+                image: { src: 'https://lh7-rt.googleusercontent.com/formsz/europe-map', alt: 'A map of Europe' },
+            },
+            {
+                title: 'Whose flag is this?',
+                type: ItemType.MULTIPLE_CHOICE,
+                options: ['Italy', 'Ireland'],
+                image: { src: 'https://lh7-rt.googleusercontent.com/formsz/flag-of-ireland' },
+            },
+            {
+                title: 'Which flags have a cross?',
+                type: ItemType.CHECKBOXES,
+                options: ['Sweden', 'France', 'Denmark'],
+                optionImages: [
+                    { option: 'Sweden', image: { src: 'https://lh7-rt.googleusercontent.com/formsz/flag-of-sweden', alt: 'Flag of Sweden' } },
+                    { option: 'France', image: { src: 'https://lh7-rt.googleusercontent.com/formsz/flag-of-france' } },
+                ],
+            },
+        ]);
+        const linked = "Pictures link to Google's copy, which stops working after a while; replace them to keep them.";
+        expect(issues.map(({ itemIndex, message }) => [itemIndex, message])).toEqual([
+            [0, linked],
+            [1, linked],
+            [2, linked],
+            [3, 'Image choice questions are not supported yet and were left out.'],
+        ]);
+    });
+
+    it('leaves out a picture without a link', () => {
+        const { form, issues } = fromGoogleForm({ formId: 'broken', info: { title: 'Broken' }, items: [{ title: 'Map', imageItem: { image: {} } }] });
+
+        expect(form.items).toEqual([]);
+        expect(issues).toEqual([
+            { itemIndex: null, title: 'Broken', message: 'Form has no items.' },
+            { itemIndex: 0, title: 'Map', message: 'A picture had no link to it and was left out.' },
+        ]);
+    });
+
+    it('reports problems with the form itself first', () => {
+        const { form, issues } = fromGoogleForm({ formId: 'empty', info: {} });
+
+        expect(form).toMatchObject({ title: 'Untitled form', items: [] });
+        expect(issues).toEqual([{ itemIndex: null, title: 'Untitled form', message: 'Form has no items.' }]);
+    });
+});
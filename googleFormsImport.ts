@@ -0,0 +1,222 @@
+import type { FeedbackLink, Form, FormImage, FormItem, ItemFeedback, OptionBranch, OptionImage } from '../types';
+import { ItemType, SUBMIT_FORM } from '../types';
+import type { ApiFeedback, ApiForm, ApiGrading, ApiImage, ApiItem, ApiQuestion } from './googleFormsApi';
+import { validateForm } from './formValidator';
+
+/** Something in the Google Form that could not be imported exactly. */
+export interface ImportIssue {
+    /** The item's position in the Google Form, or `null` for the form as a whole. */
+    itemIndex: number | null;
+    title: string;
+    message: string;
+}
+
+export interface ImportedForm {
+    form: Form;
+    issues: ImportIssue[];
+}
+
+const CHOICE_TYPES: Record<NonNullable<ApiQuestion['choiceQuestion']>['type'], ItemType> = {
+    RADIO: ItemType.MULTIPLE_CHOICE,
+    CHECKBOX: ItemType.CHECKBOXES,
+    DROP_DOWN: ItemType.DROPDOWN,
+};
+
+// Question kinds the Form model has no equivalent for, by the API field that marks them.
+const UNSUPPORTED_QUESTIONS: [keyof ApiQuestion, string][] = [
+    ['fileUploadQuestion', 'File upload questions'],
+    ['rowQuestion', 'Grid rows'],
+];
+
+const UNSUPPORTED_ITEMS: [keyof ApiItem, string][] = [
+    ['questionGroupItem', 'Image choice questions'],
+    ['videoItem', 'Videos'],
+];
+
+const LINKED_PICTURES = "Pictures link to Google's copy, which stops working after a while; replace them to keep them.";
+
+/** Google's copy of a picture, the only link to it that `forms.get` returns. */
+const imageFrom = (image: ApiImage | undefined, report: (message: string) => void): FormImage | undefined => {
+    if (!image) return undefined;
+    if (!image.contentUri) {
+        report('A picture had no link to it and was left out.');
+        return undefined;
+    }
+    return image.altText ? { src: image.contentUri, alt: image.altText } : { src: image.contentUri };
+};
+
+const feedbackFrom = (grading: ApiGrading, report: (message: string) => void): ItemFeedback | undefined => {
+    const links: FeedbackLink[] = [];
+    const textOf = (source?: ApiFeedback) => {
+        for (const { link } of source?.material || []) {
+            if (!link) {
+                report('A video in the feedback was left out.');
+            } else if (!links.some(l => l.url === link.uri)) {
+                links.push(link.displayText && link.displayText !== link.uri ? { url: link.uri, label: link.displayText } : { url: link.uri });
+            }
+        }
+        return source?.text || undefined;
+    };
+    const feedback: ItemFeedback = {
+        correct: textOf(grading.whenRight),
+        incorrect: textOf(grading.whenWrong),
+        general: textOf(grading.generalFeedback),
+        links: links.length > 0 ? links : undefined,
+    };
+    return Object.values(feedback).some(value => value !== undefined) ? feedback : undefined;
+};
+
+const gridToItem = (apiItem: ApiItem, report: (message: string) => void): FormItem | null => {
+    const group = apiItem.questionGroupItem;
+    if (!group?.grid) return null;
+    const questions = group.questions || [];
+    const required = questions.filter(q => q.required).length;
+    if (required > 0 && required < questions.length) report('Only some rows were required; the whole grid is now required.');
+    if (group.grid.shuffleQuestions) report('Shuffling the rows was left out.');
+    return {
+        title: apiItem.title || '',
+        type: group.grid.columns.type === 'CHECKBOX' ? ItemType.CHECKBOX_GRID : ItemType.MULTIPLE_CHOICE_GRID,
+        ...(apiItem.description ? { description: apiItem.description } : {}),
+        options: (group.grid.columns.options || []).filter(o => o.value !== undefined).map(o => o.value!),
+        rows: questions.map(q => q.rowQuestion?.title || ''),
+        ...(required > 0 ? { required: true } : {}),
+    };
+};
+
+const questionToItem = (apiItem: ApiItem, question: ApiQuestion, report: (message: string) => void): FormItem | null => {
+    const unsupported = UNSUPPORTED_QUESTIONS.find(([field]) => question[field]);
+    if (unsupported) {
+        report(`${unsupported[1]} are not supported yet and were left out.`);
+        return null;
+    }
+
+    const item: FormItem = { title: apiItem.title || '', type: ItemType.SHORT_ANSWER };
+    if (apiItem.description) item.description = apiItem.description;
+    if (question.required) item.required = true;
+    const image = imageFrom(apiItem.questionItem?.image, report);
+    if (image) item.image = image;
+    const optionImages: OptionImage[] = [];
+    for (const o of question.choiceQuestion?.options || []) {
+        const optionImage = o.isOther || o.value === undefined ? undefined : imageFrom(o.image, report);
+        if (optionImage) optionImages.push({ option: o.value!, image: optionImage });
+    }
+    if (image || optionImages.length > 0) report(LINKED_PICTURES);
+
+    const answers = (question.grading?.correctAnswers?.answers || []).map(a => a.value);
+    if (question.grading?.pointValue) item.points = question.grading.pointValue;
+    const feedback = question.grading && feedbackFrom(question.grading, report);
+    if (feedback) item.feedback = feedback;
+
+    if (question.scaleQuestion) {
+        const { low, high, lowLabel, highLabel } = question.scaleQuestion;
+        return { ...item, type: ItemType.LINEAR_SCALE, low, high, lowLabel, highLabel };
+    }
+    if (question.ratingQuestion) {
+        return { ...item, type: ItemType.RATING, high: question.ratingQuestion.ratingScaleLevel, ratingIcon: question.ratingQuestion.iconType };
+    }
+    if (question.dateQuestion) {
+        if (question.dateQuestion.includeYear === false) report('The date will be asked with a year.');
+        return { ...item, type: ItemType.DATE, includeTime: question.dateQuestion.includeTime };
+    }
+    if (question.timeQuestion) {
+        return { ...item, type: ItemType.TIME, duration: question.timeQuestion.duration };
+    }
+    if (question.choiceQuestion) {
+        item.type = CHOICE_TYPES[question.choiceQuestion.type] ?? ItemType.MULTIPLE_CHOICE;
+        const options = question.choiceQuestion.options || [];
+        if (options.some(o => o.isOther)) report('The "Other" option was left out.');
+        if (options.some(o => o.goToAction === 'RESTART_FORM')) report('Options that restart the form now continue to the next page.');
+        const branches: OptionBranch[] = [];
+        options.forEach(o => {
+            if (o.isOther || o.value === undefined) return;
+            if (o.goToSectionId) branches.push({ option: o.value, goTo: o.goToSectionId });
+            else if (o.goToAction === 'SUBMIT_FORM') branches.push({ option: o.value, goTo: SUBMIT_FORM });
+        });
+        if (branches.length > 0) item.branches = branches;
+        item.options = options.filter(o => !o.isOther && o.value !== undefined).map(o => o.value!);
+        if (optionImages.length > 0) item.optionImages = optionImages;
+        if (answers.length > 0) item.correctAnswer = item.type === ItemType.CHECKBOXES ? answers : answers[0];
+        return item;
+    }
+
+    if (question.textQuestion?.paragraph) {
+        item.type = ItemType.PARAGRAPH;
+        return item;
+    }
+    if (answers.length > 1) report(`Only the first of ${answers.length} accepted answers was kept.`);
+    if (answers.length > 0) item.correctAnswer = answers[0];
+    return item;
+};
+
+/**
+ * Maps a Forms API form (the `forms.get` response) to the app's Form model. Items with no
+ * equivalent are left out and listed in `issues`; the result is passed through `validateForm`,
+ * and what it repaired or found wrong is listed too.
+ */
+export const fromGoogleForm = (apiForm: ApiForm): ImportedForm => {
+    const issues: ImportIssue[] = [];
+    const items: FormItem[] = [];
+    // The Google Form position of each imported item, to report the validator's findings against.
+    const positions: number[] = [];
+
+    (apiForm.items || []).forEach((apiItem, itemIndex) => {
+        const title = apiItem.title || `Item ${itemIndex + 1}`;
+        const report = (message: string) => issues.push({ itemIndex, title, message });
+
+        if (apiItem.questionItem) {
+            const item = questionToItem(apiItem, apiItem.questionItem.question, report);
+            if (item) {
+                items.push(item);
+                positions.push(itemIndex);
+            }
+            return;
+        }
+        if (apiItem.textItem || apiItem.pageBreakItem) {
+            items.push({
+                title: apiItem.title || '',
+                type: apiItem.pageBreakItem ? ItemType.PAGE_BREAK : ItemType.SECTION_HEADER,
+                ...(apiItem.description ? { description: apiItem.description } : {}),
+                // Branches name the section by its item ID; the validator keeps it as the page ID.
+                ...(apiItem.pageBreakItem && apiItem.itemId ? { pageId: apiItem.itemId } : {}),
+            });
+            positions.push(itemIndex);
+            return;
+        }
+        if (apiItem.imageItem) {
+            // The app keeps a picture on its own as a section header with an image, as it publishes one.
+            const image = imageFrom(apiItem.imageItem.image, report);
+            if (!image) return;
+            items.push({
+                title: apiItem.title || '',
+                type: ItemType.SECTION_HEADER,
+                ...(apiItem.description ? { description: apiItem.description } : {}),
+                image,
+            });
+            positions.push(itemIndex);
+            report(LINKED_PICTURES);
+            return;
+        }
+        const grid = gridToItem(apiItem, report);
+        if (grid) {
+            items.push(grid);
+            positions.push(itemIndex);
+            return;
+        }
+        const unsupported = UNSUPPORTED_ITEMS.find(([field]) => apiItem[field]);
+        report(`${unsupported ? unsupported[1] : 'Items of this kind'} are not supported yet and were left out.`);
+    });
+
+    const { form, diagnostics } = validateForm({
+        title: apiForm.info.title || apiForm.info.documentTitle || 'Untitled form',
+        description: apiForm.info.description || '',
+        items,
+    });
+    for (const diagnostic of diagnostics) {
+        const itemIndex = diagnostic.itemIndex === null ? null : positions[diagnostic.itemIndex];
+        const title = itemIndex === null ? form.title : apiForm.items![itemIndex].title || `Item ${itemIndex + 1}`;
+        issues.push({ itemIndex, title, message: diagnostic.message });
+    }
+    // In form order, with the form's own issues first.
+    issues.sort((a, b) => (a.itemIndex ?? -1) - (b.itemIndex ?? -1));
+    return { form, issues };
+};
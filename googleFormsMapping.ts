@@ -0,0 +1,143 @@
+import type { FeedbackLink, FormImage, FormItem } from '../types';
+import { ItemType, SUBMIT_FORM } from '../types';
+import type { ApiChoiceQuestion, ApiFeedback, ApiGrading, ApiImage, ApiItem, ApiQuestion } from './googleFormsApi';
+import { scaleBounds } from './formValidator';
+
+const CHOICE_TYPES: Partial<Record<ItemType, ApiChoiceQuestion['type']>> = {
+    [ItemType.MULTIPLE_CHOICE]: 'RADIO',
+    [ItemType.CHECKBOXES]: 'CHECKBOX',
+    [ItemType.DROPDOWN]: 'DROP_DOWN',
+    [ItemType.MULTIPLE_CHOICE_GRID]: 'RADIO',
+    [ItemType.CHECKBOX_GRID]: 'CHECKBOX',
+};
+
+const toApiFeedback = (text: string, links: FeedbackLink[] = []): ApiFeedback => ({
+    text,
+    ...(links.length > 0 ? { material: links.map(link => ({ link: { uri: link.url, displayText: link.label || link.url } })) } : {}),
+});
+
+/** Answer feedback for the item's grading; choice questions get it by result, text questions in general. */
+const feedbackGrading = (item: FormItem): ApiGrading => {
+    const { correct, incorrect, general, links } = item.feedback || {};
+    const grading: ApiGrading = {};
+    if (correct) grading.whenRight = toApiFeedback(correct);
+    if (incorrect) grading.whenWrong = toApiFeedback(incorrect, links);
+    if (general) grading.generalFeedback = toApiFeedback(general, links);
+    return grading;
+};
+
+/** The picture as the API takes it. Its `src` must be a web address by now (see `googleFormsImages`). */
+const toApiImage = (image: FormImage): ApiImage => (image.alt ? { sourceUri: image.src, altText: image.alt } : { sourceUri: image.src });
+
+/** The choice options, with their pictures and each branch as a go-to-section action. */
+const toApiOptions = (item: FormItem): ApiChoiceQuestion['options'] => (item.options || []).map(value => {
+    const image = item.optionImages?.find(o => o.option === value)?.image;
+    const option = image ? { value, image: toApiImage(image) } : { value };
+    const branch = item.branches?.find(b => b.option === value);
+    if (!branch) return option;
+    return branch.goTo === SUBMIT_FORM ? { ...option, goToAction: 'SUBMIT_FORM' } : { ...option, goToSectionId: branch.goTo };
+});
+
+/** Whether the item's options go to other sections, which must exist before the item can be created. */
+export const hasNavigation = (item: ApiItem) =>
+    !!item.questionItem?.question.choiceQuestion?.options.some(o => o.goToAction || o.goToSectionId);
+
+/** A copy of the item without go-to-section actions, to create before the sections it refers to exist. */
+export const withoutNavigation = (item: ApiItem): ApiItem => {
+    const choice = item.questionItem?.question.choiceQuestion;
+    if (!item.questionItem || !choice) return item;
+    const options = choice.options.map(({ goToAction, goToSectionId, ...option }) => option);
+    return { ...item, questionItem: { ...item.questionItem, question: { ...item.questionItem.question, choiceQuestion: { ...choice, options } } } };
+};
+
+/**
+ * Maps one item to a Forms API item (without an ID), or null if the API has no equivalent. A
+ * section header with a picture becomes an image item, titled and described as the header was.
+ */
+export const toApiItem = (item: FormItem): ApiItem | null => {
+    const mapped = toApiItemWithoutImage(item);
+    if (!mapped || !item.image) return mapped;
+    const image = toApiImage(item.image);
+    if (mapped.textItem) return { title: mapped.title, description: mapped.description, imageItem: { image } };
+    if (mapped.questionItem) return { ...mapped, questionItem: { ...mapped.questionItem, image } };
+    if (mapped.questionGroupItem) return { ...mapped, questionGroupItem: { ...mapped.questionGroupItem, image } };
+    return mapped;
+};
+
+const toApiItemWithoutImage = (item: FormItem): ApiItem | null => {
+    if (item.type === ItemType.SECTION_HEADER) {
+        return { title: item.title, description: item.description, textItem: {} };
+    }
+    if (item.type === ItemType.PAGE_BREAK) {
+        // The page ID becomes the item ID, so branches can name the section before it is read back.
+        return { itemId: item.pageId, title: item.title, description: item.description, pageBreakItem: {} };
+    }
+
+    const question: ApiQuestion = {};
+    if (item.required) {
+        question.required = true;
+    }
+
+    switch (item.type) {
+        case ItemType.SHORT_ANSWER:
+            question.textQuestion = { paragraph: false };
+            break;
+        case ItemType.PARAGRAPH:
+            // Paragraphs are marked by hand, so their grading carries points and feedback but no answer
+            question.textQuestion = { paragraph: true };
+            if (item.points || item.feedback?.general) {
+                question.grading = { pointValue: item.points || 0, ...feedbackGrading(item) };
+            }
+            return { title: item.title, questionItem: { question } };
+        case ItemType.MULTIPLE_CHOICE:
+        case ItemType.CHECKBOXES:
+        case ItemType.DROPDOWN:
+            question.choiceQuestion = {
+                type: CHOICE_TYPES[item.type]!,
+                options: toApiOptions(item),
+            };
+            break;
+        // The survey types below are never graded.
+        case ItemType.MULTIPLE_CHOICE_GRID:
+        case ItemType.CHECKBOX_GRID:
+            return {
+                title: item.title,
+                questionGroupItem: {
+                    questions: (item.rows || []).map(row => ({ ...question, rowQuestion: { title: row } })),
+                    grid: { columns: { type: CHOICE_TYPES[item.type]!, options: item.options?.map(opt => ({ value: opt })) || [] } },
+                },
+            };
+        case ItemType.LINEAR_SCALE: {
+            const { low, high } = scaleBounds(item);
+            question.scaleQuestion = { low, high };
+            if (item.lowLabel) question.scaleQuestion.lowLabel = item.lowLabel;
+            if (item.highLabel) question.scaleQuestion.highLabel = item.highLabel;
+            return { title: item.title, questionItem: { question } };
+        }
+        case ItemType.DATE:
+            question.dateQuestion = { includeTime: !!item.includeTime, includeYear: true };
+            return { title: item.title, questionItem: { question } };
+        case ItemType.TIME:
+            question.timeQuestion = { duration: !!item.duration };
+            return { title: item.title, questionItem: { question } };
+        case ItemType.RATING:
+            question.ratingQuestion = { ratingScaleLevel: scaleBounds(item).high, iconType: item.ratingIcon || 'STAR' };
+            return { title: item.title, questionItem: { question } };
+        default:
+            return null;
+    }
+
+    if (item.points && item.points > 0 && item.correctAnswer) {
+        const answers = Array.isArray(item.correctAnswer) ? item.correctAnswer : [item.correctAnswer];
+        question.grading = {
+            pointValue: item.points,
+            correctAnswers: { answers: answers.map(value => ({ value })) },
+            ...feedbackGrading(item),
+        };
+    } else if (item.type === ItemType.SHORT_ANSWER && item.feedback?.general) {
+        // Without an answer key the question is graded by hand, which general feedback also suits.
+        question.grading = { pointValue: item.points || 0, ...feedbackGrading(item) };
+    }
+
+    return { title: item.title, questionItem: { question } };
+};
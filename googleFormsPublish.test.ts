@@ -0,0 +1,142 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import type { Form } from '../types';
+import { ItemType } from '../types';
+import { dataUrlBytes } from './formImages';
+import { PIXEL } from './testForms';
+import { startMockGoogleApi } from './testGoogleApi';
+import type { MockGoogleApi } from './testGoogleApi';
+
+// The API module reads its URLs when it loads, so it is imported once the mock is listening.
+let api: MockGoogleApi;
+let publish: typeof import('./googleFormsPublish');
+
+beforeAll(async () => {
+    api = await startMockGoogleApi();
+    process.env.GOOGLE_FORMS_API_URL = api.urls.forms;
+    process.env.GOOGLE_DRIVE_API_URL = api.urls.drive;
+    process.env.GOOGLE_DRIVE_UPLOAD_URL = api.urls.upload;
+    publish = await import('./googleFormsPublish');
+});
+
+afterAll(() => api.close());
+
+beforeEach(() => {
+    api.calls.length = 0;
+});
+
+const TOKEN = 'test-token';
+
+const questions = (count: number): Form => ({
+    title: `${count} questions`,
+    description: 'Numbered questions.',
+    items: Array.from({ length: count }, (_, i) => ({ title: `Question ${i + 1}`, type: ItemType.SHORT_ANSWER, correctAnswer: String(i + 1), points: 1 })),
+});
+
+const titlesOf = (formId: string) => api.forms.get(formId)!.items.map(item => item.title);
+const callCount = (pattern: RegExp) => api.calls.filter(call => pattern.test(call)).length;
+const BATCH = /:batchUpdate$/;
+
+describe('publishing a new form', () => {
+    it('adds more than 40 items in batches, in order', async () => {
+        const progress: number[] = [];
+        const job = await publish.startPublish(questions(90), TOKEN);
+        expect(job.batches.length).toBe(3);
+
+        const done = await publish.runPublish(job, TOKEN, batch => progress.push(batch));
+        expect(progress).toEqual([1, 2, 3]);
+        expect(done.nextBatch).toBe(3);
+        expect(titlesOf(done.formId)).toEqual(questions(90).items.map(item => item.title));
+        expect(api.forms.get(done.formId)!.isQuiz).toBe(true);
+        expect(callCount(BATCH)).toBe(3);
+    });
+
+    it('retries a batch after rate limiting and server errors', async () => {
+        const job = await publish.startPublish(questions(10), TOKEN);
+        api.fail(BATCH, { status: 429 }, { status: 503 });
+
+        const done = await publish.runPublish(job, TOKEN);
+        expect(titlesOf(done.formId)).toHaveLength(10);
+        expect(callCount(BATCH)).toBe(3);
+    });
+
+    it('does not send forms.create again after a server error, which could make a second form', async () => {
+        const formCount = api.forms.size;
+        api.fail(/^POST \/v1\/forms$/, { status: 503 });
+
+        await expect(publish.startPublish(questions(3), TOKEN)).rejects.toThrow('Mock failure 503.');
+        expect(callCount(/^POST \/v1\/forms$/)).toBe(1);
+        expect(api.forms.size).toBe(formCount);
+    });
+
+    it('retries forms.create after rate limiting, which Google did nothing with', async () => {
+        api.fail(/^POST \/v1\/forms$/, { status: 429 });
+        await publish.startPublish(questions(3), TOKEN);
+        expect(callCount(/^POST \/v1\/forms$/)).toBe(2);
+    });
+
+    it('counts the items when a retried batch meets a revision mismatch because its response was lost', async () => {
+        const job = await publish.startPublish(questions(60), TOKEN);
+        api.fail(BATCH, { pass: true }, { lostResponse: true });
+
+        const done = await publish.runPublish(job, TOKEN);
+        // The second batch went through once: its retry was refused, and the item count confirmed it.
+        expect(titlesOf(done.formId)).toEqual(questions(60).items.map(item => item.title));
+        expect(callCount(BATCH)).toBe(3);
+        expect(callCount(/^GET \/v1\/forms\//)).toBe(1);
+    });
+
+    it('stops when someone else changed the form, as the item count is then off', async () => {
+        const job = await publish.startPublish(questions(60), TOKEN);
+        api.fail(BATCH, { pass: true }, { concurrentEdit: true });
+
+        const error = await publish.runPublish(job, TOKEN).catch(err => err);
+        expect(error).toBeInstanceOf(publish.PublishError);
+        expect(error.message).toBe('The form was changed in Google Forms while it was being created.');
+        expect(error.job.nextBatch).toBe(1);
+    });
+
+    it('resumes from the batch that failed', async () => {
+        const form = questions(60);
+        const job = await publish.startPublish(form, TOKEN);
+        api.fail(BATCH, { pass: true }, { status: 400, message: 'Invalid request.' });
+
+        const error = await publish.runPublish(job, TOKEN).catch(err => err);
+        expect(error).toBeInstanceOf(publish.PublishError);
+        expect(error.job.nextBatch).toBe(1);
+        expect(publish.pendingItems(error.job).map(item => item.title)).toEqual(form.items.slice(38).map(item => item.title));
+
+        const done = await publish.runPublish(error.job, TOKEN);
+        expect(titlesOf(done.formId)).toEqual(form.items.map(item => item.title));
+    });
+});
+
+describe('pictures and rollback', () => {
+    const withPicture: Form = {
+        title: 'A picture',
+        description: '',
+        items: [{ title: 'What is this?', type: ItemType.SHORT_ANSWER, image: PIXEL }],
+    };
+
+    it('uploads pictures for Google to copy and trashes them once the form is written', async () => {
+        const job = await publish.startPublish(withPicture, TOKEN);
+        expect(job.imageFiles).toHaveLength(1);
+        const [fileId] = job.imageFiles;
+        expect(api.uploads.get(fileId)).toEqual({ mimeType: 'image/png', size: dataUrlBytes(PIXEL.src)!.length });
+
+        const done = await publish.runPublish(job, TOKEN);
+        expect(api.forms.get(done.formId)!.items[0].questionItem?.image?.sourceUri).toContain(fileId);
+        expect(api.trashed.has(fileId)).toBe(true);
+        expect(done.imageFiles).toEqual([]);
+    });
+
+    it('trashes the incomplete form and its pictures when the job is discarded', async () => {
+        const job = await publish.startPublish(withPicture, TOKEN);
+        api.fail(BATCH, { status: 400, message: 'Invalid request.' });
+        const error = await publish.runPublish(job, TOKEN).catch(err => err);
+        expect(error).toBeInstanceOf(publish.PublishError);
+
+        await publish.discardPublish(error.job, TOKEN);
+        expect(api.trashed.has(job.formId)).toBe(true);
+        expect(api.trashed.has(job.imageFiles[0])).toBe(true);
+    });
+});
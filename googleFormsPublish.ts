@@ -0,0 +1,168 @@
+import type { Form } from '../types';
+import type { ApiItem } from './googleFormsApi';
+import { batchUpdate, createEmptyForm, getForm, GoogleApiError, trashFile } from './googleFormsApi';
+import { hostFormImages, removeHostedImages } from './googleFormsImages';
+import { hasNavigation, toApiItem, withoutNavigation } from './googleFormsMapping';
+
+/** A form item that did not make it into the Google Form, by its index in the local form. */
+export interface PublishItemReport {
+    itemIndex: number;
+    title: string;
+    reason: string;
+}
+
+interface PublishBatch {
+    requests: object[];
+    itemIndices: number[];
+    /** How many items the Google Form has once this batch is applied. */
+    itemCountAfter: number;
+}
+
+/** A form being published. Batches before `nextBatch` are applied; a failed job can be resumed. */
+export interface PublishJob {
+    formId: string;
+    responderUri?: string;
+    revisionId?: string;
+    batches: PublishBatch[];
+    nextBatch: number;
+    skipped: PublishItemReport[];
+    titles: string[];
+    /** Pictures uploaded to Drive for Google to copy, trashed once every batch is applied. */
+    imageFiles: string[];
+}
+
+export class PublishError extends Error {
+    constructor(message: string, public readonly job: PublishJob) {
+        super(message);
+        this.name = 'PublishError';
+    }
+}
+
+// Keep each batchUpdate comfortably under the API's request size limits.
+const MAX_BATCH_REQUESTS = 40;
+const MAX_BATCH_BYTES = 200_000;
+
+/**
+ * Splits the form into batches of `createItem` requests at explicit ascending indices. Items the
+ * API can't represent are reported as skipped instead of silently disappearing. Options that go
+ * to another section are added by `updateItem` requests at the end, once every section exists.
+ */
+const planBatches = (form: Form) => {
+    const skipped: PublishItemReport[] = [];
+    const batches: PublishBatch[] = [];
+    let current: PublishBatch = {
+        requests: [
+            { updateSettings: { settings: { quizSettings: { isQuiz: true } }, updateMask: 'quizSettings.isQuiz' } },
+            { updateFormInfo: { info: { description: form.description }, updateMask: 'description' } },
+        ],
+        itemIndices: [],
+        itemCountAfter: 0,
+    };
+    let bytes = JSON.stringify(current.requests).length;
+    let index = 0;
+    const navigation: object[] = [];
+
+    const add = (request: object, itemIndex?: number) => {
+        const size = JSON.stringify(request).length;
+        if (current.requests.length > 0 && (current.requests.length >= MAX_BATCH_REQUESTS || bytes + size > MAX_BATCH_BYTES)) {
+            batches.push(current);
+            current = { requests: [], itemIndices: [], itemCountAfter: index };
+            bytes = 0;
+        }
+        current.requests.push(request);
+        if (itemIndex !== undefined) {
+            current.itemIndices.push(itemIndex);
+            current.itemCountAfter = ++index;
+        }
+        bytes += size;
+    };
+
+    form.items.forEach((item, itemIndex) => {
+        const apiItem: ApiItem | null = toApiItem(item);
+        if (!apiItem) {
+            skipped.push({ itemIndex, title: item.title, reason: `Google Forms has no equivalent for ${item.type} items.` });
+            return;
+        }
+        if (hasNavigation(apiItem)) {
+            navigation.push({ updateItem: { item: apiItem, location: { index }, updateMask: 'questionItem.question.choiceQuestion.options' } });
+        }
+        add({ createItem: { item: withoutNavigation(apiItem), location: { index } } }, itemIndex);
+    });
+    navigation.forEach(request => add(request));
+    batches.push(current);
+
+    return { batches, skipped };
+};
+
+/** Uploads the form's pictures, creates the empty Google Form and plans the batches that fill it. */
+export const startPublish = async (form: Form, accessToken: string): Promise<PublishJob> => {
+    const hosted = await hostFormImages(form, accessToken);
+    let created;
+    try {
+        created = await createEmptyForm(form.title, accessToken);
+    } catch (err) {
+        await removeHostedImages(hosted.fileIds, accessToken);
+        throw err;
+    }
+    const { batches, skipped } = planBatches(hosted.form);
+    return {
+        formId: created.formId,
+        responderUri: created.responderUri,
+        revisionId: created.revisionId,
+        batches,
+        nextBatch: 0,
+        skipped,
+        titles: form.items.map(item => item.title),
+        imageFiles: hosted.fileIds,
+    };
+};
+
+/**
+ * Applies the job's remaining batches in order. Each batch is pinned to the revision the
+ * previous one produced, so a batch that is retried after it had in fact been applied fails
+ * instead of adding its items twice; the item count then tells whether it went through.
+ * On failure, throws a `PublishError` whose job can be passed back in to resume.
+ */
+export const runPublish = async (
+    job: PublishJob,
+    accessToken: string,
+    onProgress?: (batch: number, batchCount: number) => void,
+): Promise<PublishJob> => {
+    let state = job;
+    for (let i = state.nextBatch; i < state.batches.length; i++) {
+        onProgress?.(i + 1, state.batches.length);
+        const batch = state.batches[i];
+        let revisionId: string | undefined;
+        try {
+            revisionId = await batchUpdate(state.formId, accessToken, batch.requests, state.revisionId);
+        } catch (err) {
+            if (!(err instanceof GoogleApiError && err.isRevisionMismatch)) {
+                throw new PublishError(err instanceof Error ? err.message : 'Failed to add the questions.', state);
+            }
+            // Batches that only add navigation leave the count unchanged, so for them this
+            // assumes the mismatch came from our own retried request.
+            const remote = await getForm(state.formId, accessToken).catch(() => null);
+            if ((remote?.items || []).length !== batch.itemCountAfter) {
+                throw new PublishError('The form was changed in Google Forms while it was being created.', state);
+            }
+            revisionId = remote?.revisionId;
+        }
+        state = { ...state, revisionId, nextBatch: i + 1 };
+    }
+    await removeHostedImages(state.imageFiles, accessToken);
+    return { ...state, imageFiles: [] };
+};
+
+/** Trashes the Google Form of a job that won't be finished, and the pictures uploaded for it. */
+export const discardPublish = async (job: PublishJob, accessToken: string): Promise<void> => {
+    await trashFile(job.formId, accessToken);
+    await removeHostedImages(job.imageFiles, accessToken);
+};
+
+/** Every item that is not in the Google Form yet because its batch failed or never ran. */
+export const pendingItems = (job: PublishJob): PublishItemReport[] =>
+    job.batches.slice(job.nextBatch).flatMap(batch => batch.itemIndices.map(itemIndex => ({
+        itemIndex,
+        title: job.titles[itemIndex],
+        reason: 'Not added yet.',
+    })));
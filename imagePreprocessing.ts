@@ -0,0 +1,236 @@
+/*
+ * Prepares photographed or scanned pages for OCR: the camera's orientation is applied, pages
+ * photographed sideways are turned upright, a slight tilt is straightened, and the page is
+ * turned to grey with its contrast stretched so faint print reads clearly.
+ */
+
+const IMAGE_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    webp: 'image/webp',
+    heic: 'image/heic',
+    heif: 'image/heif',
+};
+
+export const IMAGE_ACCEPT = [...Object.keys(IMAGE_TYPES).map(ext => `.${ext}`), ...new Set(Object.values(IMAGE_TYPES))].join(',');
+
+/** The MIME type of an image file the OCR accepts, or null if it isn't one. */
+export const imageMimeType = (file: File): string | null => {
+    if (Object.values(IMAGE_TYPES).includes(file.type)) return file.type;
+    return IMAGE_TYPES[file.name.split('.').pop()?.toLowerCase() || ''] || null;
+};
+
+/** Orders photos as they were taken or numbered, e.g. IMG_2 before IMG_10. */
+export const comparePageFiles = (a: File, b: File) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' });
+
+/** A single-channel image: one luminance byte per pixel. */
+export interface GrayImage {
+    width: number;
+    height: number;
+    data: Uint8Array;
+}
+
+const MAX_SIDE = 2000;
+const ANALYSIS_WIDTH = 600;
+const MAX_SKEW = 15;
+const MAX_SAMPLES = 30000;
+
+export const toGray = (rgba: Uint8ClampedArray, width: number, height: number): GrayImage => {
+    const data = new Uint8Array(width * height);
+    for (let i = 0; i < data.length; i++) {
+        data[i] = Math.round(rgba[i * 4] * 0.299 + rgba[i * 4 + 1] * 0.587 + rgba[i * 4 + 2] * 0.114);
+    }
+    return { width, height, data };
+};
+
+const downsample = (image: GrayImage, maxWidth: number): GrayImage => {
+    const scale = Math.min(1, maxWidth / image.width);
+    const width = Math.max(1, Math.round(image.width * scale));
+    const height = Math.max(1, Math.round(image.height * scale));
+    const data = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            data[y * width + x] = image.data[Math.floor(y / scale) * image.width + Math.floor(x / scale)];
+        }
+    }
+    return { width, height, data };
+};
+
+/** The luminance that best separates ink from paper (Otsu's method). */
+const inkThreshold = (image: GrayImage) => {
+    const histogram = new Array(256).fill(0);
+    image.data.forEach(value => histogram[value]++);
+    const total = image.data.length;
+    const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+    let best = 128;
+    let bestVariance = -1;
+    let weight = 0;
+    let weightedSum = 0;
+    for (let t = 0; t < 256; t++) {
+        weight += histogram[t];
+        if (weight === 0 || weight === total) continue;
+        weightedSum += t * histogram[t];
+        const darkMean = weightedSum / weight;
+        const lightMean = (sum - weightedSum) / (total - weight);
+        const variance = weight * (total - weight) * (darkMean - lightMean) ** 2;
+        if (variance > bestVariance) {
+            bestVariance = variance;
+            best = t;
+        }
+    }
+    return best;
+};
+
+/** Up to `MAX_SAMPLES` ink pixels, centred on the image. */
+const inkPixels = (image: GrayImage): [number, number][] => {
+    const threshold = inkThreshold(image);
+    const pixels: [number, number][] = [];
+    for (let y = 0; y < image.height; y++) {
+        for (let x = 0; x < image.width; x++) {
+            if (image.data[y * image.width + x] <= threshold) pixels.push([x - image.width / 2, y - image.height / 2]);
+        }
+    }
+    const step = Math.max(1, Math.ceil(pixels.length / MAX_SAMPLES));
+    return step === 1 ? pixels : pixels.filter((_, i) => i % step === 0);
+};
+
+/**
+ * How sharply the ink falls into lines along the given direction: the histogram of the pixels'
+ * distances across that direction, squared and normalized. Text lines give tall, narrow peaks.
+ */
+const lineScore = (pixels: [number, number][], degrees: number) => {
+    const angle = (degrees * Math.PI) / 180;
+    const sin = Math.sin(angle);
+    const cos = Math.cos(angle);
+    const bins = new Map<number, number>();
+    for (const [x, y] of pixels) {
+        const bin = Math.round(y * cos - x * sin);
+        bins.set(bin, (bins.get(bin) || 0) + 1);
+    }
+    let squares = 0;
+    bins.forEach(count => (squares += count * count));
+    return squares / pixels.length;
+};
+
+export interface PageGeometry {
+    /** Whether the text runs top to bottom, so the page must be turned a quarter. */
+    sideways: boolean;
+    /** The tilt of the text lines in degrees, clockwise; the page is turned back by this much. */
+    skew: number;
+}
+
+/** Finds how the page must be turned for its lines of text to run level. */
+export const analyzePage = (image: GrayImage): PageGeometry => {
+    const pixels = inkPixels(downsample(image, ANALYSIS_WIDTH));
+    if (pixels.length < 100) return { sideways: false, skew: 0 };
+
+    const sideways = lineScore(pixels, 90) > lineScore(pixels, 0) * 1.5;
+    const upright: [number, number][] = sideways ? pixels.map(([x, y]) => [y, -x]) : pixels;
+
+    let skew = 0;
+    let best = -1;
+    const search = (from: number, to: number, step: number) => {
+        for (let degrees = from; degrees <= to + 1e-9; degrees += step) {
+            const score = lineScore(upright, degrees);
+            if (score > best) {
+                best = score;
+                skew = degrees;
+            }
+        }
+    };
+    search(-MAX_SKEW, MAX_SKEW, 0.5);
+    search(skew - 0.5, skew + 0.5, 0.1);
+    return { sideways, skew: Math.round(skew * 10) / 10 };
+};
+
+/** Turns the pixels grey in place, stretching the darkest 1% to black and the lightest 1% to white. */
+export const stretchContrast = (rgba: Uint8ClampedArray) => {
+    const count = rgba.length / 4;
+    const gray = toGray(rgba, count, 1).data;
+    const histogram = new Array(256).fill(0);
+    gray.forEach(value => histogram[value]++);
+    const level = (share: number) => {
+        let seen = 0;
+        for (let value = 0; value < 256; value++) {
+            seen += histogram[value];
+            if (seen >= count * share) return value;
+        }
+        return 255;
+    };
+    const low = level(0.01);
+    const high = Math.max(low + 1, level(0.99));
+    for (let i = 0; i < count; i++) {
+        const value = Math.max(0, Math.min(255, ((gray[i] - low) * 255) / (high - low)));
+        rgba[i * 4] = rgba[i * 4 + 1] = rgba[i * 4 + 2] = value;
+        rgba[i * 4 + 3] = 255;
+    }
+};
+
+export interface PreparedImage {
+    /** Base64 without the data URL prefix, as the OCR expects. */
+    data: string;
+    mimeType: string;
+    /** An object URL of the image as sent; revoke it when done. */
+    previewUrl: string;
+    /** False when the browser can't decode the format (HEIC outside Safari), so the file is sent as it is. */
+    preprocessed: boolean;
+    geometry?: PageGeometry;
+}
+
+export const blobToBase64 = async (blob: Blob) => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary);
+};
+
+const canvasOf = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Could not get canvas context');
+    return { canvas, context };
+};
+
+/**
+ * Prepares one page for OCR. `quarterTurns` turns it further clockwise, for pages the automatic
+ * orientation gets wrong.
+ */
+export const prepareImage = async (file: Blob, mimeType: string, quarterTurns = 0): Promise<PreparedImage> => {
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    } catch {
+        return { data: await blobToBase64(file), mimeType, previewUrl: URL.createObjectURL(file), preprocessed: false };
+    }
+
+    const scale = Math.min(1, MAX_SIDE / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+    const source = canvasOf(width, height);
+    source.context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+    const geometry = analyzePage(toGray(source.context.getImageData(0, 0, width, height).data, width, height));
+
+    // Quarter turns first, then the tilt; a sideways page has its text running down, so it turns back a quarter.
+    const turns = (((quarterTurns - (geometry.sideways ? 1 : 0)) % 4) + 4) % 4;
+    const angle = (turns * 90 - geometry.skew) * (Math.PI / 180);
+    const cos = Math.abs(Math.cos(angle));
+    const sin = Math.abs(Math.sin(angle));
+    const target = canvasOf(Math.round(width * cos + height * sin), Math.round(width * sin + height * cos));
+    target.context.fillStyle = '#fff';
+    target.context.fillRect(0, 0, target.canvas.width, target.canvas.height);
+    target.context.translate(target.canvas.width / 2, target.canvas.height / 2);
+    target.context.rotate(angle);
+    target.context.drawImage(source.canvas, -width / 2, -height / 2);
+
+    const pixels = target.context.getImageData(0, 0, target.canvas.width, target.canvas.height);
+    stretchContrast(pixels.data);
+    target.context.putImageData(pixels, 0, 0);
+
+    const blob = await new Promise<Blob>((resolve, reject) =>
+        target.canvas.toBlob(result => (result ? resolve(result) : reject(new Error('The page could not be prepared.'))), 'image/jpeg', 0.92));
+    return { data: await blobToBase64(blob), mimeType: 'image/jpeg', previewUrl: URL.createObjectURL(blob), preprocessed: true, geometry };
+};
@@ -0,0 +1,103 @@
+import type { JsonSchema } from './formSchema';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createFixtureProvider, withFixtureRecording } from './fixtureProvider';
+
+export type ProviderName = 'gemini' | 'openai-compatible' | 'fixture';
+
+export interface LlmImage {
+    /** Base64-encoded image bytes, without a `data:` prefix. */
+    data: string;
+    mimeType: string;
+}
+
+export interface LlmRequest {
+    prompt: string;
+    images?: LlmImage[];
+    temperature?: number;
+    /** Ask the backend for a JSON-only response where it supports that. */
+    json?: boolean;
+    /** JSON Schema to constrain the response to. Only sent when the provider `supportsSchema`. */
+    schema?: JsonSchema;
+    /** Selects the configured vision model instead of the text model. */
+    vision?: boolean;
+    signal?: AbortSignal;
+}
+
+/** A text-generation backend. Implementations return the raw model text and never parse it. */
+export interface LlmProvider {
+    readonly name: ProviderName;
+    readonly model: string;
+    /** Whether the backend can constrain output to a JSON Schema. */
+    readonly supportsSchema: boolean;
+    generate(request: LlmRequest): Promise<string>;
+    /** Yields the response text in pieces as it is produced. Concatenated, the pieces equal `generate`'s result. */
+    stream(request: LlmRequest): AsyncGenerator<string>;
+}
+
+export interface LlmConfig {
+    provider: ProviderName;
+    model: string;
+    visionModel: string;
+    apiKey?: string;
+    baseUrl?: string;
+    fixturesUrl?: string;
+    /** Keep live responses in memory so they can be saved as fixtures. */
+    recordFixtures: boolean;
+    /** Set to false for OpenAI-compatible servers that reject `response_format: json_schema`. */
+    structuredOutput: boolean;
+}
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+    'gemini': 'gemini-2.5-flash',
+    'openai-compatible': 'llama3.1',
+    'fixture': 'fixture',
+};
+
+const isProviderName = (value: string | undefined): value is ProviderName =>
+    value === 'gemini' || value === 'openai-compatible' || value === 'fixture';
+
+/** Reads the provider settings that `vite.config.ts` injects from the environment. */
+export const getLlmConfig = (): LlmConfig => {
+    const requested = process.env.LLM_PROVIDER?.trim().toLowerCase() || 'gemini';
+    if (!isProviderName(requested)) {
+        throw new Error(`Unknown LLM_PROVIDER "${requested}". Use "gemini", "openai-compatible" or "fixture".`);
+    }
+    const provider = requested;
+    const model = process.env.LLM_MODEL?.trim() || DEFAULT_MODELS[provider];
+    return {
+        provider,
+        model,
+        visionModel: process.env.LLM_VISION_MODEL?.trim() || model,
+        apiKey: (provider === 'gemini' ? process.env.API_KEY : process.env.LLM_API_KEY) || undefined,
+        baseUrl: process.env.LLM_BASE_URL?.trim() || undefined,
+        fixturesUrl: process.env.LLM_FIXTURES_URL?.trim() || undefined,
+        recordFixtures: process.env.LLM_RECORD_FIXTURES === 'true' && provider !== 'fixture',
+        structuredOutput: process.env.LLM_STRUCTURED_OUTPUT !== 'false',
+    };
+};
+
+export const createProvider = (config: LlmConfig): LlmProvider => {
+    switch (config.provider) {
+        case 'gemini':
+            return createGeminiProvider(config);
+        case 'openai-compatible':
+            return createOpenAiCompatibleProvider(config);
+        case 'fixture':
+            return createFixtureProvider(config);
+    }
+};
+
+let provider: LlmProvider | null = null;
+
+/** Returns the configured provider, creating it on first use rather than at module load. */
+export const getProvider = (): LlmProvider => {
+    if (!provider) {
+        const config = getLlmConfig();
+        provider = createProvider(config);
+        if (config.recordFixtures) {
+            provider = withFixtureRecording(provider);
+        }
+    }
+    return provider;
+};
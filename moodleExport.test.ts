@@ -0,0 +1,45 @@
+import { DOMParser } from '@xmldom/xmldom';
+import { describe, expect, it } from 'vitest';
+import { ItemType } from '../types';
+import { moodleSkippedItems, toGift, toMoodleXml } from './moodleExport';
+import { EVERY_ITEM_TYPE } from './testForms';
+
+const SURVEY_TITLES = EVERY_ITEM_TYPE.items
+    .filter(item => [ItemType.LINEAR_SCALE, ItemType.MULTIPLE_CHOICE_GRID, ItemType.CHECKBOX_GRID, ItemType.DATE, ItemType.TIME, ItemType.RATING].includes(item.type))
+    .map(item => item.title);
+
+describe('Moodle exports', () => {
+    it('lists the survey questions they leave out', () => {
+        expect(moodleSkippedItems(EVERY_ITEM_TYPE).map(issue => issue.title)).toEqual(SURVEY_TITLES);
+    });
+
+    it('writes every other item to Moodle XML, with the passage as a gap select', () => {
+        const xml = new DOMParser({ onError: (level, message) => { if (level !== 'warning') throw new Error(message); } })
+            .parseFromString(toMoodleXml(EVERY_ITEM_TYPE), 'text/xml');
+        const types = Array.from(xml.getElementsByTagName('question'), question => question.getAttribute('type'));
+        expect(types).toEqual(['category', 'shortanswer', 'essay', 'multichoice', 'multichoice', 'gapselect', 'description', 'description']);
+    });
+
+    it('embeds pictures as files of the question and answer that show them', () => {
+        const xml = toMoodleXml(EVERY_ITEM_TYPE);
+        expect(xml).toContain('<img src="@@PLUGINFILE@@/picture.png" alt="A dot">');
+        expect(xml).toContain('<img src="@@PLUGINFILE@@/option.png" alt="A dot">');
+        expect(xml.match(/<file name="(picture|option)\.png" path="\/" encoding="base64">/g)).toHaveLength(3);
+    });
+
+    it('writes option text with $ signs into a cloze as it is', () => {
+        const xml = toMoodleXml({
+            title: 'Prices',
+            description: '',
+            items: [{ title: 'It costs ___.', type: ItemType.DROPDOWN, options: ['$&5', "$$10 or $'"], correctAnswer: '$&5', points: 1 }],
+        });
+        expect(xml).toContain("It costs {1:MULTICHOICE:=$&amp;5~$$10 or $'}.");
+    });
+
+    it('writes every other item to GIFT', () => {
+        const questions = toGift(EVERY_ITEM_TYPE).split('\n\n').slice(1).filter(Boolean);
+        expect(questions.map(q => q.replace(/^\/\/ points: \d+\n/, '').match(/^::([^:]*)::/)?.[1])).toEqual([
+            'Capital of France', 'Describe the water cycle.', '2 + 2 \\= ?', 'Pick the primes', 'Reading', 'Blank 1', 'Blank 2', 'A map', 'Part two',
+        ]);
+    });
+});
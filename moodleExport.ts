@@ -0,0 +1,271 @@
+import type { FeedbackLink, Form, FormImage, FormItem } from '../types';
+import { ItemType } from '../types';
+import { isNameItem } from './formMerge';
+import { isSurveyType } from './formValidator';
+import { answersOf, BLANK_PATTERN, countBlanks, escapeXml, questionName, splitAtBlank } from './exportText';
+import type { ExportIssue } from './exportText';
+import { dataUrlParts, imageExtension } from './formImages';
+
+/*
+ * Moodle question-bank exporters. The respondent Name item is left out: Moodle already knows
+ * who is taking the quiz. Survey questions are left out too, and listed by `moodleSkippedItems`.
+ * Section headers and page breaks become descriptions. GIFT has no way to carry pictures, so
+ * only the XML has them.
+ */
+
+// Moodle only accepts these answer fractions (in percent); other values are rejected on import.
+const MOODLE_FRACTIONS = [
+    100, 90, 83.33333, 80, 75, 70, 66.66667, 60, 50, 40, 33.33333, 30, 25, 20,
+    16.66667, 14.28571, 12.5, 11.11111, 10, 5, 0,
+];
+
+/** The items both formats leave out: survey questions, which no Moodle question type fits. */
+export const moodleSkippedItems = (form: Form): ExportIssue[] => form.items.flatMap((item, itemIndex) => (isSurveyType(item.type)
+    ? [{ itemIndex, title: item.title, message: 'Survey questions have no Moodle equivalent.' }]
+    : []));
+
+/** Snaps a percentage to the nearest fraction Moodle accepts, keeping its sign. */
+export const nearestMoodleFraction = (percent: number): number => {
+    const magnitude = MOODLE_FRACTIONS.reduce((best, f) => (Math.abs(f - Math.abs(percent)) < Math.abs(best - Math.abs(percent)) ? f : best));
+    return percent < 0 ? -magnitude : magnitude;
+};
+
+/** Fractions for each option of a CHECKBOXES item: correct options share 100%, wrong ones share -100%. */
+const checkboxFractions = (item: FormItem): number[] => {
+    const answers = answersOf(item);
+    const options = item.options || [];
+    const wrongCount = options.length - answers.length;
+    return options.map(option => answers.includes(option)
+        ? nearestMoodleFraction(100 / answers.length)
+        : nearestMoodleFraction(wrongCount > 0 ? -100 / wrongCount : 0));
+};
+
+/**
+ * A fill-in-the-blank set: a passage with blanks followed by one DROPDOWN per blank, all sharing
+ * the same word bank. `getPrompt` produces exactly this shape.
+ */
+interface BlankSet {
+    passage: FormItem;
+    dropdowns: FormItem[];
+}
+
+const findBlankSet = (items: FormItem[], start: number): BlankSet | null => {
+    const passage = items[start];
+    if (passage.type !== ItemType.SECTION_HEADER || !passage.description) return null;
+    const blanks = countBlanks(passage.description);
+    const dropdowns = items.slice(start + 1, start + 1 + blanks);
+
+    const options = JSON.stringify([...(dropdowns[0]?.options || [])].sort());
+    const usable = blanks > 0
+        && dropdowns.length === blanks
+        && dropdowns.every(d => d.type === ItemType.DROPDOWN)
+        && dropdowns.every(d => typeof d.correctAnswer === 'string' && JSON.stringify([...(d.options || [])].sort()) === options);
+    return usable ? { passage, dropdowns } : null;
+};
+
+// --- Moodle XML ---
+
+const toHtml = (text: string) => escapeXml(text).replace(/\n/g, '<br>');
+
+const cdata = (html: string) => `<![CDATA[${html.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+/**
+ * A picture for a text element: a data URL travels as a file inside the element and is referred
+ * to through `@@PLUGINFILE@@`, a web address is linked as it is.
+ */
+const moodleImage = (image: FormImage | undefined, name: string): { html: string; files: string[] } => {
+    if (!image) return { html: '', files: [] };
+    const alt = escapeXml(image.alt || '');
+    const parts = dataUrlParts(image.src);
+    if (!parts) return { html: `<p><img src="${escapeXml(image.src)}" alt="${alt}"></p>`, files: [] };
+    const file = `${name}.${imageExtension(parts.mimeType)}`;
+    return {
+        html: `<p><img src="@@PLUGINFILE@@/${file}" alt="${alt}"></p>`,
+        files: [`<file name="${file}" path="/" encoding="base64">${parts.data}</file>`],
+    };
+};
+
+const xmlText = (tag: string, html: string, format = 'html', files: string[] = []) =>
+    `<${tag} format="${format}"><text>${cdata(html)}</text>${files.join('')}</${tag}>`;
+
+/** The question text, with the item's picture below it. */
+const questionTextXml = (item: FormItem, questionHtml: string) => {
+    const picture = moodleImage(item.image, 'picture');
+    return xmlText('questiontext', questionHtml + picture.html, 'html', picture.files);
+};
+
+const xmlQuestion = (type: string, item: FormItem, questionHtml: string, body: string[], grade?: number) => [
+    `  <question type="${type}">`,
+    `    <name><text>${escapeXml(questionName(item))}</text></name>`,
+    `    ${questionTextXml(item, questionHtml)}`,
+    ...(grade !== undefined ? [`    <defaultgrade>${grade}</defaultgrade>`] : []),
+    ...body.map(line => `    ${line}`),
+    `  </question>`,
+].join('\n');
+
+const feedbackHtml = (text: string, links: FeedbackLink[] = []) =>
+    [toHtml(text), ...links.map(link => `<a href="${escapeXml(link.url)}">${escapeXml(link.label || link.url)}</a>`)].join('<br>');
+
+/** Moodle's combined feedback for a choice question, or its general feedback for the others. */
+const feedbackXml = (item: FormItem): string[] => {
+    const { correct, incorrect, general, links } = item.feedback || {};
+    return [
+        ...(correct ? [xmlText('correctfeedback', feedbackHtml(correct))] : []),
+        ...(incorrect ? [xmlText('incorrectfeedback', feedbackHtml(incorrect, links))] : []),
+        ...(general ? [xmlText('generalfeedback', feedbackHtml(general, links))] : []),
+    ];
+};
+
+const xmlAnswer = (fraction: number, text: string, image?: FormImage) => {
+    const picture = moodleImage(image, 'option');
+    return `<answer fraction="${fraction}" format="html"><text>${cdata(toHtml(text) + picture.html)}</text>${picture.files.join('')}</answer>`;
+};
+
+const multichoiceXml = (item: FormItem, single: boolean) => {
+    const answers = answersOf(item);
+    const fractions = single
+        ? (item.options || []).map(option => (answers.includes(option) ? 100 : 0))
+        : checkboxFractions(item);
+    return xmlQuestion('multichoice', item, toHtml(item.title), [
+        `<single>${single}</single>`,
+        `<shuffleanswers>0</shuffleanswers>`,
+        `<answernumbering>abc</answernumbering>`,
+        ...feedbackXml(item),
+        ...(item.options || []).map((option, i) => xmlAnswer(fractions[i], option, item.optionImages?.find(o => o.option === option)?.image)),
+    ], item.points ?? 1);
+};
+
+const gapselectXml = ({ passage, dropdowns }: BlankSet) => {
+    const choices = dropdowns[0].options || [];
+    let gap = 0;
+    const html = toHtml(passage.description || '').replace(BLANK_PATTERN, () => {
+        const answer = dropdowns[gap++].correctAnswer as string;
+        return `[[${choices.indexOf(answer) + 1}]]`;
+    });
+    const grade = dropdowns.reduce((sum, d) => sum + (d.points ?? 1), 0);
+    return xmlQuestion('gapselect', passage, html, [
+        `<shuffleanswers>0</shuffleanswers>`,
+        ...choices.map(choice => `<selectoption><text>${escapeXml(choice)}</text><group>1</group></selectoption>`),
+    ], grade);
+};
+
+/** A single DROPDOWN whose title contains one blank becomes an embedded (Cloze) question. */
+const clozeXml = (item: FormItem) => {
+    const choices = (item.options || []).map(option =>
+        `${option === item.correctAnswer ? '=' : ''}${escapeXml(option).replace(/([~=#{}:\\])/g, '\\$1')}`).join('~');
+    const html = toHtml(item.title).replace(BLANK_PATTERN, () => `{${item.points ?? 1}:MULTICHOICE:${choices}}`);
+    return xmlQuestion('cloze', item, html, []);
+};
+
+const itemToXml = (item: FormItem): string | null => {
+    switch (item.type) {
+        case ItemType.SHORT_ANSWER:
+            if (typeof item.correctAnswer === 'string' && item.correctAnswer) {
+                return xmlQuestion('shortanswer', item, toHtml(item.title), [
+                    `<usecase>0</usecase>`,
+                    ...feedbackXml(item),
+                    xmlAnswer(100, item.correctAnswer),
+                ], item.points ?? 1);
+            }
+            return xmlQuestion('essay', item, toHtml(item.title), [`<responseformat>plain</responseformat>`, `<responsefieldlines>3</responsefieldlines>`, ...feedbackXml(item)], item.points ?? 0);
+        case ItemType.PARAGRAPH:
+            return xmlQuestion('essay', item, toHtml(item.title), [`<responseformat>editor</responseformat>`, `<responsefieldlines>15</responsefieldlines>`, ...feedbackXml(item)], item.points ?? 0);
+        case ItemType.MULTIPLE_CHOICE:
+            return multichoiceXml(item, true);
+        case ItemType.CHECKBOXES:
+            return multichoiceXml(item, false);
+        case ItemType.DROPDOWN:
+            if (typeof item.correctAnswer === 'string' && countBlanks(item.title) === 1) return clozeXml(item);
+            return multichoiceXml(item, true);
+        case ItemType.SECTION_HEADER:
+        case ItemType.PAGE_BREAK:
+            return xmlQuestion('description', item, `<h3>${escapeXml(item.title)}</h3>${toHtml(item.description || '')}`, []);
+        default:
+            // Survey questions, listed by `moodleSkippedItems`.
+            return null;
+    }
+};
+
+/** Exports the form as a Moodle XML question bank in a category named after the form. */
+export const toMoodleXml = (form: Form): string => {
+    const questions: string[] = [
+        [
+            `  <question type="category">`,
+            `    <category><text>${escapeXml(`$course$/top/${form.title.replace(/\//g, '-')}`)}</text></category>`,
+            `    <info format="html"><text>${cdata(toHtml(form.description))}</text></info>`,
+            `  </question>`,
+        ].join('\n'),
+    ];
+
+    const items = form.items.filter(item => !isNameItem(item));
+    for (let i = 0; i < items.length; i++) {
+        const blankSet = findBlankSet(items, i);
+        if (blankSet) {
+            questions.push(gapselectXml(blankSet));
+            i += blankSet.dropdowns.length;
+            continue;
+        }
+        const xml = itemToXml(items[i]);
+        if (xml) questions.push(xml);
+    }
+
+    return `<?xml version="1.0" encoding="UTF-8"?>\n<quiz>\n${questions.join('\n')}\n</quiz>\n`;
+};
+
+// --- GIFT ---
+
+const escapeGift = (text: string) =>
+    text.replace(/\\/g, '\\\\').replace(/([~=#{}:])/g, '\\$1').replace(/\r?\n/g, '\\n');
+
+const giftTitle = (item: FormItem) => `::${escapeGift(questionName(item))}::`;
+
+const giftPoints = (item: FormItem) => (item.points ? `// points: ${item.points}\n` : '');
+
+const itemToGift = (item: FormItem): string | null => {
+    const title = giftTitle(item);
+    const text = escapeGift(item.title);
+    const answers = answersOf(item);
+
+    switch (item.type) {
+        case ItemType.SHORT_ANSWER:
+            if (typeof item.correctAnswer === 'string' && item.correctAnswer) {
+                return `${giftPoints(item)}${title}${text} {=${escapeGift(item.correctAnswer)}}`;
+            }
+            return `${title}${text} {}`;
+        case ItemType.PARAGRAPH:
+            return `${title}${text} {}`;
+        case ItemType.MULTIPLE_CHOICE:
+        case ItemType.DROPDOWN: {
+            const choices = (item.options || []).map(o => `${answers.includes(o) ? '=' : '~'}${escapeGift(o)}`).join(' ');
+            // A sentence with one blank becomes GIFT's missing-word format, the closest it has to cloze.
+            if (item.type === ItemType.DROPDOWN && answers.length === 1 && countBlanks(item.title) === 1) {
+                const [before, after] = splitAtBlank(item.title);
+                return `${giftPoints(item)}${title}${escapeGift(before)}{${choices}}${escapeGift(after)}`;
+            }
+            return `${giftPoints(item)}${title}${text} {${choices}}`;
+        }
+        case ItemType.CHECKBOXES: {
+            const fractions = checkboxFractions(item);
+            const choices = (item.options || []).map((o, i) => `~%${fractions[i]}%${escapeGift(o)}`).join(' ');
+            return `${giftPoints(item)}${title}${text} {${choices}}`;
+        }
+        case ItemType.SECTION_HEADER:
+        case ItemType.PAGE_BREAK:
+            // A question with no answer block is imported as a description.
+            return `${title}${escapeGift(item.description || item.title)}`;
+        default:
+            // Survey questions, listed by `moodleSkippedItems`.
+            return null;
+    }
+};
+
+/** Exports the form in Moodle's GIFT text format. */
+export const toGift = (form: Form): string => {
+    const header = [
+        `// ${form.title.replace(/\r?\n/g, ' ')}`,
+        ...(form.description ? [`// ${form.description.replace(/\r?\n/g, ' ')}`] : []),
+        `$CATEGORY: $course$/top/${form.title.replace(/[\r\n/]/g, ' ')}`,
+    ].join('\n');
+    const questions = form.items.filter(item => !isNameItem(item)).map(itemToGift).filter((q): q is string => q !== null);
+    return `${header}\n\n${questions.join('\n\n')}\n`;
+};
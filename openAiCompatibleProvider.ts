@@ -0,0 +1,99 @@
+import type { LlmConfig, LlmProvider, LlmRequest } from './llmProvider';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1'; // Ollama's OpenAI-compatible endpoint
+
+/** The text of one streamed chunk. Data that isn't JSON, like a proxy's keep-alive, is skipped. */
+const streamDelta = (payload: string): string | null => {
+    let data: { choices?: { delta?: { content?: unknown } }[] } | null;
+    try {
+        data = JSON.parse(payload);
+    } catch {
+        console.warn('Skipping a streamed line that is not JSON:', payload.slice(0, 200));
+        return null;
+    }
+    const delta = data?.choices?.[0]?.delta?.content;
+    return typeof delta === 'string' && delta ? delta : null;
+};
+
+/**
+ * Any server that implements the OpenAI `/chat/completions` API: Ollama, llama.cpp server,
+ * vLLM, LM Studio, or a hosted gateway. The API key is optional for local servers.
+ */
+export const createOpenAiCompatibleProvider = (config: LlmConfig): LlmProvider => {
+    const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+    const post = async (request: LlmRequest, stream: boolean) => {
+        const content = request.images && request.images.length > 0
+            ? [
+                ...request.images.map(image => ({
+                    type: 'image_url',
+                    image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+                })),
+                { type: 'text', text: request.prompt },
+            ]
+            : request.prompt;
+
+        const response = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(config.apiKey ? { 'Authorization': `Bearer ${config.apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model: request.vision ? config.visionModel : config.model,
+                messages: [{ role: 'user', content }],
+                temperature: request.temperature,
+                stream,
+                ...(request.schema
+                    ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: request.schema } } }
+                    : request.json ? { response_format: { type: 'json_object' } } : {}),
+            }),
+            signal: request.signal,
+        });
+
+        if (!response.ok) {
+            const data = await response.json().catch(() => null);
+            throw new Error(data?.error?.message || `The model server at ${baseUrl} returned ${response.status}.`);
+        }
+        return response;
+    };
+
+    return {
+        name: 'openai-compatible',
+        model: config.model,
+        supportsSchema: config.structuredOutput,
+        async generate(request: LlmRequest) {
+            const data = await (await post(request, false)).json().catch(() => null);
+            const text = data?.choices?.[0]?.message?.content;
+            if (typeof text !== 'string') {
+                throw new Error(`The model server at ${baseUrl} returned no message content.`);
+            }
+            return text;
+        },
+        async *stream(request: LlmRequest) {
+            const response = await post(request, true);
+            if (!response.body) {
+                throw new Error(`The model server at ${baseUrl} did not return a stream.`);
+            }
+
+            // Server-sent events: one `data: {...}` line per delta, terminated by `data: [DONE]`.
+            const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+            let buffer = '';
+            while (true) {
+                const { value, done } = await reader.read();
+                // The last line may end without a newline; it is read once the stream ends.
+                buffer += done ? '\n' : value;
+                const lines = buffer.split('\n');
+                buffer = lines.pop() ?? '';
+                for (const line of lines) {
+                    const payload = line.replace(/^data:\s*/, '').trim();
+                    if (!line.startsWith('data:') || !payload) continue;
+                    if (payload === '[DONE]') return;
+                    const delta = streamDelta(payload);
+                    if (delta) yield delta;
+                }
+                if (done) return;
+            }
+        },
+    };
+};
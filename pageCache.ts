@@ -0,0 +1,117 @@
+import type { PageLayout } from './pdfLayout';
+
+/*
+ * Remembers what was read from each page of a PDF, keyed by a hash of the file, so uploading the
+ * same file again skips parsing and OCR. Kept apart from the library, which holds only the user's
+ * work; anything here can be thrown away. Failures to read or write are logged and otherwise
+ * ignored, as a cold cache only costs time.
+ */
+
+/** A page's text layout, or the OCR text of a scanned page. */
+export type CachedPage = PageLayout | string;
+
+interface CachedDocument {
+    hash: string;
+    pageCount: number;
+    usedAt: string;
+    format?: number;
+}
+
+interface CachedPageRecord {
+    hash: string;
+    page: number;
+    content: CachedPage;
+}
+
+const DB_NAME = 'formArchitect.pageCache';
+const DB_VERSION = 1;
+const DOCUMENTS = 'documents';
+const PAGES = 'pages';
+// Older files are dropped once more than this many are cached.
+const MAX_DOCUMENTS = 20;
+// Raised when more is kept per page, so files cached before are read again: 2 added pictures.
+const FORMAT = 2;
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => (database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DOCUMENTS)) db.createObjectStore(DOCUMENTS, { keyPath: 'hash' });
+        if (!db.objectStoreNames.contains(PAGES)) db.createObjectStore(PAGES, { keyPath: ['hash', 'page'] });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+        database = null;
+        reject(request.error);
+    };
+}));
+
+const promised = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const committed = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+const pagesOf = (hash: string) => IDBKeyRange.bound([hash, 0], [hash, Infinity]);
+
+/** A hex SHA-256 of the file, the key its pages are cached under. */
+export const hashFile = async (data: ArrayBuffer): Promise<string> => {
+    const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+    return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/** The cached pages of a file by page number, and its page count if it has been opened before. */
+export const readCachedPages = async (hash: string): Promise<{ pageCount: number | null; pages: Map<number, CachedPage> }> => {
+    try {
+        const db = await openDatabase();
+        const tx = db.transaction([DOCUMENTS, PAGES], 'readwrite');
+        const cached = await promised(tx.objectStore(DOCUMENTS).get(hash) as IDBRequest<CachedDocument | undefined>);
+        const records = await promised(tx.objectStore(PAGES).getAll(pagesOf(hash)) as IDBRequest<CachedPageRecord[]>);
+        if (cached) tx.objectStore(DOCUMENTS).put({ ...cached, usedAt: new Date().toISOString() });
+        await committed(tx);
+        if (cached?.format !== FORMAT) return { pageCount: null, pages: new Map() };
+        return { pageCount: cached.pageCount, pages: new Map(records.map(record => [record.page, record.content])) };
+    } catch (err) {
+        console.warn('The page cache could not be read:', err);
+        return { pageCount: null, pages: new Map() };
+    }
+};
+
+/** Records a newly opened file, dropping the least recently used ones beyond `MAX_DOCUMENTS`. */
+export const cacheDocument = async (hash: string, pageCount: number): Promise<void> => {
+    try {
+        const db = await openDatabase();
+        const tx = db.transaction([DOCUMENTS, PAGES], 'readwrite');
+        const documents = tx.objectStore(DOCUMENTS);
+        // Pages kept in an older format would pass for current ones once the document is marked current.
+        const previous = await promised(documents.get(hash) as IDBRequest<CachedDocument | undefined>);
+        if (previous && previous.format !== FORMAT) tx.objectStore(PAGES).delete(pagesOf(hash));
+        documents.put({ hash, pageCount, usedAt: new Date().toISOString(), format: FORMAT } satisfies CachedDocument);
+        const all = await promised(documents.getAll() as IDBRequest<CachedDocument[]>);
+        all.sort((a, b) => b.usedAt.localeCompare(a.usedAt)).slice(MAX_DOCUMENTS).forEach(old => {
+            documents.delete(old.hash);
+            tx.objectStore(PAGES).delete(pagesOf(old.hash));
+        });
+        await committed(tx);
+    } catch (err) {
+        console.warn('The page cache could not be updated:', err);
+    }
+};
+
+export const cachePage = async (hash: string, page: number, content: CachedPage): Promise<void> => {
+    try {
+        const db = await openDatabase();
+        const tx = db.transaction(PAGES, 'readwrite');
+        tx.objectStore(PAGES).put({ hash, page, content } satisfies CachedPageRecord);
+        await committed(tx);
+    } catch (err) {
+        console.warn('The page cache could not be updated:', err);
+    }
+};
@@ -0,0 +1,387 @@
+import { getDocument, GlobalWorkerOptions, OPS } from 'pdfjs-dist';
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { extractTextFromImage } from './geminiService';
+import { canvasRegionToDataUrl, MIN_IMAGE_SIDE } from './formImages';
+import type { SourceImage } from './formImages';
+import { blobToBase64 } from './imagePreprocessing';
+import { cacheDocument, cachePage, hashFile, readCachedPages } from './pageCache';
+import type { CachedPage } from './pageCache';
+import { layoutDocument, pageTextLength, placeImages } from './pdfLayout';
+import type { PageImage, PageLayout, Rule, TextRun } from './pdfLayout';
+
+/*
+ * Reads PDFs inside the ingestion worker (see `pdfIngestion`). pdf.js is bundled with the app and
+ * runs its parser in a worker of its own; pages are rendered for OCR, and to crop their figures,
+ * on offscreen canvases, as a worker has no DOM.
+ */
+
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+// Rules thicker than this are boxes or shading rather than lines.
+const MAX_RULE_THICKNESS = 3;
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+];
+
+const apply = (m: Matrix, x: number, y: number): [number, number] => [x * m[0] + y * m[2] + m[4], x * m[1] + y * m[3] + m[5]];
+
+/** The horizontal rule covering these points, if they lie on one. */
+const toRule = (points: [number, number][]): Rule | null => {
+    const xs = points.map(p => p[0]);
+    const ys = points.map(p => p[1]);
+    if (Math.max(...ys) - Math.min(...ys) > MAX_RULE_THICKNESS) return null;
+    return { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs) };
+};
+
+/**
+ * The horizontal lines and thin rectangles in one path. This reads the `constructPath` arguments
+ * of pdf.js 4, the bundled `pdfjs-dist` version: the path operators, then their coordinates.
+ */
+const pathRules = (ops: number[], coords: number[], ctm: Matrix): Rule[] => {
+    const rules: Rule[] = [];
+    let i = 0;
+    let current: [number, number] = [0, 0];
+    for (const op of ops) {
+        switch (op) {
+            case OPS.rectangle: {
+                const [x, y, w, h] = coords.slice(i, i + 4);
+                i += 4;
+                const rule = toRule([apply(ctm, x, y), apply(ctm, x + w, y), apply(ctm, x, y + h), apply(ctm, x + w, y + h)]);
+                if (rule) rules.push(rule);
+                current = [x, y];
+                break;
+            }
+            case OPS.moveTo:
+                current = [coords[i], coords[i + 1]];
+                i += 2;
+                break;
+            case OPS.lineTo: {
+                const next: [number, number] = [coords[i], coords[i + 1]];
+                i += 2;
+                const rule = toRule([apply(ctm, ...current), apply(ctm, ...next)]);
+                if (rule) rules.push(rule);
+                current = next;
+                break;
+            }
+            case OPS.curveTo:
+                current = [coords[i + 4], coords[i + 5]];
+                i += 6;
+                break;
+            case OPS.curveTo2:
+            case OPS.curveTo3:
+                current = [coords[i + 2], coords[i + 3]];
+                i += 4;
+                break;
+        }
+    }
+    return rules;
+};
+
+/** A picture's area on the page, before it is cropped. */
+type ImageBox = Omit<PageImage, 'src'>;
+
+/** The area the unit square covers under the matrix, which is where pictures are painted. */
+const imageBox = (ctm: Matrix): ImageBox => {
+    const corners = [apply(ctm, 0, 0), apply(ctm, 1, 0), apply(ctm, 0, 1), apply(ctm, 1, 1)];
+    const xs = corners.map(p => p[0]);
+    const ys = corners.map(p => p[1]);
+    return { x: Math.min(...xs), y: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
+};
+
+const touches = (a: ImageBox, b: ImageBox) =>
+    a.x <= b.x + b.width + 2 && b.x <= a.x + a.width + 2 && a.y <= b.y + b.height + 2 && b.y <= a.y + a.height + 2;
+
+/** Joins pictures that overlap or touch, as figures are often drawn in tiles. */
+const mergeBoxes = (boxes: ImageBox[]): ImageBox[] => {
+    const merged: ImageBox[] = [];
+    for (const box of boxes) {
+        let current = box;
+        for (let i = merged.length - 1; i >= 0; i--) {
+            if (!touches(merged[i], current)) continue;
+            const [other] = merged.splice(i, 1);
+            const x = Math.min(other.x, current.x);
+            const y = Math.min(other.y, current.y);
+            current = {
+                x,
+                y,
+                width: Math.max(other.x + other.width, current.x + current.width) - x,
+                height: Math.max(other.y + other.height, current.y + current.height) - y,
+            };
+        }
+        merged.push(current);
+    }
+    // A joined box can reach ones it was checked against before it grew.
+    return merged.length < boxes.length ? mergeBoxes(merged) : merged;
+};
+
+interface PageGraphics {
+    rules: Rule[];
+    images: ImageBox[];
+}
+
+/** The rules and pictures drawn on the page, following the transformation matrix through the operator list. */
+const readGraphics = async (page: PDFPageProxy): Promise<PageGraphics> => {
+    const { fnArray, argsArray } = await page.getOperatorList();
+    const rules: Rule[] = [];
+    const images: ImageBox[] = [];
+    const stack: Matrix[] = [];
+    let ctm = IDENTITY;
+    fnArray.forEach((fn, index) => {
+        const args = argsArray[index];
+        switch (fn) {
+            case OPS.save:
+                stack.push(ctm);
+                break;
+            case OPS.restore:
+                ctm = stack.pop() ?? ctm;
+                break;
+            case OPS.transform:
+                ctm = multiply(ctm, args as Matrix);
+                break;
+            case OPS.paintFormXObjectBegin:
+                stack.push(ctm);
+                if (Array.isArray(args?.[0]) && args[0].length === 6) ctm = multiply(ctm, args[0] as Matrix);
+                break;
+            case OPS.paintFormXObjectEnd:
+                ctm = stack.pop() ?? ctm;
+                break;
+            case OPS.constructPath:
+                if (Array.isArray(args?.[0]) && Array.isArray(args[1])) rules.push(...pathRules(args[0], args[1], ctm));
+                break;
+            // Image masks are left out: they are stencils in one colour, mostly glyphs and patterns.
+            case OPS.paintImageXObject:
+            case OPS.paintInlineImageXObject:
+                images.push(imageBox(ctm));
+                break;
+        }
+    });
+    return { rules, images };
+};
+
+/** The page's text runs, rules and picture areas, relative to the bottom left of its visible area. */
+const readPageLayout = async (page: PDFPageProxy): Promise<{ layout: PageLayout; images: ImageBox[] }> => {
+    const [left, bottom, right, top] = page.view;
+    const content = await page.getTextContent();
+    const runs: TextRun[] = content.items
+        .filter((item): item is TextItem => 'str' in item && item.str.trim() !== '')
+        .map(item => ({
+            text: item.str,
+            x: item.transform[4] - left,
+            y: item.transform[5] - bottom,
+            width: item.width,
+            size: Math.hypot(item.transform[2], item.transform[3]) || item.height,
+        }));
+    const graphics = await readGraphics(page);
+    const shift = <T extends { x: number; y: number }>(box: T): T => ({ ...box, x: box.x - left, y: box.y - bottom });
+    return {
+        layout: { width: right - left, height: top - bottom, runs, rules: graphics.rules.map(shift) },
+        images: graphics.images.map(shift),
+    };
+};
+
+// Scanned pages are rendered at this size along their longer side: enough for OCR to read small
+// print, without the memory of rendering every page at a fixed zoom.
+const OCR_MAX_SIDE = 2000;
+// Pages with pictures are rendered at this zoom to crop them: twice their printed size.
+const IMAGE_SCALE = 2;
+// Larger than this share of the page, a picture is a scan or a background rather than a figure.
+const MAX_IMAGE_SHARE = 0.85;
+
+/** Gives pdf.js offscreen canvases for the intermediate surfaces it draws on. */
+class OffscreenCanvasFactory {
+    create(width: number, height: number) {
+        const canvas = new OffscreenCanvas(width, height);
+        return { canvas, context: canvas.getContext('2d', { willReadFrequently: true }) };
+    }
+
+    reset(target: { canvas: OffscreenCanvas }, width: number, height: number) {
+        target.canvas.width = width;
+        target.canvas.height = height;
+    }
+
+    destroy(target: { canvas: OffscreenCanvas | null; context: unknown }) {
+        if (target.canvas) target.canvas.width = target.canvas.height = 0;
+        target.canvas = null;
+        target.context = null;
+    }
+}
+
+/** Skips the SVG filters pdf.js would otherwise build in the DOM; OCR doesn't need exact colours. */
+class NoFilterFactory {
+    addFilter() { return 'none'; }
+    addHCMFilter() { return 'none'; }
+    addAlphaFilter() { return 'none'; }
+    addLuminosityFilter() { return 'none'; }
+    addHighlightHCMFilter() { return 'none'; }
+    destroy() {}
+}
+
+const ocrPage = async (page: PDFPageProxy): Promise<string> => {
+    const base = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: OCR_MAX_SIDE / Math.max(base.width, base.height) });
+    const canvas = new OffscreenCanvas(Math.round(viewport.width), Math.round(viewport.height));
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error('Could not get canvas context');
+    }
+
+    await page.render({ canvasContext: context as unknown as CanvasRenderingContext2D, viewport }).promise;
+    page.cleanup();
+
+    const image = await canvas.convertToBlob({ type: 'image/jpeg', quality: 0.92 });
+    canvas.width = canvas.height = 0;
+    return extractTextFromImage(await blobToBase64(image), image.type);
+};
+
+/** Crops the page's figures from a rendering of it; `boxes` are relative to its visible area. */
+const cropImages = async (page: PDFPageProxy, layout: PageLayout, boxes: ImageBox[]): Promise<PageImage[]> => {
+    const figures = mergeBoxes(boxes).filter(box =>
+        Math.min(box.width, box.height) >= MIN_IMAGE_SIDE && box.width * box.height < layout.width * layout.height * MAX_IMAGE_SHARE);
+    if (figures.length === 0) return [];
+
+    const [left, bottom] = page.view;
+    const viewport = page.getViewport({ scale: IMAGE_SCALE });
+    const canvas = new OffscreenCanvas(Math.round(viewport.width), Math.round(viewport.height));
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error('Could not get canvas context');
+    }
+    await page.render({ canvasContext: context as unknown as CanvasRenderingContext2D, viewport }).promise;
+
+    const images: PageImage[] = [];
+    for (const box of figures) {
+        const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([box.x + left, box.y + bottom, box.x + left + box.width, box.y + bottom + box.height]);
+        const x = Math.max(0, Math.floor(Math.min(x1, x2)));
+        const y = Math.max(0, Math.floor(Math.min(y1, y2)));
+        const width = Math.min(canvas.width, Math.ceil(Math.max(x1, x2))) - x;
+        const height = Math.min(canvas.height, Math.ceil(Math.max(y1, y2))) - y;
+        if (width > 0 && height > 0) images.push({ ...box, src: await canvasRegionToDataUrl(canvas, x, y, width, height) });
+    }
+    canvas.width = canvas.height = 0;
+    return images;
+};
+
+export type PageStatus = 'pending' | 'reading' | 'ocr' | 'done' | 'cached' | 'failed';
+
+export interface PageProgress {
+    /** 1-based, as pages are numbered. */
+    page: number;
+    status: PageStatus;
+    /** Why a scanned page could only be read in part. */
+    error?: string;
+}
+
+export interface PdfText {
+    text: string;
+    /** Pages that could only be read in part. */
+    warnings: string[];
+    /** The figures on the pages, marked in the text where they were. */
+    images: SourceImage[];
+}
+
+export interface ExtractionOptions {
+    /** The most scanned pages sent for OCR at once. */
+    concurrency: number;
+    /** Called with every page's state each time one changes. */
+    onProgress: (pages: PageProgress[]) => void;
+}
+
+/**
+ * Extracts the reading text of a PDF, laid out as on the page (see `pdfLayout`). Pages with
+ * almost no text are taken to be scans and read by OCR, up to `concurrency` at a time, while the
+ * following pages are parsed. Each page read is cached under the file's hash, so a file seen
+ * before, or cancelled part way, only reads the pages it lacks.
+ */
+export const extractPdfText = async (data: ArrayBuffer, { concurrency, onProgress }: ExtractionOptions): Promise<PdfText> => {
+    // Hashed first: pdf.js takes over the buffer.
+    const hash = await hashFile(data);
+    const cached = await readCachedPages(hash);
+    const finish = (read: CachedPage[], warnings: string[]): PdfText => {
+        const { pages, images } = placeImages(read);
+        return { text: layoutDocument(pages), warnings, images };
+    };
+
+    if (cached.pageCount !== null && cached.pages.size === cached.pageCount) {
+        const pages = Array.from({ length: cached.pageCount }, (_, i) => cached.pages.get(i + 1)!);
+        onProgress(pages.map((_, i) => ({ page: i + 1, status: 'cached' })));
+        return finish(pages, []);
+    }
+
+    GlobalWorkerOptions.workerPort ??= new Worker(new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url), { type: 'module' });
+    const pdf = await getDocument({
+        data: new Uint8Array(data),
+        canvasFactory: new OffscreenCanvasFactory(),
+        filterFactory: new NoFilterFactory(),
+        // Without a document to load fonts into, glyphs are drawn as paths.
+        disableFontFace: true,
+    }).promise;
+
+    try {
+        await cacheDocument(hash, pdf.numPages);
+        let progress: PageProgress[] = Array.from({ length: pdf.numPages }, (_, i) => ({
+            page: i + 1,
+            status: cached.pages.has(i + 1) ? 'cached' : 'pending',
+        }));
+        const set = (page: number, status: PageStatus, error?: string) => {
+            progress = progress.map(p => (p.page === page ? { page, status, error } : p));
+            onProgress(progress);
+        };
+        onProgress(progress);
+
+        const pages: CachedPage[] = [];
+        const warnings: string[] = [];
+        const running = new Set<Promise<void>>();
+
+        for (let i = 1; i <= pdf.numPages; i++) {
+            const known = cached.pages.get(i);
+            if (known !== undefined) {
+                pages[i - 1] = known;
+                continue;
+            }
+            set(i, 'reading');
+            const page = await pdf.getPage(i);
+            const { layout, images } = await readPageLayout(page);
+
+            // Heuristic: If a page has very little text, assume it's an image needing OCR.
+            if (pageTextLength(layout) < 50 && page.getViewport({ scale: 1.0 }).height > 100) {
+                while (running.size >= concurrency) await Promise.race(running);
+                set(i, 'ocr');
+                const task = ocrPage(page).then(
+                    async text => {
+                        pages[i - 1] = text;
+                        await cachePage(hash, i, text);
+                        set(i, 'done');
+                    },
+                    ocrError => {
+                        console.error(`OCR failed for page ${i}:`, ocrError);
+                        pages[i - 1] = layout; // Fallback to the little text we found
+                        warnings.push(`Could not read text from an image on page ${i}. The result might be incomplete.`);
+                        set(i, 'failed', ocrError instanceof Error ? ocrError.message : undefined);
+                    },
+                ).finally(() => running.delete(task));
+                running.add(task);
+            } else {
+                const figures = await cropImages(page, layout, images);
+                if (figures.length > 0) layout.images = figures;
+                pages[i - 1] = layout;
+                page.cleanup();
+                await cachePage(hash, i, layout);
+                set(i, 'done');
+            }
+        }
+
+        await Promise.all(running);
+        warnings.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+        return finish(pages, warnings);
+    } finally {
+        await pdf.destroy();
+    }
+};
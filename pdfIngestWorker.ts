@@ -0,0 +1,17 @@
+import { extractPdfText } from './pdfExtraction';
+import type { IngestMessage, IngestRequest } from './pdfIngestion';
+
+// Entry point of the ingestion worker started by `ingestPdf`; it reads one PDF and is then ended.
+
+const post = (message: IngestMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<IngestRequest>) => {
+    const { data, concurrency } = event.data;
+    try {
+        const result = await extractPdfText(data, { concurrency, onProgress: pages => post({ type: 'progress', pages }) });
+        post({ type: 'done', result });
+    } catch (err) {
+        console.error('Error reading PDF:', err);
+        post({ type: 'error', message: err instanceof Error ? err.message : 'The PDF could not be read.' });
+    }
+};
@@ -0,0 +1,74 @@
+import type { PageProgress, PdfText } from './pdfExtraction';
+
+/*
+ * Reads PDFs in a background worker so that parsing, rendering and OCR never hold up the page.
+ * Each call starts its own worker and ends it when done; cancelling ends it at once, and the pages
+ * read by then stay cached for the next attempt.
+ */
+
+export interface IngestRequest {
+    data: ArrayBuffer;
+    concurrency: number;
+}
+
+export type IngestMessage =
+    | { type: 'progress'; pages: PageProgress[] }
+    | { type: 'done'; result: PdfText }
+    | { type: 'error'; message: string };
+
+/** Thrown when reading is cancelled through its signal. */
+export class IngestionCancelledError extends Error {
+    constructor() {
+        super('Reading the file was cancelled.');
+        this.name = 'IngestionCancelledError';
+    }
+}
+
+const DEFAULT_OCR_CONCURRENCY = 3;
+
+/** How many scanned pages are sent for OCR at once, from `OCR_CONCURRENCY` in the environment. */
+export const ocrConcurrency = (): number => {
+    const configured = Number.parseInt(process.env.OCR_CONCURRENCY || '', 10);
+    return configured > 0 ? configured : DEFAULT_OCR_CONCURRENCY;
+};
+
+export interface IngestOptions {
+    onProgress: (pages: PageProgress[]) => void;
+    signal?: AbortSignal;
+    concurrency?: number;
+}
+
+/** Extracts the text of a PDF in the background. The buffer is handed to the worker and can't be used afterwards. */
+export const ingestPdf = (data: ArrayBuffer, { onProgress, signal, concurrency = ocrConcurrency() }: IngestOptions): Promise<PdfText> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new IngestionCancelledError());
+            return;
+        }
+        const worker = new Worker(new URL('./pdfIngestWorker.ts', import.meta.url), { type: 'module' });
+        const stop = () => {
+            worker.terminate();
+            signal?.removeEventListener('abort', cancel);
+        };
+        const cancel = () => {
+            stop();
+            reject(new IngestionCancelledError());
+        };
+        signal?.addEventListener('abort', cancel);
+
+        worker.onmessage = (event: MessageEvent<IngestMessage>) => {
+            const message = event.data;
+            if (message.type === 'progress') {
+                onProgress(message.pages);
+                return;
+            }
+            stop();
+            if (message.type === 'done') resolve(message.result);
+            else reject(new Error(message.message));
+        };
+        worker.onerror = event => {
+            stop();
+            reject(new Error(event.message || 'The PDF reader stopped unexpectedly.'));
+        };
+        worker.postMessage({ data, concurrency } satisfies IngestRequest, [data]);
+    });
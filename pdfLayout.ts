@@ -0,0 +1,342 @@
+import { imageLabel, imageMarker, isImageMarker } from './formImages';
+import type { SourceImage } from './formImages';
+
+/*
+ * Rebuilds the reading text of PDF pages from positioned text runs. Lines are grouped by
+ * baseline, columns are read one after another, table rows are kept on one line with their
+ * cells separated, and answer lines (drawn rules, or wide gaps within a sentence) become `___`
+ * blanks. Headers and footers repeated across pages are left out, and so are pictures repeated
+ * across pages, such as logos; other pictures are marked where they were (see `formImages`).
+ *
+ * Coordinates are PDF points with the origin at the bottom left of the page, as pdf.js gives them.
+ */
+
+/** A piece of text drawn on one baseline, starting at (`x`, `y`). */
+export interface TextRun {
+    text: string;
+    x: number;
+    y: number;
+    width: number;
+    /** The font size, which sets the tolerances for grouping. */
+    size: number;
+}
+
+/** A horizontal line drawn on the page, such as an answer line or a table border. */
+export interface Rule {
+    x: number;
+    y: number;
+    width: number;
+}
+
+/** A picture drawn on the page, with the area it covers. */
+export interface PageImage {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    /** The area cropped from a rendering of the page, as a data URL. */
+    src: string;
+}
+
+export interface PageLayout {
+    width: number;
+    height: number;
+    runs: TextRun[];
+    rules: Rule[];
+    images?: PageImage[];
+}
+
+interface Line {
+    y: number;
+    size: number;
+    /** Sorted left to right. */
+    runs: TextRun[];
+}
+
+export const BLANK_MARKER = '___';
+
+const MIN_RULE_WIDTH = 18;
+// Header and footer lines are looked for in this share of the page at the top and bottom.
+const MARGIN_ZONE = 0.1;
+const MIN_GUTTER_WIDTH = 10;
+// A line break wider than this many typical line spacings starts a new paragraph.
+const PARAGRAPH_SPACING = 1.5;
+
+const PAGE_NUMBER = /^(page\s*)?[-–(]?\s*\d+\s*[-–)]?(\s*(of|\/)\s*\d+)?$/i;
+// Text after a wide gap that is a mark allocation rather than the rest of a sentence, e.g. "(2 marks)".
+const MARKS = /^[([]?\s*\d+\s*(marks?|points?|pts?)?\s*[)\]]?\.?$/i;
+
+const percentile = (values: number[], share: number) => {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor((sorted.length - 1) * share)];
+};
+
+const median = (values: number[]) => percentile(values, 0.5);
+
+const runEnd = (run: TextRun) => run.x + run.width;
+
+const toLine = (runs: TextRun[]): Line => {
+    const sorted = [...runs].sort((a, b) => a.x - b.x);
+    return { y: median(sorted.map(r => r.y)), size: Math.max(...sorted.map(r => r.size)), runs: sorted };
+};
+
+/** Groups runs into lines by baseline, top to bottom. */
+const groupLines = (runs: TextRun[]): Line[] => {
+    const groups: TextRun[][] = [];
+    for (const run of [...runs].sort((a, b) => b.y - a.y || a.x - b.x)) {
+        const group = groups[groups.length - 1];
+        const last = group?.[group.length - 1];
+        if (last && Math.abs(last.y - run.y) <= Math.max(last.size, run.size) * 0.5) group.push(run);
+        else groups.push([run]);
+    }
+    return groups.map(toLine);
+};
+
+/** The line's runs split wherever the space between them is at least `minGap`. */
+const segments = (line: Line, minGap: number): TextRun[][] => {
+    const result: TextRun[][] = [];
+    let end = -Infinity;
+    for (const run of line.runs) {
+        if (run.x - end >= minGap || result.length === 0) result.push([run]);
+        else result[result.length - 1].push(run);
+        end = Math.max(end, runEnd(run));
+    }
+    return result;
+};
+
+/**
+ * The drawn rules that are answer lines, as blank runs. Rules under text are underlining,
+ * rules that line up with others are table borders, and page-wide rules on their own are
+ * separators; none of these is a blank.
+ */
+const ruleBlanks = (page: PageLayout): TextRun[] => {
+    const size = median(page.runs.map(r => r.size)) || 10;
+    const rules = page.rules.filter(rule => rule.width >= MIN_RULE_WIDTH);
+    return rules.filter(rule => {
+        const underlines = page.runs.some(run =>
+            run.x < rule.x + rule.width - 2 && runEnd(run) > rule.x + 2 && rule.y <= run.y + run.size * 0.3 && rule.y >= run.y - run.size * 0.4);
+        if (underlines) return false;
+        const aligned = rules.filter(other => Math.abs(other.x - rule.x) <= 2 && Math.abs(other.width - rule.width) <= 2);
+        if (aligned.length >= 3) return false;
+        const onTextLine = page.runs.some(run => Math.abs(run.y - rule.y) <= run.size * 0.6);
+        return onTextLine || rule.width < page.width * 0.6;
+    }).map(rule => ({ text: BLANK_MARKER, x: rule.x, y: rule.y + 1, width: rule.width, size }));
+};
+
+/** Where a line's text is, as [start, end] spans apart by at least `minGap`. */
+const spans = (line: Line, minGap: number) => segments(line, minGap).map(runs => [runs[0].x, Math.max(...runs.map(runEnd))]);
+
+const gutterGap = (lines: Line[]) => Math.max(MIN_GUTTER_WIDTH, median(lines.map(l => l.size)) * 1.5);
+
+/**
+ * The x position of the gutter between two columns of these lines, if they have one: a band
+ * down the middle that few lines cross, with enough text on both sides of it.
+ */
+const findGutter = (lines: Line[], x0: number, x1: number): { left: number; right: number } | null => {
+    if (lines.length < 6) return null;
+    const minGap = gutterGap(lines);
+    const lineSpans = lines.map(line => spans(line, minGap));
+    const from = Math.floor(x0 + (x1 - x0) * 0.2);
+    const to = Math.ceil(x0 + (x1 - x0) * 0.8);
+    const allowed = Math.floor(lines.length * 0.2);
+
+    let best: { left: number; right: number } | null = null;
+    let start: number | null = null;
+    for (let x = from; x <= to + 1; x++) {
+        const crossing = x > to ? Infinity : lineSpans.filter(segs => segs.some(([a, b]) => a < x && b > x)).length;
+        if (crossing <= allowed) {
+            start ??= x;
+            continue;
+        }
+        if (start !== null && x - start >= minGap && (!best || x - start > best.right - best.left)) best = { left: start, right: x };
+        start = null;
+    }
+    if (!best) return null;
+
+    const { left, right } = best;
+    const leftParts = lines.map(line => line.runs.filter(run => runEnd(run) <= left + 1)).filter(runs => runs.length > 0).map(toLine);
+    const rightCount = lines.filter(line => line.runs.some(run => run.x >= right - 1)).length;
+    const enough = Math.max(3, lines.length * 0.2);
+    if (leftParts.length < enough || rightCount < enough) return null;
+    // Column text runs up to the gutter on most lines and has no wide gaps; table rows have both
+    // short cells and gaps between them.
+    const textLeft = Math.min(...leftParts.map(line => line.runs[0].x));
+    const full = leftParts.filter(line => Math.max(...line.runs.map(runEnd)) >= left - (left - textLeft) * 0.3).length;
+    const gapped = leftParts.filter(line => cellsOf(line).length > 1).length;
+    return full >= leftParts.length / 2 && gapped < leftParts.length * 0.3 ? best : null;
+};
+
+/**
+ * Puts lines into reading order as blocks: lines that cross the gutter are read in place, and
+ * between them the left column is read before the right one. Columns are split again if they
+ * have columns of their own.
+ */
+const readingOrder = (lines: Line[], x0: number, x1: number, depth = 0): Line[][] => {
+    const gutter = depth < 2 ? findGutter(lines, x0, x1) : null;
+    if (!gutter) return lines.length > 0 ? [lines] : [];
+    const middle = (gutter.left + gutter.right) / 2;
+    const minGap = gutterGap(lines);
+
+    const blocks: Line[][] = [];
+    let left: Line[] = [];
+    let right: Line[] = [];
+    let spanning: Line[] = [];
+    const flushColumns = () => {
+        blocks.push(...readingOrder(left, x0, middle, depth + 1), ...readingOrder(right, middle, x1, depth + 1));
+        left = [];
+        right = [];
+    };
+    for (const line of lines) {
+        if (spans(line, minGap).some(([start, end]) => start < middle && end > middle)) {
+            flushColumns();
+            spanning.push(line);
+            continue;
+        }
+        if (spanning.length > 0) {
+            blocks.push(spanning);
+            spanning = [];
+        }
+        const leftRuns = line.runs.filter(run => run.x < middle);
+        const rightRuns = line.runs.filter(run => run.x >= middle);
+        if (leftRuns.length > 0) left.push(toLine(leftRuns));
+        if (rightRuns.length > 0) right.push(toLine(rightRuns));
+    }
+    flushColumns();
+    if (spanning.length > 0) blocks.push(spanning);
+    return blocks;
+};
+
+/** Joins runs that are close together, adding a space where the gap between them is one. */
+const joinRuns = (runs: TextRun[]) => runs.reduce((text, run, i) => {
+    if (i === 0) return run.text;
+    const previous = runs[i - 1];
+    const gap = run.x - runEnd(previous);
+    const needsSpace = run.text === BLANK_MARKER || previous.text === BLANK_MARKER || gap > Math.min(run.size, previous.size) * 0.12;
+    return needsSpace && !/\s$/.test(text) && !/^\s/.test(run.text) ? `${text} ${run.text}` : text + run.text;
+}, '').replace(/\s+/g, ' ').trim();
+
+/** The line's cells: its text split at gaps wider than a few spaces. */
+const cellsOf = (line: Line) => segments(line, Math.max(12, line.size * 2.5));
+
+const cellStartsAlign = (a: TextRun[][], b: TextRun[][], tolerance: number) => {
+    const [fewer, more] = a.length <= b.length ? [a, b] : [b, a];
+    return fewer.every(cell => more.some(other => Math.abs(other[0].x - cell[0].x) <= tolerance));
+};
+
+/** Whether a wide gap between `before` and `after` is a space left to write in. */
+const isBlankGap = (before: string, after: string) =>
+    !MARKS.test(after) && (/:$/.test(before) || /^[a-z.,;:!?)]/.test(after));
+
+/** The text of one block: table rows with ` | ` between cells, other lines with wide gaps as blanks, and paragraphs apart. */
+const blockText = (lines: Line[]): string[] => {
+    const cells = lines.map(cellsOf);
+    const inTable = lines.map((line, i) => {
+        if (cells[i].length < 2) return false;
+        const alignsWith = (j: number) => (cells[j]?.length ?? 0) >= 2 && cellStartsAlign(cells[i], cells[j], line.size);
+        return alignsWith(i - 1) || alignsWith(i + 1);
+    });
+    // The spacing of lines within a paragraph; the gaps between paragraphs are the larger ones.
+    const spacing = percentile(lines.slice(1).map((line, i) => lines[i].y - line.y).filter(d => d > 0), 0.25);
+
+    const result: string[] = [];
+    lines.forEach((line, i) => {
+        const gap = i > 0 ? lines[i - 1].y - line.y : 0;
+        const typical = spacing || line.size * 1.2;
+        if (i > 0 && gap > typical * PARAGRAPH_SPACING + 1 && !(inTable[i] && inTable[i - 1])) result.push('');
+
+        const texts = cells[i].map(joinRuns);
+        if (inTable[i]) {
+            result.push(texts.join(' | '));
+            return;
+        }
+        result.push(texts.reduce((text, cell) => {
+            if (!isBlankGap(text, cell)) return `${text} ${cell}`;
+            return /^[.,;:!?)]/.test(cell) ? `${text} ${BLANK_MARKER}${cell}` : `${text} ${BLANK_MARKER} ${cell}`;
+        }));
+    });
+    return result;
+};
+
+const normalizeMargin = (text: string) => text.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+
+/**
+ * Removes header and footer lines: those in the top or bottom margin whose text, numbers aside,
+ * is on at least half the pages, and lone page numbers.
+ */
+const stripMargins = (pages: { layout: PageLayout; lines: Line[] }[]) => {
+    const zoneKey = (page: PageLayout, line: Line) => {
+        if (line.y > page.height * (1 - MARGIN_ZONE)) return `top:${normalizeMargin(joinRuns(line.runs))}`;
+        if (line.y < page.height * MARGIN_ZONE) return `bottom:${normalizeMargin(joinRuns(line.runs))}`;
+        return null;
+    };
+    const counts = new Map<string, number>();
+    for (const { layout, lines } of pages) {
+        const keys = new Set(lines.map(line => zoneKey(layout, line)).filter((key): key is string => key !== null));
+        keys.forEach(key => counts.set(key, (counts.get(key) || 0) + 1));
+    }
+    const threshold = Math.max(2, Math.ceil(pages.length / 2));
+    return pages.map(({ layout, lines }) => lines.filter(line => {
+        const key = zoneKey(layout, line);
+        // Repeated pictures were dropped already; the markers left are for figures near the edge.
+        if (key === null || isImageMarker(joinRuns(line.runs))) return true;
+        return (counts.get(key) || 0) < threshold && !PAGE_NUMBER.test(joinRuns(line.runs));
+    }));
+};
+
+/**
+ * Numbers the pictures on the pages in reading order, top to bottom within a page, and puts a
+ * marker run at the top of each. Pictures at the same place on at least half the pages are
+ * letterheads and logos, and are dropped.
+ */
+export const placeImages = (pages: (PageLayout | string)[]): { pages: (PageLayout | string)[]; images: SourceImage[] } => {
+    const key = (image: PageImage) => [image.x, image.y, image.width, image.height].map(Math.round).join(':');
+    const counts = new Map<string, number>();
+    for (const page of pages) {
+        if (typeof page === 'string') continue;
+        new Set((page.images || []).map(key)).forEach(k => counts.set(k, (counts.get(k) || 0) + 1));
+    }
+    const threshold = Math.max(2, Math.ceil(pages.length / 2));
+
+    const images: SourceImage[] = [];
+    const placed = pages.map(page => {
+        if (typeof page === 'string' || !page.images?.length) return page;
+        const size = median(page.runs.map(r => r.size)) || 10;
+        const markers = page.images
+            .filter(image => (counts.get(key(image)) || 0) < threshold)
+            .sort((a, b) => b.y + b.height - (a.y + a.height) || a.x - b.x)
+            .map(image => {
+                const label = imageLabel(images.length + 1);
+                images.push({ label, src: image.src });
+                return { text: imageMarker(label), x: image.x, y: image.y + image.height + 1, width: image.width, size };
+            });
+        return { ...page, runs: [...page.runs, ...markers] };
+    });
+    return { pages: placed, images };
+};
+
+/** The total length of the page's text, to tell pages of text from scanned images. */
+export const pageTextLength = (page: PageLayout) => page.runs.reduce((sum, run) => sum + run.text.trim().length, 0);
+
+/**
+ * The reading text of a document's pages, pages apart by a blank line. Pages given as strings,
+ * such as OCR results, are used as they are.
+ */
+export const layoutDocument = (pages: (PageLayout | string)[]): string => {
+    const laidOut = pages.filter((page): page is PageLayout => typeof page !== 'string').map(layout => ({
+        layout,
+        lines: groupLines([...layout.runs.filter(run => run.text.trim()), ...ruleBlanks(layout)]),
+    }));
+    const kept = stripMargins(laidOut);
+
+    let next = 0;
+    return pages.map(page => {
+        if (typeof page === 'string') return page.trim();
+        const lines = kept[next++];
+        return readingOrder(lines, 0, page.width)
+            .map(block => blockText(block).join('\n'))
+            .join('\n\n')
+            .replace(/\n{3,}/g, '\n\n')
+            .trim();
+    }).filter(Boolean).join('\n\n');
+};
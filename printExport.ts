@@ -0,0 +1,190 @@
+import type { Form, FormImage, FormItem, RatingIcon } from '../types';
+import { ItemType } from '../types';
+import { isNameItem } from './formMerge';
+import { isChoiceType, isQuestionType, isSurveyType, scaleBounds } from './formValidator';
+import { answersOf, escapeXml } from './exportText';
+
+/*
+ * Print-ready HTML for paper tests. Both documents number questions the same way, so the key
+ * lines up with the student copy. The Name item is replaced by the header's Name field.
+ */
+
+const letter = (index: number) => String.fromCharCode(65 + index);
+
+const html = (text: string) => escapeXml(text).replace(/\r?\n/g, '<br>');
+
+const paragraphs = (text: string) =>
+    text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean).map(p => `<p>${html(p)}</p>`).join('');
+
+/** The printable items with each question's number; section headers and page breaks have none. */
+const numberItems = (form: Form) => {
+    let number = 0;
+    return form.items
+        .filter(item => !isNameItem(item))
+        .map(item => ({ item, number: isQuestionType(item.type) ? ++number : null }));
+};
+
+const STYLES = `
+    @page { size: A4; margin: 18mm 16mm; }
+    * { box-sizing: border-box; }
+    body { font-family: Georgia, 'Times New Roman', serif; font-size: 12pt; line-height: 1.45; color: #000; margin: 0 auto; max-width: 180mm; padding: 12mm 0; }
+    h1 { font-size: 18pt; margin: 0 0 4pt; }
+    .description { margin: 0 0 10pt; }
+    .fields { display: flex; gap: 12pt; margin: 10pt 0 16pt; padding-bottom: 10pt; border-bottom: 1.5pt solid #000; }
+    .field { flex: 1; white-space: nowrap; }
+    .field span { display: inline-block; width: 75%; border-bottom: 1pt solid #000; }
+    .field.name { flex: 2; }
+    .section { margin: 14pt 0 8pt; break-inside: avoid; }
+    .section h2 { font-size: 13pt; margin: 0 0 4pt; }
+    .section.page { break-before: page; }
+    .passage { border: 1pt solid #000; padding: 6pt 10pt; margin-top: 4pt; }
+    .passage p, .description p { margin: 0 0 6pt; }
+    .question { margin: 0 0 12pt; break-inside: avoid; }
+    .question .stem { display: flex; gap: 6pt; }
+    .question .number { font-weight: bold; min-width: 18pt; }
+    .question .points { margin-left: auto; white-space: nowrap; font-size: 10pt; }
+    .hint { font-style: italic; font-size: 10pt; }
+    .options { list-style: none; margin: 4pt 0 0 24pt; padding: 0; }
+    .options li { margin: 2pt 0; }
+    .picture { display: block; max-width: calc(100% - 24pt); max-height: 90mm; margin: 4pt 0 0 24pt; }
+    .section .picture { max-width: 100%; margin-left: 0; }
+    .options .picture { max-width: 60mm; max-height: 30mm; margin: 2pt 0 0 14pt; }
+    .line { border-bottom: 1pt solid #000; height: 22pt; margin-left: 24pt; }
+    .fill { margin: 6pt 0 0 24pt; }
+    .scale { display: flex; align-items: flex-end; gap: 10pt; margin: 4pt 0 0 24pt; }
+    .scale .value { text-align: center; }
+    .rating { margin: 4pt 0 0 24pt; font-size: 16pt; letter-spacing: 4pt; }
+    table.grid { width: auto; margin: 4pt 0 0 24pt; }
+    table.grid th, table.grid td { text-align: center; }
+    table.grid td:first-child { text-align: left; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { border: 1pt solid #000; padding: 4pt 6pt; text-align: left; vertical-align: top; }
+    td.num, th.num { width: 28pt; text-align: center; }
+    td.pts, th.pts { width: 48pt; text-align: center; }
+    tr { break-inside: avoid; }
+    tfoot td { font-weight: bold; }
+    @media screen { body { padding: 12mm; } }
+`;
+
+const page = (title: string, body: string) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeXml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+const header = (form: Form, subtitle?: string) => [
+    `<h1>${html(form.title)}${subtitle ? ` — ${escapeXml(subtitle)}` : ''}</h1>`,
+    ...(form.description ? [`<div class="description">${paragraphs(form.description)}</div>`] : []),
+].join('\n');
+
+const imageHtml = (image?: FormImage) => (image ? `<img class="picture" src="${escapeXml(image.src)}" alt="${escapeXml(image.alt || '')}">` : '');
+
+const pointsLabel = (points?: number) => (points ? `<span class="points">(${points} ${points === 1 ? 'point' : 'points'})</span>` : '');
+
+const RATING_GLYPHS: Record<RatingIcon, string> = { STAR: '☆', HEART: '♡', THUMB_UP: '👍' };
+
+const questionHtml = (item: FormItem, number: number) => {
+    const stem = `<div class="stem"><span class="number">${number}.</span><span>${html(item.title)}</span>${pointsLabel(item.points)}</div>${imageHtml(item.image)}`;
+    switch (item.type) {
+        case ItemType.MULTIPLE_CHOICE:
+        case ItemType.CHECKBOXES:
+        case ItemType.DROPDOWN: {
+            const hint = item.type === ItemType.CHECKBOXES ? '<div class="hint">Choose all that apply.</div>' : '';
+            const options = (item.options || []).map((option, i) =>
+                `<li>${letter(i)}. ${html(option)}${imageHtml(item.optionImages?.find(o => o.option === option)?.image)}</li>`).join('');
+            return `<div class="question">${stem}${hint}<ul class="options">${options}</ul></div>`;
+        }
+        case ItemType.PARAGRAPH:
+            return `<div class="question">${stem}${'<div class="line"></div>'.repeat(6)}</div>`;
+        case ItemType.LINEAR_SCALE: {
+            const { low, high } = scaleBounds(item);
+            const values = Array.from({ length: high - low + 1 }, (_, i) => `<span class="value">${low + i}<br>○</span>`).join('');
+            const label = (text?: string) => (text ? `<span>${html(text)}</span>` : '');
+            return `<div class="question">${stem}<div class="scale">${label(item.lowLabel)}${values}${label(item.highLabel)}</div></div>`;
+        }
+        case ItemType.MULTIPLE_CHOICE_GRID:
+        case ItemType.CHECKBOX_GRID: {
+            const mark = item.type === ItemType.CHECKBOX_GRID ? '☐' : '○';
+            const columns = item.options || [];
+            const head = `<tr><th></th>${columns.map(c => `<th>${html(c)}</th>`).join('')}</tr>`;
+            const rows = (item.rows || []).map(row => `<tr><td>${html(row)}</td>${columns.map(() => `<td>${mark}</td>`).join('')}</tr>`).join('');
+            const hint = item.type === ItemType.CHECKBOX_GRID ? '<div class="hint">Tick all that apply in each row.</div>' : '';
+            return `<div class="question">${stem}${hint}<table class="grid">${head}${rows}</table></div>`;
+        }
+        case ItemType.DATE:
+            return `<div class="question">${stem}<div class="fill">Date: ____ / ____ / ________${item.includeTime ? '&emsp;Time: ____ : ____' : ''}</div></div>`;
+        case ItemType.TIME:
+            return `<div class="question">${stem}<div class="fill">${item.duration ? 'Duration: ____ h ____ min ____ s' : 'Time: ____ : ____'}</div></div>`;
+        case ItemType.RATING:
+            return `<div class="question">${stem}<div class="rating">${RATING_GLYPHS[item.ratingIcon || 'STAR'].repeat(scaleBounds(item).high)}</div></div>`;
+        default:
+            return `<div class="question">${stem}<div class="line"></div></div>`;
+    }
+};
+
+/** The student copy: header fields, numbered questions, lettered options and answer lines, but no answers. */
+export const toStudentTestHtml = (form: Form): string => {
+    const fields = [
+        '<div class="fields">',
+        '<div class="field name">Name: <span></span></div>',
+        '<div class="field">Class: <span></span></div>',
+        '<div class="field">Date: <span></span></div>',
+        '</div>',
+    ].join('');
+
+    const body = numberItems(form).map(({ item, number }) => {
+        if (number === null) {
+            const passage = item.description ? `<div class="passage">${paragraphs(item.description)}</div>` : '';
+            const className = item.type === ItemType.PAGE_BREAK ? 'section page' : 'section';
+            return `<div class="${className}"><h2>${html(item.title)}</h2>${passage}${imageHtml(item.image)}</div>`;
+        }
+        return questionHtml(item, number);
+    });
+
+    return page(form.title, [header(form), fields, ...body].join('\n'));
+};
+
+const answerHtml = (item: FormItem) => {
+    const answers = answersOf(item);
+    const options = item.options || [];
+    if (answers.length === 0) {
+        if (isSurveyType(item.type)) return '<em>Survey question</em>';
+        return isChoiceType(item.type) ? '<em>No answer set</em>' : '<em>Open response</em>';
+    }
+    return answers.map(answer => {
+        const index = options.indexOf(answer);
+        return index === -1 ? html(answer) : `${letter(index)}. ${html(answer)}`;
+    }).join('<br>');
+};
+
+/** The explanation to read out when going over the test, if the item has one. */
+const explanationHtml = (item: FormItem) => {
+    const text = item.feedback?.incorrect || item.feedback?.general;
+    return text ? `<div class="hint">${html(text)}</div>` : '';
+};
+
+/** The teacher's key: each question's answer and points, with the total. */
+export const toAnswerKeyHtml = (form: Form): string => {
+    const questions = numberItems(form).filter((entry): entry is { item: FormItem; number: number } => entry.number !== null);
+    const total = questions.reduce((sum, { item }) => sum + (item.points || 0), 0);
+
+    const rows = questions.map(({ item, number }) =>
+        `<tr><td class="num">${number}</td><td>${answerHtml(item)}${explanationHtml(item)}</td><td class="pts">${item.points || ''}</td></tr>`);
+
+    const table = [
+        '<table>',
+        '<thead><tr><th class="num">#</th><th>Answer</th><th class="pts">Points</th></tr></thead>',
+        `<tbody>${rows.join('\n')}</tbody>`,
+        `<tfoot><tr><td></td><td>Total</td><td class="pts">${total}</td></tr></tfoot>`,
+        '</table>',
+    ].join('\n');
+
+    return page(`${form.title} — Answer key`, [header({ ...form, description: '' }, 'Answer key'), table].join('\n'));
+};
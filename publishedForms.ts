@@ -0,0 +1,35 @@
+/** A Google Form this browser created or imported, so later edits can update it in place. */
+export interface PublishedForm {
+    formId: string;
+    title: string;
+    responderUri?: string;
+    updatedAt: string;
+}
+
+const STORAGE_KEY = 'formArchitect.publishedForms';
+
+export const listPublishedForms = (): PublishedForm[] => {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+        return Array.isArray(stored) ? stored : [];
+    } catch {
+        return [];
+    }
+};
+
+/** Records a form, most recent first, replacing any earlier entry for the same form. */
+export const rememberPublishedForm = (entry: Omit<PublishedForm, 'updatedAt'>) => {
+    const forms = [
+        { ...entry, updatedAt: new Date().toISOString() },
+        ...listPublishedForms().filter(f => f.formId !== entry.formId),
+    ];
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(forms));
+};
+
+export const forgetPublishedForm = (formId: string) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(listPublishedForms().filter(f => f.formId !== formId)));
+};
+
+/** The remembered form most likely to be this one: the latest with the same title. */
+export const findPublishedForm = (title: string): PublishedForm | undefined =>
+    listPublishedForms().find(f => f.title.trim().toLowerCase() === title.trim().toLowerCase());
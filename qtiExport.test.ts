@@ -0,0 +1,85 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { DOMParser } from '@xmldom/xmldom';
+import { validateXML } from 'xmllint-wasm';
+import type { XMLFileInfo } from 'xmllint-wasm';
+import { describe, expect, it } from 'vitest';
+import { EVERY_ITEM_TYPE } from './testForms';
+import { qtiSkippedItems, toQtiFiles } from './qtiExport';
+import type { QtiVersion } from './qtiExport';
+
+/*
+ * The IMS schemas are not published as a package. Put each version's XSDs, with every schema they
+ * import, in fixtures/qti-schemas/2.1 and fixtures/qti-schemas/3.0; imports of remote schemas
+ * are resolved to the file of the same name there. Without them schema validation fails under CI,
+ * and is skipped elsewhere.
+ */
+const SCHEMA_DIR = path.resolve(__dirname, 'fixtures/qti-schemas');
+
+const SCHEMAS: Record<QtiVersion, { content: string; manifest: string }> = {
+    '2.1': { content: 'imsqti_v2p1.xsd', manifest: 'qtiv2p1_imscpv1p2_v1p0.xsd' },
+    '3.0': { content: 'imsqti_asiv3p0_v1p0.xsd', manifest: 'imsqtiv3p0_imscpv1p2_v1p0.xsd' },
+};
+
+const readSchemas = (version: QtiVersion): XMLFileInfo[] | null => {
+    const dir = path.join(SCHEMA_DIR, version);
+    if (!existsSync(dir)) return null;
+    return readdirSync(dir).filter(name => name.endsWith('.xsd')).map(fileName => ({
+        fileName,
+        contents: readFileSync(path.join(dir, fileName), 'utf8').replace(/schemaLocation="[^"]*\/([^"/]+\.xsd)"/g, 'schemaLocation="$1"'),
+    }));
+};
+
+const parseXml = (xml: string) => new DOMParser({
+    onError: (level, message) => {
+        if (level !== 'warning') throw new Error(message);
+    },
+}).parseFromString(xml, 'text/xml');
+
+const text = (content: string | Uint8Array) => (typeof content === 'string' ? content : new TextDecoder().decode(content));
+
+describe.each<QtiVersion>(['2.1', '3.0'])('QTI %s package', version => {
+    const files = toQtiFiles(EVERY_ITEM_TYPE, version);
+    const paths = files.map(file => file.path);
+    const xmlFiles = files.filter(file => file.path.endsWith('.xml'));
+
+    it('writes well-formed XML', () => {
+        for (const file of xmlFiles) expect(() => parseXml(text(file.content)), file.path).not.toThrow();
+    });
+
+    it('has one item per gradable question, and passages as stimuli in 3.0', () => {
+        expect(paths.filter(p => p.startsWith('items/'))).toHaveLength(6);
+        expect(paths.filter(p => p.startsWith('stimuli/'))).toHaveLength(version === '3.0' ? 1 : 0);
+    });
+
+    it('lists the survey questions it leaves out', () => {
+        expect(qtiSkippedItems(EVERY_ITEM_TYPE).map(issue => issue.itemIndex)).toEqual([10, 11, 12, 13, 14, 15]);
+    });
+
+    it('lists every file in the manifest, and only files in the package', () => {
+        const manifest = parseXml(text(files.find(file => file.path === 'imsmanifest.xml')!.content));
+        const listed = Array.from(manifest.getElementsByTagName('file'), file => file.getAttribute('href'));
+        expect(new Set(listed)).toEqual(new Set(paths.filter(p => p !== 'imsmanifest.xml')));
+    });
+
+    it('packages the pictures and links them from the items', () => {
+        const images = files.filter(file => file.path.startsWith('images/'));
+        expect(images.map(image => image.path)).toEqual(['images/picture-1.png']);
+        expect(images[0].content).toBeInstanceOf(Uint8Array);
+        const item = text(files.find(file => file.path === 'items/item-3.xml')!.content);
+        expect(item.match(/src="\.\.\/images\/picture-1\.png"/g)).toHaveLength(2);
+    });
+
+    const schemas = readSchemas(version);
+    it.skipIf(!schemas && !process.env.CI).each(xmlFiles.map(file => file.path))('%s is valid against the QTI schema', async filePath => {
+        if (!schemas) throw new Error(`The QTI ${version} XSDs are missing from ${path.join(SCHEMA_DIR, version)}.`);
+        const file = files.find(f => f.path === filePath)!;
+        const main = filePath === 'imsmanifest.xml' ? SCHEMAS[version].manifest : SCHEMAS[version].content;
+        const result = await validateXML({
+            xml: { fileName: path.basename(filePath), contents: text(file.content) },
+            schema: schemas.find(schema => schema.fileName === main)!,
+            preload: schemas.filter(schema => schema.fileName !== main),
+        });
+        expect(result.errors.map(error => error.rawMessage)).toEqual([]);
+    });
+});
@@ -0,0 +1,353 @@
+import type { Form, FormImage, FormItem } from '../types';
+import { ItemType } from '../types';
+import { isNameItem } from './formMerge';
+import { isQuestionType, isSurveyType } from './formValidator';
+import { answersOf, countBlanks, escapeXml, questionName, splitAtBlank } from './exportText';
+import type { ExportIssue } from './exportText';
+import { dataUrlBytes, dataUrlParts, imageExtension } from './formImages';
+import { createZip } from './zip';
+import type { ZipEntry } from './zip';
+
+/*
+ * IMS QTI content packages. Items are written once with QTI 2.1 element names; QTI 3.0 uses
+ * the same model with `qti-` prefixed, kebab-case names, so `name()` and `attr()` translate.
+ * Like the Moodle exporter, the respondent Name item is left out, and so are survey questions,
+ * which `qtiSkippedItems` lists. Pictures are packaged as files
+ * under `images/`, except ones on the web, which are linked.
+ */
+
+export type QtiVersion = '2.1' | '3.0';
+
+interface VersionInfo {
+    namespace: string;
+    schemaLocation: string;
+    manifestNamespace: string;
+    manifestSchemaLocation: string;
+    manifestSchema: string;
+    resourceSuffix: string;
+    mapResponseTemplate: string;
+}
+
+const VERSIONS: Record<QtiVersion, VersionInfo> = {
+    '2.1': {
+        namespace: 'http://www.imsglobal.org/xsd/imsqti_v2p1',
+        schemaLocation: 'http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd',
+        manifestNamespace: 'http://www.imsglobal.org/xsd/imscp_v1p1',
+        manifestSchemaLocation: 'http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd',
+        manifestSchema: 'QTIv2.1 Package',
+        resourceSuffix: 'xmlv2p1',
+        mapResponseTemplate: 'http://www.imsglobal.org/question/qti_v2p1/rptemplates/map_response',
+    },
+    '3.0': {
+        namespace: 'http://www.imsglobal.org/xsd/imsqtiasi_v3p0',
+        schemaLocation: 'https://purl.imsglobal.org/spec/qti/v3p0/schema/xsd/imsqti_asiv3p0_v1p0.xsd',
+        manifestNamespace: 'http://www.imsglobal.org/xsd/qti/qtiv3p0/imscp_v1p1',
+        manifestSchemaLocation: 'https://purl.imsglobal.org/spec/qti/v3p0/schema/xsd/imsqtiv3p0_imscpv1p2_v1p0.xsd',
+        manifestSchema: 'QTI Package',
+        resourceSuffix: 'xmlv3p0',
+        mapResponseTemplate: 'https://purl.imsglobal.org/spec/qti/v3p0/rptemplates/map_response.xml',
+    },
+};
+
+const XSI = 'http://www.w3.org/2001/XMLSchema-instance';
+
+const kebab = (camel: string) => camel.replace(/[A-Z]/g, c => `-${c.toLowerCase()}`);
+
+/** A QTI element builder for one version. HTML content elements are written as-is. */
+const createWriter = (version: QtiVersion) => {
+    const name = (qtiName: string) => (version === '3.0' ? `qti-${kebab(qtiName)}` : qtiName);
+    const attr = (qtiName: string) => (version === '3.0' && !qtiName.includes(':') ? kebab(qtiName) : qtiName);
+
+    const el = (qtiName: string, attrs: Record<string, string | number | boolean | undefined>, ...children: string[]) => {
+        const attrText = Object.entries(attrs)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => ` ${attr(key)}="${escapeXml(String(value))}"`)
+            .join('');
+        const content = children.join('');
+        return content ? `<${name(qtiName)}${attrText}>${content}</${name(qtiName)}>` : `<${name(qtiName)}${attrText}/>`;
+    };
+
+    return { el, info: VERSIONS[version] };
+};
+
+type Writer = ReturnType<typeof createWriter>;
+
+// --- Content ---
+
+const inlineHtml = (text: string) => escapeXml(text).replace(/\r?\n/g, '<br/>');
+
+/** Paragraphs separated by blank lines become `<p>` elements; single line breaks become `<br/>`. */
+const blockHtml = (text: string) =>
+    text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean).map(p => `<p>${inlineHtml(p)}</p>`).join('') || '<p/>';
+
+const formatScore = (value: number) => String(Math.round(value * 10000) / 10000);
+
+/** Package paths of the pictures stored in it, by their data URL. */
+type ImagePaths = Map<string, string>;
+
+/** A picture, its path relative to `base`: the folder of the file that shows it. */
+const imageHtml = (image: FormImage | undefined, images: ImagePaths, base = '') => {
+    if (!image) return '';
+    const path = images.get(image.src);
+    return `<img src="${escapeXml(path ? base + path : image.src)}" alt="${escapeXml(image.alt || '')}"/>`;
+};
+
+/** A shared passage's title, text and picture. */
+const passageHtml = (passage: FormItem, images: ImagePaths, base: string) =>
+    `<h3>${inlineHtml(passage.title)}</h3>${blockHtml(passage.description || '')}${passage.image ? `<p>${imageHtml(passage.image, images, base)}</p>` : ''}`;
+
+// --- Items ---
+
+interface QtiItem {
+    identifier: string;
+    item: FormItem;
+    /** The shared passage this item refers to, if any. */
+    stimulus?: QtiStimulus;
+}
+
+interface QtiStimulus {
+    identifier: string;
+    passage: FormItem;
+}
+
+const choiceId = (index: number) => `choice-${index + 1}`;
+
+/** Points for each option of a CHECKBOXES item: correct options share the points, wrong ones take them back. */
+const checkboxScores = (item: FormItem, points: number): number[] => {
+    const answers = answersOf(item);
+    const options = item.options || [];
+    const wrongCount = options.length - answers.length;
+    return options.map(option => answers.includes(option)
+        ? points / answers.length
+        : wrongCount > 0 ? -points / wrongCount : 0);
+};
+
+const isChoice = (item: FormItem) =>
+    (item.type === ItemType.MULTIPLE_CHOICE || item.type === ItemType.CHECKBOXES || item.type === ItemType.DROPDOWN)
+    && (item.options || []).length > 0;
+
+/** The response declaration, with the correct response and a score mapping when the item is graded. */
+const responseDeclaration = (w: Writer, item: FormItem): { xml: string; graded: boolean } => {
+    const answers = answersOf(item);
+    const points = item.points ?? 1;
+
+    if (isChoice(item)) {
+        const options = item.options || [];
+        const multiple = item.type === ItemType.CHECKBOXES;
+        const correctIds = options.map((o, i) => (answers.includes(o) ? choiceId(i) : null)).filter((id): id is string => id !== null);
+        const graded = correctIds.length > 0;
+        const scores = multiple ? checkboxScores(item, points) : options.map(o => (answers.includes(o) ? points : 0));
+        const mapping = graded
+            ? w.el('mapping', { defaultValue: 0, lowerBound: 0, upperBound: formatScore(points) },
+                ...options.map((_, i) => w.el('mapEntry', { mapKey: choiceId(i), mappedValue: formatScore(scores[i]), caseSensitive: true })))
+            : '';
+        const correct = graded ? w.el('correctResponse', {}, ...correctIds.map(id => w.el('value', {}, id))) : '';
+        return {
+            xml: w.el('responseDeclaration', { identifier: 'RESPONSE', cardinality: multiple ? 'multiple' : 'single', baseType: 'identifier' }, correct, mapping),
+            graded,
+        };
+    }
+
+    const answer = item.type === ItemType.PARAGRAPH ? undefined : answers[0];
+    const graded = Boolean(answer);
+    return {
+        xml: w.el('responseDeclaration', { identifier: 'RESPONSE', cardinality: 'single', baseType: 'string' },
+            graded ? w.el('correctResponse', {}, w.el('value', {}, escapeXml(answer!))) : '',
+            graded ? w.el('mapping', { defaultValue: 0 }, w.el('mapEntry', { mapKey: answer, mappedValue: formatScore(points), caseSensitive: false })) : ''),
+        graded,
+    };
+};
+
+/** Inline choices hold text only, so only simple choices show the option pictures. */
+const simpleChoices = (w: Writer, item: FormItem, tag: 'simpleChoice' | 'inlineChoice', images: ImagePaths) =>
+    (item.options || []).map((option, i) => w.el(tag, { identifier: choiceId(i) }, escapeXml(option),
+        tag === 'simpleChoice' ? imageHtml(item.optionImages?.find(o => o.option === option)?.image, images, '../') : ''));
+
+/** Puts an inline interaction where the title's blank is, or after the title if it has none. */
+const inlineInTitle = (title: string, interaction: string) => {
+    if (countBlanks(title) === 0) return `<p>${inlineHtml(title)} ${interaction}</p>`;
+    const [before, after] = splitAtBlank(title);
+    return `<p>${inlineHtml(before)}${interaction}${inlineHtml(after)}</p>`;
+};
+
+const interaction = (w: Writer, item: FormItem, images: ImagePaths): string => {
+    if (isChoice(item) && item.type === ItemType.DROPDOWN) {
+        return inlineInTitle(item.title, w.el('inlineChoiceInteraction', { responseIdentifier: 'RESPONSE', shuffle: false }, ...simpleChoices(w, item, 'inlineChoice', images)));
+    }
+    if (isChoice(item)) {
+        return w.el('choiceInteraction', { responseIdentifier: 'RESPONSE', shuffle: false, maxChoices: item.type === ItemType.CHECKBOXES ? 0 : 1 },
+            w.el('prompt', {}, inlineHtml(item.title)), ...simpleChoices(w, item, 'simpleChoice', images));
+    }
+    if (item.type === ItemType.PARAGRAPH) {
+        return w.el('extendedTextInteraction', { responseIdentifier: 'RESPONSE', expectedLines: 10 }, w.el('prompt', {}, inlineHtml(item.title)));
+    }
+    return inlineInTitle(item.title, w.el('textEntryInteraction', { responseIdentifier: 'RESPONSE', expectedLength: 30 }));
+};
+
+const assessmentItem = (w: Writer, { identifier, item, stimulus }: QtiItem, version: QtiVersion, images: ImagePaths) => {
+    const { xml: response, graded } = responseDeclaration(w, item);
+    const points = graded ? item.points ?? 1 : 0;
+    const outcomes = [
+        w.el('outcomeDeclaration', { identifier: 'SCORE', cardinality: 'single', baseType: 'float' }, w.el('defaultValue', {}, w.el('value', {}, '0'))),
+        w.el('outcomeDeclaration', { identifier: 'MAXSCORE', cardinality: 'single', baseType: 'float' }, w.el('defaultValue', {}, w.el('value', {}, formatScore(points)))),
+    ];
+    // QTI 3.0 references the shared passage; 2.1 has no stimulus element, so the passage is
+    // carried by a rubric block on the test section instead (see `assessmentTest`).
+    const stimulusRef = stimulus && version === '3.0'
+        ? w.el('assessmentStimulusRef', { identifier: stimulus.identifier, href: `../stimuli/${stimulus.identifier}.xml`, title: questionName(stimulus.passage) })
+        : '';
+    const description = item.description ? blockHtml(item.description) : '';
+    const picture = item.image ? `<p>${imageHtml(item.image, images, '../')}</p>` : '';
+
+    return `<?xml version="1.0" encoding="UTF-8"?>\n` + w.el('assessmentItem', {
+        'xmlns': w.info.namespace,
+        'xmlns:xsi': XSI,
+        'xsi:schemaLocation': `${w.info.namespace} ${w.info.schemaLocation}`,
+        identifier,
+        title: questionName(item),
+        adaptive: false,
+        timeDependent: false,
+    },
+        response,
+        ...outcomes,
+        stimulusRef,
+        w.el('itemBody', {}, picture, interaction(w, item, images), description),
+        graded ? w.el('responseProcessing', { template: w.info.mapResponseTemplate }) : '',
+    ) + '\n';
+};
+
+const assessmentStimulus = (w: Writer, { identifier, passage }: QtiStimulus, images: ImagePaths) =>
+    `<?xml version="1.0" encoding="UTF-8"?>\n` + w.el('assessmentStimulus', {
+        'xmlns': w.info.namespace,
+        'xmlns:xsi': XSI,
+        'xsi:schemaLocation': `${w.info.namespace} ${w.info.schemaLocation}`,
+        identifier,
+        title: questionName(passage),
+    }, w.el('stimulusBody', {}, passageHtml(passage, images, '../'))) + '\n';
+
+// --- Test and manifest ---
+
+interface QtiSection {
+    identifier: string;
+    title: string;
+    stimulus?: QtiStimulus;
+    items: QtiItem[];
+}
+
+/**
+ * Groups items into test sections. Every SECTION_HEADER and PAGE_BREAK starts a new section; a
+ * SECTION_HEADER with a description or picture is a passage shared by the section's questions.
+ */
+const planSections = (form: Form): QtiSection[] => {
+    const sections: QtiSection[] = [{ identifier: 'section-1', title: form.title, items: [] }];
+    let itemCount = 0;
+    let stimulusCount = 0;
+
+    for (const item of form.items.filter(i => !isNameItem(i))) {
+        if (!isQuestionType(item.type)) {
+            const stimulus = item.type === ItemType.SECTION_HEADER && (item.description || item.image) ? { identifier: `stimulus-${++stimulusCount}`, passage: item } : undefined;
+            sections.push({ identifier: `section-${sections.length + 1}`, title: item.title || form.title, stimulus, items: [] });
+            continue;
+        }
+        // Survey questions have no interaction that fits, as in the other quiz formats; see `qtiSkippedItems`.
+        if (isSurveyType(item.type)) continue;
+        const section = sections[sections.length - 1];
+        section.items.push({ identifier: `item-${++itemCount}`, item, stimulus: section.stimulus });
+    }
+
+    return sections.filter(s => s.items.length > 0);
+};
+
+/** The pictures an item shows, as far as its interaction can show them. */
+const itemImages = (item: FormItem): FormImage[] => [
+    ...(item.image ? [item.image] : []),
+    ...(isChoice(item) && item.type !== ItemType.DROPDOWN ? (item.optionImages || []).map(o => o.image) : []),
+];
+
+/** Gives each stored picture the package shows a path, numbering them in order. */
+const packageImages = (sections: QtiSection[]): ImagePaths => {
+    const paths: ImagePaths = new Map();
+    const shown = sections.flatMap(s => [...(s.stimulus?.passage.image ? [s.stimulus.passage.image] : []), ...s.items.flatMap(i => itemImages(i.item))]);
+    for (const image of shown) {
+        const parts = dataUrlParts(image.src);
+        if (parts && !paths.has(image.src)) paths.set(image.src, `images/picture-${paths.size + 1}.${imageExtension(parts.mimeType)}`);
+    }
+    return paths;
+};
+
+/** The package paths of the given pictures, for the manifest. */
+const imageFiles = (images: ImagePaths, shown: FormImage[]) =>
+    [...new Set(shown.flatMap(image => (images.has(image.src) ? [images.get(image.src)!] : [])))];
+
+/** The items the package leaves out: survey questions. */
+export const qtiSkippedItems = (form: Form): ExportIssue[] => form.items.flatMap((item, itemIndex) => (isSurveyType(item.type)
+    ? [{ itemIndex, title: item.title, message: 'Survey questions have no QTI interaction that fits.' }]
+    : []));
+
+const assessmentTest = (w: Writer, form: Form, sections: QtiSection[], version: QtiVersion, images: ImagePaths) =>
+    `<?xml version="1.0" encoding="UTF-8"?>\n` + w.el('assessmentTest', {
+        'xmlns': w.info.namespace,
+        'xmlns:xsi': XSI,
+        'xsi:schemaLocation': `${w.info.namespace} ${w.info.schemaLocation}`,
+        identifier: 'test',
+        title: form.title,
+    },
+        w.el('testPart', { identifier: 'part-1', navigationMode: 'nonlinear', submissionMode: 'simultaneous' },
+            ...sections.map(section => w.el('assessmentSection', { identifier: section.identifier, title: section.title, visible: true },
+                section.stimulus && version === '2.1'
+                    ? w.el('rubricBlock', { view: 'candidate' }, passageHtml(section.stimulus.passage, images, ''))
+                    : '',
+                ...section.items.map(({ identifier }) => w.el('assessmentItemRef', { identifier, href: `items/${identifier}.xml` })),
+            ))),
+    ) + '\n';
+
+const manifest = (w: Writer, sections: QtiSection[], version: QtiVersion, images: ImagePaths) => {
+    const type = (kind: string) => `imsqti_${kind}_${w.info.resourceSuffix}`;
+    const items = sections.flatMap(s => s.items);
+    const stimuli = version === '3.0' ? sections.flatMap(s => (s.stimulus ? [s.stimulus] : [])) : [];
+    // QTI 2.1 shows passages on the test, so their pictures belong to it.
+    const testImages = version === '2.1' ? sections.flatMap(s => (s.stimulus?.passage.image ? [s.stimulus.passage.image] : [])) : [];
+    const resource = (identifier: string, kind: string, href: string, dependencies: string[] = [], shown: FormImage[] = []) =>
+        `    <resource identifier="${identifier}" type="${type(kind)}" href="${href}">\n` +
+        `      <file href="${href}"/>\n` +
+        imageFiles(images, shown).map(path => `      <file href="${path}"/>\n`).join('') +
+        dependencies.map(d => `      <dependency identifierref="${d}"/>\n`).join('') +
+        `    </resource>`;
+
+    return [
+        `<?xml version="1.0" encoding="UTF-8"?>`,
+        `<manifest xmlns="${w.info.manifestNamespace}" xmlns:xsi="${XSI}" identifier="manifest" xsi:schemaLocation="${w.info.manifestNamespace} ${w.info.manifestSchemaLocation}">`,
+        `  <metadata>`,
+        `    <schema>${w.info.manifestSchema}</schema>`,
+        `    <schemaversion>${version === '3.0' ? '3.0.0' : '1.0.0'}</schemaversion>`,
+        `  </metadata>`,
+        `  <organizations/>`,
+        `  <resources>`,
+        resource('test', 'test', 'test.xml', items.map(i => i.identifier), testImages),
+        ...items.map(i => resource(i.identifier, 'item', `items/${i.identifier}.xml`, i.stimulus && version === '3.0' ? [i.stimulus.identifier] : [], itemImages(i.item))),
+        ...stimuli.map(s => resource(s.identifier, 'stimulus', `stimuli/${s.identifier}.xml`, [], s.passage.image ? [s.passage.image] : [])),
+        `  </resources>`,
+        `</manifest>`,
+        ``,
+    ].join('\n');
+};
+
+/** The files of a QTI content package, before zipping. */
+export const toQtiFiles = (form: Form, version: QtiVersion): ZipEntry[] => {
+    const w = createWriter(version);
+    const sections = planSections(form);
+    const items = sections.flatMap(s => s.items);
+    const stimuli = version === '3.0' ? sections.flatMap(s => (s.stimulus ? [s.stimulus] : [])) : [];
+    const images = packageImages(sections);
+
+    return [
+        { path: 'imsmanifest.xml', content: manifest(w, sections, version, images) },
+        { path: 'test.xml', content: assessmentTest(w, form, sections, version, images) },
+        ...items.map(item => ({ path: `items/${item.identifier}.xml`, content: assessmentItem(w, item, version, images) })),
+        ...stimuli.map(stimulus => ({ path: `stimuli/${stimulus.identifier}.xml`, content: assessmentStimulus(w, stimulus, images) })),
+        ...[...images].map(([src, path]) => ({ path, content: dataUrlBytes(src)! })),
+    ];
+};
+
+/** Exports the form as a zipped QTI content package: manifest, test, one file per question, and the pictures. */
+export const toQtiPackage = (form: Form, version: QtiVersion): Blob => createZip(toQtiFiles(form, version));
@@ -0,0 +1,112 @@
+/** What has been recovered so far from a partially received form response. */
+export interface StreamedFormSnapshot {
+    title?: string;
+    description?: string;
+    /** Every `items` entry whose closing brace has arrived, parsed but not yet validated. */
+    items: unknown[];
+}
+
+/**
+ * Incrementally scans a streamed `{ "title", "description", "items": [...] }` response and
+ * surfaces each `items` entry as soon as it is complete. Feed it text with `push` in the order
+ * it arrives; it never re-scans text it has already seen.
+ */
+export const createFormStreamParser = () => {
+    let buffer = '';
+    let position = 0;
+    let started = false;
+    let depth = 0;
+    let inString = false;
+    let stringStart = -1;
+    // Inside the root object: whether the next string is a key, and the most recent key.
+    let expectKey = false;
+    let lastKey: string | null = null;
+    let itemsDepth = -1;
+    let itemStart = -1;
+    const snapshot: StreamedFormSnapshot = { items: [] };
+
+    const readString = (start: number, end: number): string | undefined => {
+        try {
+            return JSON.parse(buffer.slice(start, end));
+        } catch {
+            return undefined;
+        }
+    };
+
+    const push = (text: string): StreamedFormSnapshot => {
+        buffer += text;
+        for (; position < buffer.length; position++) {
+            const char = buffer[position];
+
+            if (!started) {
+                // Skip anything (such as a markdown fence) before the root object.
+                if (char === '{') {
+                    started = true;
+                    depth = 1;
+                    expectKey = true;
+                }
+                continue;
+            }
+
+            if (inString) {
+                if (char === '\\') {
+                    position++;
+                } else if (char === '"') {
+                    inString = false;
+                    if (depth === 1) {
+                        const value = readString(stringStart, position + 1);
+                        if (expectKey) {
+                            lastKey = value ?? null;
+                            expectKey = false;
+                        } else if (lastKey === 'title' || lastKey === 'description') {
+                            snapshot[lastKey] = value;
+                        }
+                    }
+                }
+                continue;
+            }
+
+            switch (char) {
+                case '"':
+                    inString = true;
+                    stringStart = position;
+                    break;
+                case ',':
+                    if (depth === 1) expectKey = true;
+                    break;
+                case '{':
+                case '[':
+                    depth++;
+                    if (char === '[' && depth === 2 && lastKey === 'items') itemsDepth = depth;
+                    if (char === '{' && itemsDepth !== -1 && depth === itemsDepth + 1) itemStart = position;
+                    break;
+                case '}':
+                case ']':
+                    if (char === '}' && itemStart !== -1 && depth === itemsDepth + 1) {
+                        const item = readItem(buffer.slice(itemStart, position + 1));
+                        if (item !== undefined) snapshot.items.push(item);
+                        itemStart = -1;
+                    }
+                    if (char === ']' && depth === itemsDepth) itemsDepth = -1;
+                    depth--;
+                    break;
+            }
+        }
+        return { ...snapshot, items: [...snapshot.items] };
+    };
+
+    return { push };
+};
+
+const readItem = (text: string): unknown => {
+    try {
+        return JSON.parse(text);
+    } catch {
+        // Tolerate the trailing commas models sometimes leave inside an item.
+        try {
+            return JSON.parse(text.replace(/,(?=\s*[}\]])/g, ''));
+        } catch {
+            return undefined;
+        }
+    }
+};
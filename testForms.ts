@@ -0,0 +1,43 @@
+import type { Form, FormImage } from '../types';
+import { ItemType } from '../types';
+
+/* Forms shared by the tests. */
+
+/** A 1×1 PNG. */
+export const PIXEL: FormImage = {
+    src: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=',
+    alt: 'A dot',
+};
+
+/** One item of every type, with a passage and its blanks, feedback, branches and pictures. */
+export const EVERY_ITEM_TYPE: Form = {
+    title: 'Every item type',
+    description: 'A form that uses every kind of item.',
+    items: [
+        { title: 'Your name', type: ItemType.SHORT_ANSWER, required: true },
+        { title: 'Capital of France', type: ItemType.SHORT_ANSWER, correctAnswer: 'Paris', points: 1, feedback: { general: 'Paris is on the Seine.' } },
+        { title: 'Describe the water cycle.', type: ItemType.PARAGRAPH, points: 5 },
+        {
+            title: '2 + 2 = ?',
+            type: ItemType.MULTIPLE_CHOICE,
+            options: ['3', '4', '5'],
+            correctAnswer: '4',
+            points: 1,
+            image: PIXEL,
+            optionImages: [{ option: '4', image: PIXEL }],
+            feedback: { correct: 'Right.', incorrect: 'Count again.', links: [{ url: 'https://example.com/sums', label: 'Sums' }] },
+        },
+        { title: 'Pick the primes', type: ItemType.CHECKBOXES, options: ['2', '3', '4'], correctAnswer: ['2', '3'], points: 2 },
+        { title: 'Reading', type: ItemType.SECTION_HEADER, description: 'The cat sat on the ____. It was ____.' },
+        { title: 'Blank 1', type: ItemType.DROPDOWN, options: ['mat', 'happy'], correctAnswer: 'mat', points: 1 },
+        { title: 'Blank 2', type: ItemType.DROPDOWN, options: ['mat', 'happy'], correctAnswer: 'happy', points: 1 },
+        { title: 'A map', type: ItemType.SECTION_HEADER, image: PIXEL },
+        { title: 'Part two', type: ItemType.PAGE_BREAK, pageId: 'part-two', description: 'Tell us what you think.' },
+        { title: 'How much did you enjoy it?', type: ItemType.LINEAR_SCALE, low: 1, high: 5, lowLabel: 'Not at all', highLabel: 'A lot' },
+        { title: 'Rate each topic', type: ItemType.MULTIPLE_CHOICE_GRID, rows: ['Sums', 'Primes'], options: ['Easy', 'Hard'] },
+        { title: 'Which topics did you revise?', type: ItemType.CHECKBOX_GRID, rows: ['Sums', 'Primes'], options: ['Week 1', 'Week 2'] },
+        { title: 'When did you start?', type: ItemType.DATE, includeTime: true },
+        { title: 'How long did it take?', type: ItemType.TIME, duration: true },
+        { title: 'Overall rating', type: ItemType.RATING, high: 5, ratingIcon: 'STAR' },
+    ],
+};
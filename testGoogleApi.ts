@@ -0,0 +1,195 @@
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import type { ApiForm, ApiItem } from './googleFormsApi';
+
+/*
+ * A local mock of the Forms and Drive REST APIs, for tests. It keeps forms in memory, applies
+ * `batchUpdate` requests the way Google does, including `writeControl` revisions, and can be told
+ * to fail particular calls. Point the app at it with the `GOOGLE_*_URL` variables from `urls`.
+ */
+
+/** How a call the mock is told to fail goes wrong. */
+export type Fault =
+    /** Handles the call as usual; for failing a later call rather than the next. */
+    | { pass: true }
+    /** Answers with this status instead of handling the call. */
+    | { status: number; message?: string }
+    /** Handles the call, then drops the connection, so the client never sees the answer. */
+    | { lostResponse: true }
+    /** Someone else edits the form just before the call is handled. */
+    | { concurrentEdit: true };
+
+interface BatchRequest {
+    createItem?: { item: ApiItem; location: { index: number } };
+    updateItem?: { item: ApiItem; location: { index: number }; updateMask: string };
+    deleteItem?: { location: { index: number } };
+    moveItem?: { originalLocation: { index: number }; newLocation: { index: number } };
+    updateFormInfo?: { info: ApiForm['info'] };
+    updateSettings?: { settings: { quizSettings?: { isQuiz?: boolean } } };
+}
+
+interface MockForm extends ApiForm {
+    items: ApiItem[];
+    revision: number;
+    isQuiz: boolean;
+}
+
+export interface MockGoogleApi {
+    urls: { forms: string; drive: string; upload: string };
+    forms: Map<string, MockForm>;
+    trashed: Set<string>;
+    uploads: Map<string, { mimeType: string; size: number }>;
+    /** Every call, as "METHOD path". */
+    calls: string[];
+    /** Makes the next calls whose "METHOD path" matches `pattern` fail, one fault per call. */
+    fail: (pattern: RegExp, ...faults: Fault[]) => void;
+    close: () => Promise<void>;
+}
+
+const readBody = (req: IncomingMessage) => new Promise<Buffer>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+const send = (res: ServerResponse, status: number, body?: object) => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(body ? JSON.stringify(body) : undefined);
+};
+
+const apiError = (status: number, message: string) => ({ status, body: { error: { code: status, message } } });
+
+/** Applies one `batchUpdate` request to the form's items. */
+const applyRequest = (form: MockForm, request: BatchRequest) => {
+    if (request.createItem) {
+        const item = { ...request.createItem.item, itemId: `item-${Math.random().toString(36).slice(2, 10)}` };
+        form.items.splice(request.createItem.location.index, 0, item);
+    } else if (request.updateItem) {
+        const { index } = request.updateItem.location;
+        form.items[index] = { ...form.items[index], ...request.updateItem.item, itemId: form.items[index].itemId };
+    } else if (request.deleteItem) {
+        form.items.splice(request.deleteItem.location.index, 1);
+    } else if (request.moveItem) {
+        const [item] = form.items.splice(request.moveItem.originalLocation.index, 1);
+        form.items.splice(request.moveItem.newLocation.index, 0, item);
+    } else if (request.updateFormInfo) {
+        form.info = { ...form.info, ...request.updateFormInfo.info };
+    } else if (request.updateSettings) {
+        form.isQuiz = Boolean(request.updateSettings.settings.quizSettings?.isQuiz);
+    } else {
+        throw new Error(`Unknown request ${Object.keys(request).join(', ')}`);
+    }
+};
+
+export const startMockGoogleApi = async (): Promise<MockGoogleApi> => {
+    const forms = new Map<string, MockForm>();
+    const trashed = new Set<string>();
+    const uploads = new Map<string, { mimeType: string; size: number }>();
+    const calls: string[] = [];
+    const faults: { pattern: RegExp; fault: Fault }[] = [];
+    let nextId = 1;
+
+    const revisionOf = (form: MockForm) => `revision-${form.revision}`;
+    const publicForm = (form: MockForm): ApiForm => ({
+        formId: form.formId,
+        info: form.info,
+        items: form.items,
+        responderUri: form.responderUri,
+        revisionId: revisionOf(form),
+    });
+
+    const handle = async (method: string, path: string, body: Buffer, contentType: string): Promise<{ status: number; body?: object }> => {
+        let match: RegExpMatchArray | null;
+        if (method === 'POST' && path === '/v1/forms') {
+            const { info } = JSON.parse(body.toString());
+            const formId = `form-${nextId++}-abcdefghijklmnopqrstuvwxyz`;
+            const form: MockForm = { formId, info, items: [], revision: 1, isQuiz: false, responderUri: `https://docs.google.com/forms/d/e/${formId}/viewform` };
+            forms.set(formId, form);
+            return { status: 200, body: publicForm(form) };
+        }
+        if ((match = path.match(/^\/v1\/forms\/([^/:]+)(:batchUpdate)?$/))) {
+            const form = forms.get(decodeURIComponent(match[1]));
+            if (!form || trashed.has(form.formId)) return apiError(404, 'Requested entity was not found.');
+            if (method === 'GET' && !match[2]) return { status: 200, body: publicForm(form) };
+            if (method === 'POST' && match[2]) {
+                const { requests, writeControl } = JSON.parse(body.toString());
+                if (writeControl?.requiredRevisionId && writeControl.requiredRevisionId !== revisionOf(form)) {
+                    return apiError(400, 'The required revision ID does not match the latest revision.');
+                }
+                const items = [...form.items];
+                try {
+                    requests.forEach((request: BatchRequest) => applyRequest(form, request));
+                } catch (err) {
+                    form.items = items;
+                    return apiError(400, err instanceof Error ? err.message : 'Invalid request.');
+                }
+                form.revision++;
+                return { status: 200, body: { replies: requests.map(() => ({})), writeControl: { requiredRevisionId: revisionOf(form) } } };
+            }
+        }
+        if (method === 'POST' && path.startsWith('/upload/drive/v3/files')) {
+            const boundary = contentType.match(/boundary=(.+)$/)?.[1];
+            if (!boundary) return apiError(400, 'Expected a multipart upload.');
+            const parts = body.toString('latin1').split(`--${boundary}`).slice(1, -1);
+            const metadata = JSON.parse(parts[0].split('\r\n\r\n')[1]);
+            const id = `file-${nextId++}`;
+            uploads.set(id, { mimeType: metadata.mimeType, size: parts[1].split('\r\n\r\n').slice(1).join('\r\n\r\n').length - 2 });
+            return { status: 200, body: { id, webContentLink: `https://drive.google.com/uc?id=${id}&export=download` } };
+        }
+        if (method === 'POST' && (match = path.match(/^\/drive\/v3\/files\/([^/]+)\/permissions$/))) {
+            return uploads.has(decodeURIComponent(match[1])) ? { status: 200, body: { id: 'anyoneWithLink' } } : apiError(404, 'File not found.');
+        }
+        if (method === 'PATCH' && (match = path.match(/^\/drive\/v3\/files\/([^/]+)$/))) {
+            const id = decodeURIComponent(match[1]);
+            if (!forms.has(id) && !uploads.has(id)) return apiError(404, 'File not found.');
+            if (JSON.parse(body.toString()).trashed) trashed.add(id);
+            return { status: 200, body: { id } };
+        }
+        return apiError(404, `No mock for ${method} ${path}.`);
+    };
+
+    const server: Server = createServer(async (req, res) => {
+        const path = (req.url || '').split('?')[0];
+        const call = `${req.method} ${path}`;
+        calls.push(call);
+        const body = await readBody(req);
+        const at = faults.findIndex(({ pattern }) => pattern.test(call));
+        const fault = at === -1 ? null : faults.splice(at, 1)[0].fault;
+
+        if (fault && 'status' in fault) {
+            send(res, fault.status, { error: { code: fault.status, message: fault.message || `Mock failure ${fault.status}.` } });
+            return;
+        }
+        if (fault && 'concurrentEdit' in fault) {
+            const form = forms.get(decodeURIComponent(path.match(/^\/v1\/forms\/([^/:]+)/)?.[1] || ''));
+            if (form) {
+                form.items.push({ itemId: 'someone-else', title: 'Added in Google Forms', textItem: {} });
+                form.revision++;
+            }
+        }
+        const result = await handle(req.method || 'GET', path, body, req.headers['content-type'] || '');
+        if (fault && 'lostResponse' in fault) {
+            req.socket.destroy();
+            return;
+        }
+        send(res, result.status, result.body);
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    return {
+        urls: { forms: `${base}/v1`, drive: `${base}/drive/v3`, upload: `${base}/upload/drive/v3` },
+        forms,
+        trashed,
+        uploads,
+        calls,
+        fail: (pattern, ...list) => list.forEach(fault => faults.push({ pattern, fault })),
+        close: () => new Promise<void>((resolve, reject) => {
+            server.close(err => (err ? reject(err) : resolve()));
+            server.closeAllConnections();
+        }),
+    };
+};
@@ -0,0 +1,163 @@
+import type { Form, FormItem } from '../types';
+import { ItemType } from '../types';
+import { isNameItem } from './formMerge';
+import { isChoiceType, isQuestionType } from './formValidator';
+import { answersOf, countBlanks, questionName } from './exportText';
+import type { SheetRow } from './spreadsheet';
+
+/*
+ * Randomized versions of one test (A, B, C...) to hand out side by side. A version depends only
+ * on the master form and the seed, so the same seed always gives the same papers.
+ */
+
+export interface TestVersion {
+    /** 'A', 'B', 'C'... */
+    label: string;
+    form: Form;
+    /** The master index of each of the version's items. */
+    sourceIndices: number[];
+}
+
+export const MAX_VERSIONS = 26;
+
+// Options about the others, e.g. "All of the above", stay at the end.
+const ANCHORED_OPTION = /\b(all|none|both|neither) of (the )?(above|these|those|them)\b|^(all|none) (is|are) (correct|true)\b/i;
+// Options that name others by letter, e.g. "A and C", only make sense in the original order.
+const LETTER_REFERENCE = /^(both |only )?\(?[a-h]\)? (and|&|or) \(?[a-h]\)?\.?$/i;
+
+/** A seeded pseudo-random generator (a string hash feeding mulberry32) returning numbers in [0, 1). */
+const seededRandom = (seed: string) => {
+    let hash = 1779033703 ^ seed.length;
+    for (let i = 0; i < seed.length; i++) {
+        hash = Math.imul(hash ^ seed.charCodeAt(i), 3432918353);
+        hash = (hash << 13) | (hash >>> 19);
+    }
+    let state = hash >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+const shuffle = <T>(values: T[], random: () => number): T[] => {
+    const result = [...values];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+export const versionLabel = (index: number) => String.fromCharCode(65 + index);
+
+/**
+ * Indices of the items that must keep their place: the Name item, section headers, page breaks
+ * and the drop-downs of a fill-in-the-blank passage, which answer its blanks in order.
+ */
+const fixedIndices = (items: FormItem[]) => {
+    const fixed = new Set<number>();
+    items.forEach((item, index) => {
+        if (!isQuestionType(item.type) || isNameItem(item)) fixed.add(index);
+        if (item.type !== ItemType.SECTION_HEADER || !item.description) return;
+        const blanks = countBlanks(item.description);
+        for (let i = index + 1; i <= index + blanks && items[i]?.type === ItemType.DROPDOWN; i++) fixed.add(i);
+    });
+    return fixed;
+};
+
+/** The master's item indices in a new order; questions only move among the questions of their own section. */
+const shuffleItems = (items: FormItem[], fixed: Set<number>, random: () => number): number[] => {
+    const order: number[] = [];
+    let section: number[] = [];
+    items.forEach((_, index) => {
+        if (!fixed.has(index)) {
+            section.push(index);
+            return;
+        }
+        order.push(...shuffle(section, random), index);
+        section = [];
+    });
+    return [...order, ...shuffle(section, random)];
+};
+
+const shuffleOptions = (item: FormItem, random: () => number): FormItem => {
+    const options = item.options || [];
+    if (!isChoiceType(item.type) || options.length < 2 || options.some(o => LETTER_REFERENCE.test(o.trim()))) return item;
+    const anchored = options.filter(o => ANCHORED_OPTION.test(o));
+    const shuffled = [...shuffle(options.filter(o => !ANCHORED_OPTION.test(o)), random), ...anchored];
+    const next: FormItem = { ...item, options: shuffled };
+    // Keep the key in option order, so it reads A, C rather than C, A.
+    if (Array.isArray(item.correctAnswer)) next.correctAnswer = shuffled.filter(o => item.correctAnswer!.includes(o));
+    return next;
+};
+
+/**
+ * Creates `count` versions of the form. Questions are shuffled within their sections, passages
+ * and page breaks stay where they are, and choice options are shuffled as well.
+ */
+export const createVersions = (form: Form, count: number, seed: string): TestVersion[] => {
+    const fixed = fixedIndices(form.items);
+    return Array.from({ length: Math.min(Math.max(1, count), MAX_VERSIONS) }, (_, v) => {
+        const label = versionLabel(v);
+        const random = seededRandom(`${seed}/${label}`);
+        const sourceIndices = shuffleItems(form.items, fixed, random);
+        const items = sourceIndices.map(i => (fixed.has(i) ? form.items[i] : shuffleOptions(form.items[i], random)));
+        return {
+            label,
+            sourceIndices,
+            form: { ...form, title: `${form.title} — Version ${label}`, items },
+        };
+    });
+};
+
+/** A short random seed to show and type back in. */
+export const newVersionSeed = () => Math.random().toString(36).slice(2, 8);
+
+/** The question numbers a printed paper shows, by item index; items without one are left out. */
+const questionNumbers = (items: FormItem[]) => {
+    const numbers = new Map<number, number>();
+    items.forEach((item, index) => {
+        if (isQuestionType(item.type) && !isNameItem(item)) numbers.set(index, numbers.size + 1);
+    });
+    return numbers;
+};
+
+const answerLetters = (item: FormItem) =>
+    answersOf(item).map(answer => {
+        const index = item.options?.indexOf(answer) ?? -1;
+        return index === -1 ? answer : versionLabel(index);
+    }).join(', ');
+
+/**
+ * The table from every master question to its number and answer in each version, for marking
+ * papers of different versions against one another.
+ */
+export const versionMappingRows = (form: Form, versions: TestVersion[]): SheetRow[] => {
+    const masterNumbers = questionNumbers(form.items);
+    const versionNumbers = versions.map(version => {
+        const numbers = questionNumbers(version.form.items);
+        const byMaster = new Map<number, { number: number; item: FormItem }>();
+        version.sourceIndices.forEach((source, i) => {
+            const number = numbers.get(i);
+            if (number !== undefined) byMaster.set(source, { number, item: version.form.items[i] });
+        });
+        return byMaster;
+    });
+
+    const header: SheetRow = ['Master #', 'Question', 'Answer', ...versions.flatMap(v => [`${v.label} #`, `${v.label} answer`])];
+    const rows: SheetRow[] = [...masterNumbers].map(([index, number]) => {
+        const item = form.items[index];
+        return [
+            number,
+            questionName(item),
+            answerLetters(item) || null,
+            ...versionNumbers.flatMap(byMaster => {
+                const entry = byMaster.get(index)!;
+                return [entry.number, answerLetters(entry.item) || null];
+            }),
+        ];
+    });
+    return [header, ...rows];
+};
@@ -0,0 +1,180 @@
+export interface TolerantParseResult {
+    value: unknown;
+    /** Human-readable notes on each repair that was needed, empty for clean JSON. */
+    repairs: string[];
+    /** True when the input ended mid-value and unfinished content was cut off. */
+    truncated: boolean;
+}
+
+export class JsonRepairError extends Error {
+    constructor(message: string, readonly position?: number) {
+        super(message);
+        this.name = 'JsonRepairError';
+    }
+}
+
+const FENCE_REGEX = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
+
+/**
+ * Removes comments and trailing commas and records where the text could be cut if it turns out
+ * to be truncated. Works on a single pass over the characters so string contents are never touched.
+ */
+const scan = (text: string) => {
+    let output = '';
+    const stack: ('{' | '[')[] = [];
+    // Offsets in `output` just after a complete array element or object member, with the open containers at that point.
+    const safePoints: { length: number; stack: ('{' | '[')[] }[] = [];
+    let inString = false;
+    let removedComments = 0;
+    let removedCommas = 0;
+    let valueStarted = false;
+
+    const markSafe = () => safePoints.push({ length: output.length, stack: [...stack] });
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inString) {
+            output += char;
+            if (char === '\\') {
+                if (i + 1 < text.length) output += text[++i];
+            } else if (char === '"') {
+                inString = false;
+                valueStarted = true;
+            }
+            continue;
+        }
+
+        if (char === '/' && text[i + 1] === '/') {
+            const end = text.indexOf('\n', i);
+            i = end === -1 ? text.length : end - 1;
+            removedComments++;
+            continue;
+        }
+        if (char === '/' && text[i + 1] === '*') {
+            const end = text.indexOf('*/', i + 2);
+            i = end === -1 ? text.length : end + 1;
+            removedComments++;
+            continue;
+        }
+
+        switch (char) {
+            case '"':
+                inString = true;
+                output += char;
+                break;
+            case '{':
+            case '[':
+                stack.push(char);
+                valueStarted = false;
+                output += char;
+                break;
+            case '}':
+            case ']': {
+                // Drop a trailing comma before the closing bracket.
+                const trimmed = output.replace(/,\s*$/, '');
+                if (trimmed !== output) removedCommas++;
+                output = trimmed + char;
+                stack.pop();
+                valueStarted = true;
+                if (stack.length > 0) markSafe();
+                break;
+            }
+            case ',':
+                if (valueStarted && !/[:,[{]\s*$/.test(output)) markSafe();
+                valueStarted = false;
+                output += char;
+                break;
+            default:
+                if (!/\s/.test(char) && char !== ':') valueStarted = true;
+                if (char === ':') valueStarted = false;
+                output += char;
+        }
+    }
+
+    return { output, stack, safePoints, inString, removedComments, removedCommas };
+};
+
+const closers = (stack: ('{' | '[')[]) => stack.slice().reverse().map(open => (open === '{' ? '}' : ']')).join('');
+
+/**
+ * Parses JSON the way models actually produce it: wrapped in markdown fences or prose, with
+ * comments, trailing commas, or cut off mid-output. Incomplete trailing content is dropped back
+ * to the last complete member or element and the open brackets are closed.
+ */
+export const parseTolerantJson = (raw: string): TolerantParseResult => {
+    const repairs: string[] = [];
+    let text = raw.trim();
+
+    const fence = text.match(FENCE_REGEX);
+    if (fence && fence[2]) {
+        text = fence[2].trim();
+        repairs.push('Removed markdown fences.');
+    }
+
+    const start = text.search(/[{[]/);
+    if (start === -1) {
+        throw new JsonRepairError('The response does not contain a JSON object.');
+    }
+    if (start > 0) {
+        text = text.slice(start);
+        repairs.push('Removed text before the JSON.');
+    }
+
+    try {
+        return { value: JSON.parse(text), repairs, truncated: false };
+    } catch {
+        // Fall through to repair.
+    }
+
+    const { output, stack, safePoints, inString, removedComments, removedCommas } = scan(text);
+    if (removedComments > 0) repairs.push(`Removed ${removedComments} comment(s).`);
+    if (removedCommas > 0) repairs.push(`Removed ${removedCommas} trailing comma(s).`);
+
+    if (stack.length === 0 && !inString) {
+        // Balanced: anything after the root value is prose to discard.
+        const rootEnd = findRootEnd(output);
+        const candidate = output.slice(0, rootEnd);
+        if (rootEnd < output.trimEnd().length) repairs.push('Removed text after the JSON.');
+        try {
+            return { value: JSON.parse(candidate), repairs, truncated: false };
+        } catch (error) {
+            throw new JsonRepairError(`The response is not valid JSON: ${(error as Error).message}`);
+        }
+    }
+
+    // Unbalanced: the output was cut off. Rewind to the last complete member and close the brackets.
+    for (let i = safePoints.length - 1; i >= -1; i--) {
+        const point = i >= 0 ? safePoints[i] : { length: 1, stack: [text[0] as '{' | '['] };
+        const candidate = output.slice(0, point.length).replace(/,\s*$/, '') + closers(point.stack);
+        try {
+            const value = JSON.parse(candidate);
+            repairs.push(`Closed ${point.stack.length} unbalanced bracket(s) after truncated output.`);
+            return { value, repairs, truncated: true };
+        } catch {
+            // Try an earlier cut.
+        }
+    }
+    throw new JsonRepairError('The response was cut off before any complete content.', output.length);
+};
+
+/** Index just past the root value in scanned (comment-free) JSON text. */
+const findRootEnd = (text: string): number => {
+    let depth = 0;
+    let inString = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{' || char === '[') {
+            depth++;
+        } else if (char === '}' || char === ']') {
+            depth--;
+            if (depth === 0) return i + 1;
+        }
+    }
+    return text.length;
+};
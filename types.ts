@@ -1,4 +1,3 @@
-
 export enum ItemType {
   SHORT_ANSWER = 'SHORT_ANSWER',
   PARAGRAPH = 'PARAGRAPH',
@@ -6,20 +5,86 @@ export enum ItemType {
   CHECKBOXES = 'CHECKBOXES',
   DROPDOWN = 'DROPDOWN',
   SECTION_HEADER = 'SECTION_HEADER', // For text blocks/passages
+  LINEAR_SCALE = 'LINEAR_SCALE',
+  MULTIPLE_CHOICE_GRID = 'MULTIPLE_CHOICE_GRID',
+  CHECKBOX_GRID = 'CHECKBOX_GRID',
+  DATE = 'DATE',
+  TIME = 'TIME',
+  RATING = 'RATING',
+  PAGE_BREAK = 'PAGE_BREAK', // Starts a new page; called a section in Google Forms.
+}
+
+/** Branch target that ends the form instead of going to a page. */
+export const SUBMIT_FORM = 'SUBMIT';
+
+export interface OptionBranch {
+  option: string;
+  goTo: string; // The pageId of a PAGE_BREAK, or SUBMIT_FORM.
+}
+
+/** A picture shown with an item, e.g. a diagram from the source document. */
+export interface FormImage {
+  src: string; // A data: URL, or an https URL Google Forms can fetch.
+  alt?: string;
+}
+
+export interface OptionImage {
+  option: string;
+  image: FormImage;
+}
+
+export type ResponseValidationKind = 'NUMBER' | 'INTEGER' | 'LENGTH' | 'PATTERN' | 'EMAIL' | 'URL';
+
+/** A rule every SHORT_ANSWER response must follow; Google Forms allows one per question. */
+export interface ResponseValidation {
+  kind: ResponseValidationKind;
+  min?: number; // NUMBER: the smallest value. LENGTH: the fewest characters.
+  max?: number; // NUMBER: the largest value. LENGTH: the most characters.
+  pattern?: string; // PATTERN: a regular expression the whole response must match.
+  message?: string; // Shown to respondents whose response breaks the rule.
+}
+
+export type RatingIcon = 'STAR' | 'HEART' | 'THUMB_UP';
+
+export interface FeedbackLink {
+  url: string;
+  label?: string;
+}
+
+/** What students see after submitting a quiz. */
+export interface ItemFeedback {
+  correct?: string; // Choice questions: shown when the answer is right.
+  incorrect?: string; // Choice questions: shown when the answer is wrong.
+  general?: string; // SHORT_ANSWER and PARAGRAPH: shown whatever the answer.
+  links?: FeedbackLink[]; // Further reading, shown with the incorrect and general feedback.
 }
 
 export interface FormItem {
   title: string;
   description?: string; // For SECTION_HEADER, this holds the passage.
   type: ItemType;
-  options?: string[];
+  options?: string[]; // For grids, these are the columns.
+  rows?: string[]; // Grid rows.
   points?: number;
   correctAnswer?: string | string[]; // string for most types, string[] for CHECKBOXES
   required?: boolean;
+  feedback?: ItemFeedback;
+  validation?: ResponseValidation; // SHORT_ANSWER
+  low?: number; // LINEAR_SCALE: 0 or 1.
+  high?: number; // LINEAR_SCALE: 2 to 10. RATING: the number of icons, 3 to 10.
+  lowLabel?: string; // LINEAR_SCALE
+  highLabel?: string; // LINEAR_SCALE
+  ratingIcon?: RatingIcon; // RATING
+  includeTime?: boolean; // DATE
+  duration?: boolean; // TIME: an elapsed time rather than a time of day.
+  pageId?: string; // PAGE_BREAK: what branches refer to; also its Google Forms item ID.
+  branches?: OptionBranch[]; // MULTIPLE_CHOICE and DROPDOWN: options not listed continue to the next page.
+  image?: FormImage; // Shown above a question; a SECTION_HEADER with one is an image item in Google Forms.
+  optionImages?: OptionImage[]; // MULTIPLE_CHOICE and CHECKBOXES: pictures shown with their options.
 }
 
 export interface Form {
   title: string;
   description: string;
   items: FormItem[];
-}
\ No newline at end of file
+}
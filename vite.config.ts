@@ -6,7 +6,24 @@ export default defineConfig(({ mode }) => {
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER),
+        'process.env.LLM_MODEL': JSON.stringify(env.LLM_MODEL),
+        'process.env.LLM_VISION_MODEL': JSON.stringify(env.LLM_VISION_MODEL),
+        'process.env.LLM_BASE_URL': JSON.stringify(env.LLM_BASE_URL),
+        'process.env.LLM_API_KEY': JSON.stringify(env.LLM_API_KEY),
+        'process.env.LLM_FIXTURES_URL': JSON.stringify(env.LLM_FIXTURES_URL),
+        'process.env.LLM_RECORD_FIXTURES': JSON.stringify(env.LLM_RECORD_FIXTURES),
+        'process.env.LLM_STRUCTURED_OUTPUT': JSON.stringify(env.LLM_STRUCTURED_OUTPUT),
+        'process.env.OCR_CONCURRENCY': JSON.stringify(env.OCR_CONCURRENCY),
+        'process.env.GOOGLE_CLIENT_ID': JSON.stringify(env.GOOGLE_CLIENT_ID),
+        'process.env.GOOGLE_FORMS_API_URL': JSON.stringify(env.GOOGLE_FORMS_API_URL),
+        'process.env.GOOGLE_DRIVE_API_URL': JSON.stringify(env.GOOGLE_DRIVE_API_URL),
+        'process.env.GOOGLE_DRIVE_UPLOAD_URL': JSON.stringify(env.GOOGLE_DRIVE_UPLOAD_URL)
+      },
+      // The ingestion worker is a module that loads pdf.js and the LLM providers.
+      worker: {
+        format: 'es'
       },
       resolve: {
         alias: {
@@ -0,0 +1,13 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+    resolve: {
+        // Services import the model as `../types`, from their own folder; tests load them from here.
+        alias: [{ find: /^\.\.\/types$/, replacement: path.resolve(__dirname, 'types.ts') }],
+    },
+    test: {
+        include: ['**/*.test.ts'],
+        exclude: ['node_modules/**'],
+    },
+});
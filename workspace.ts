@@ -0,0 +1,298 @@
+import type { Form } from '../types';
+import type { SourceImage } from './formImages';
+import type { ProviderName } from './llmProvider';
+import { FORM_SCHEMA_VERSION, upgradeForm } from './formJson';
+
+/*
+ * The local library of quizzes, kept in IndexedDB so it survives reloads. Each entry holds the
+ * source text, the form being edited and every generated revision; uploaded documents are kept
+ * in a separate store so that listing the library doesn't read them.
+ */
+
+/** The provider settings a revision was generated with. */
+export interface GenerationSettings {
+    provider: ProviderName;
+    model: string;
+    temperature: number;
+}
+
+export interface FormRevision {
+    id: string;
+    createdAt: string;
+    source: 'generated' | 'imported';
+    /** Only for generated revisions. */
+    settings?: GenerationSettings;
+    form: Form;
+}
+
+/** A Google Form created from, or imported into, the entry. */
+export interface GoogleFormLink {
+    formId: string;
+    title: string;
+    responderUri?: string;
+    linkedAt: string;
+}
+
+export interface SourceDocumentInfo {
+    fileName: string;
+    mimeType: string;
+    size: number;
+}
+
+export interface WorkspaceEntry {
+    id: string;
+    name: string;
+    createdAt: string;
+    updatedAt: string;
+    /** The pasted or extracted text the form is generated from. */
+    text: string;
+    /** The form as last edited; `null` until one is generated or imported. */
+    form: Form | null;
+    revisions: FormRevision[];
+    googleForms: GoogleFormLink[];
+    /** The uploaded file the text came from; its bytes are read with `getSourceDocument`. */
+    document?: SourceDocumentInfo;
+    /** The pictures found in that file, which the text marks as `[Image 1]` and so on. */
+    images?: SourceImage[];
+}
+
+export class WorkspaceError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'WorkspaceError';
+    }
+}
+
+const DB_NAME = 'formArchitect';
+const DB_VERSION = 1;
+const ENTRIES = 'entries';
+const DOCUMENTS = 'documents';
+const ACTIVE_ENTRY_KEY = 'formArchitect.activeEntry';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => (database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+        reject(new WorkspaceError('This browser cannot store the library.'));
+        return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRIES)) db.createObjectStore(ENTRIES, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(DOCUMENTS)) db.createObjectStore(DOCUMENTS);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+        database = null;
+        reject(new WorkspaceError(`The library could not be opened: ${request.error?.message || 'unknown error'}.`));
+    };
+}));
+
+const promised = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new WorkspaceError(`The library could not be updated: ${request.error?.message || 'unknown error'}.`));
+});
+
+/** Runs `action` in one transaction and resolves with its result once the transaction has committed. */
+const transact = async <T>(stores: string[], mode: IDBTransactionMode, action: (tx: IDBTransaction) => Promise<T>): Promise<T> => {
+    const db = await openDatabase();
+    const tx = db.transaction(stores, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(new WorkspaceError(`The library could not be updated: ${tx.error?.message || 'unknown error'}.`));
+        tx.onabort = () => reject(new WorkspaceError(`The library could not be updated: ${tx.error?.message || 'the change was cancelled'}.`));
+    });
+    const result = await action(tx);
+    await done;
+    return result;
+};
+
+const now = () => new Date().toISOString();
+
+export const newId = () => crypto.randomUUID();
+
+/** A name for an entry that has none yet: the form's title, else the first line of its text. */
+export const defaultEntryName = (form: Form | null, text: string) =>
+    form?.title.trim() || text.trim().split('\n')[0].slice(0, 60).trim() || 'Untitled';
+
+export const listEntries = (): Promise<WorkspaceEntry[]> =>
+    transact([ENTRIES], 'readonly', async tx => {
+        const entries = await promised(tx.objectStore(ENTRIES).getAll() as IDBRequest<WorkspaceEntry[]>);
+        return entries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    });
+
+export const getEntry = (id: string): Promise<WorkspaceEntry | undefined> =>
+    transact([ENTRIES], 'readonly', tx => promised(tx.objectStore(ENTRIES).get(id) as IDBRequest<WorkspaceEntry | undefined>));
+
+export const createEntry = async (fields: Partial<Omit<WorkspaceEntry, 'id' | 'createdAt' | 'updatedAt'>> = {}): Promise<WorkspaceEntry> => {
+    const entry: WorkspaceEntry = {
+        id: newId(),
+        name: defaultEntryName(fields.form ?? null, fields.text ?? ''),
+        createdAt: now(),
+        updatedAt: now(),
+        text: '',
+        form: null,
+        revisions: [],
+        googleForms: [],
+        ...fields,
+    };
+    await transact([ENTRIES], 'readwrite', async tx => promised(tx.objectStore(ENTRIES).put(entry)));
+    return entry;
+};
+
+/** Reads, changes and writes back an entry in one transaction, so concurrent saves don't lose each other's changes. */
+export const updateEntry = (id: string, change: (entry: WorkspaceEntry) => WorkspaceEntry): Promise<WorkspaceEntry> =>
+    transact([ENTRIES], 'readwrite', async tx => {
+        const store = tx.objectStore(ENTRIES);
+        const entry = await promised(store.get(id) as IDBRequest<WorkspaceEntry | undefined>);
+        if (!entry) throw new WorkspaceError('This library entry no longer exists.');
+        const next = { ...change(entry), id, updatedAt: now() };
+        await promised(store.put(next));
+        return next;
+    });
+
+export const renameEntry = (id: string, name: string) => updateEntry(id, entry => ({ ...entry, name: name.trim() || entry.name }));
+
+/** Records a new revision and makes it the form being edited. */
+export const addRevision = (id: string, form: Form, source: FormRevision['source'], settings?: GenerationSettings) =>
+    updateEntry(id, entry => ({
+        ...entry,
+        form,
+        revisions: [...entry.revisions, { id: newId(), createdAt: now(), source, ...(settings ? { settings } : {}), form }],
+    }));
+
+export const linkGoogleForm = (id: string, link: Omit<GoogleFormLink, 'linkedAt'>) =>
+    updateEntry(id, entry => ({
+        ...entry,
+        googleForms: [{ ...link, linkedAt: now() }, ...entry.googleForms.filter(l => l.formId !== link.formId)],
+    }));
+
+export const duplicateEntry = (id: string): Promise<WorkspaceEntry> =>
+    transact([ENTRIES, DOCUMENTS], 'readwrite', async tx => {
+        const entry = await promised(tx.objectStore(ENTRIES).get(id) as IDBRequest<WorkspaceEntry | undefined>);
+        if (!entry) throw new WorkspaceError('This library entry no longer exists.');
+        // The copy keeps the revisions but not the Google Form links, which belong to the original.
+        const copy: WorkspaceEntry = { ...entry, id: newId(), name: `${entry.name} (copy)`, createdAt: now(), updatedAt: now(), googleForms: [] };
+        await promised(tx.objectStore(ENTRIES).put(copy));
+        const document = await promised(tx.objectStore(DOCUMENTS).get(id) as IDBRequest<Blob | undefined>);
+        if (document) await promised(tx.objectStore(DOCUMENTS).put(document, copy.id));
+        return copy;
+    });
+
+export const deleteEntry = (id: string) =>
+    transact([ENTRIES, DOCUMENTS], 'readwrite', async tx => {
+        await promised(tx.objectStore(ENTRIES).delete(id));
+        await promised(tx.objectStore(DOCUMENTS).delete(id));
+    });
+
+/** Stores the uploaded file the entry's text was extracted from, replacing any earlier one. */
+export const saveSourceDocument = (id: string, file: File) =>
+    transact([ENTRIES, DOCUMENTS], 'readwrite', async tx => {
+        const entry = await promised(tx.objectStore(ENTRIES).get(id) as IDBRequest<WorkspaceEntry | undefined>);
+        if (!entry) throw new WorkspaceError('This library entry no longer exists.');
+        const document: SourceDocumentInfo = { fileName: file.name, mimeType: file.type || 'application/octet-stream', size: file.size };
+        await promised(tx.objectStore(DOCUMENTS).put(file, id));
+        await promised(tx.objectStore(ENTRIES).put({ ...entry, document, updatedAt: now() }));
+    });
+
+export const getSourceDocument = (id: string): Promise<Blob | undefined> =>
+    transact([DOCUMENTS], 'readonly', tx => promised(tx.objectStore(DOCUMENTS).get(id) as IDBRequest<Blob | undefined>));
+
+/** Case-insensitive search over entry names, form titles and source text. */
+export const searchEntries = (entries: WorkspaceEntry[], query: string) => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return entries;
+    return entries.filter(entry =>
+        [entry.name, entry.form?.title || '', entry.text, entry.document?.fileName || ''].some(value => value.toLowerCase().includes(needle)));
+};
+
+// The entry being worked on survives reloads through its ID; the entry itself is in IndexedDB.
+export const getActiveEntryId = () => localStorage.getItem(ACTIVE_ENTRY_KEY);
+
+export const setActiveEntryId = (id: string | null) => {
+    if (id) localStorage.setItem(ACTIVE_ENTRY_KEY, id);
+    else localStorage.removeItem(ACTIVE_ENTRY_KEY);
+};
+
+// --- Backup ---
+
+const LIBRARY_FORMAT = 'form-architect-library';
+const LIBRARY_VERSION = 1;
+
+interface LibraryBackup {
+    format: typeof LIBRARY_FORMAT;
+    version: number;
+    /** The schema version of the forms in the backup; older ones are upgraded on import. */
+    formSchemaVersion?: number;
+    exportedAt: string;
+    entries: (WorkspaceEntry & { documentData?: string })[];
+}
+
+const toBase64 = async (blob: Blob) => {
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return btoa(binary);
+};
+
+const fromBase64 = (data: string, mimeType: string) =>
+    new Blob([Uint8Array.from(atob(data), c => c.charCodeAt(0))], { type: mimeType });
+
+/** The whole library as one JSON document, with uploaded files embedded as base64. */
+export const exportLibrary = async (): Promise<string> => {
+    const entries = await listEntries();
+    const backup: LibraryBackup = {
+        format: LIBRARY_FORMAT,
+        version: LIBRARY_VERSION,
+        formSchemaVersion: FORM_SCHEMA_VERSION,
+        exportedAt: now(),
+        entries: await Promise.all(entries.map(async entry => {
+            const document = entry.document && await getSourceDocument(entry.id);
+            return document ? { ...entry, documentData: await toBase64(document) } : entry;
+        })),
+    };
+    return JSON.stringify(backup, null, 2);
+};
+
+/**
+ * Adds the entries of a backup to the library; entries that are already in it are replaced.
+ * Forms are upgraded to the current schema and validated, as anything read from a file is.
+ * Returns the number of entries imported.
+ */
+export const importLibrary = async (json: string): Promise<number> => {
+    let backup: LibraryBackup;
+    try {
+        backup = JSON.parse(json);
+    } catch {
+        throw new WorkspaceError('That file is not valid JSON.');
+    }
+    if (!backup || backup.format !== LIBRARY_FORMAT || !Array.isArray(backup.entries)) {
+        throw new WorkspaceError('That file is not a library backup.');
+    }
+    if (backup.version !== LIBRARY_VERSION) {
+        throw new WorkspaceError(`Library backups of version ${backup.version} can't be read by this version of the app.`);
+    }
+
+    const formVersion = backup.formSchemaVersion ?? FORM_SCHEMA_VERSION;
+    const entries = backup.entries.filter(e => e && typeof e.id === 'string').map(({ documentData, ...entry }) => ({
+        entry: {
+            ...entry,
+            name: typeof entry.name === 'string' ? entry.name : 'Untitled',
+            text: typeof entry.text === 'string' ? entry.text : '',
+            form: entry.form ? upgradeForm(entry.form, formVersion).form : null,
+            revisions: (Array.isArray(entry.revisions) ? entry.revisions : []).map(r => ({ ...r, form: upgradeForm(r.form, formVersion).form })),
+            googleForms: Array.isArray(entry.googleForms) ? entry.googleForms : [],
+            images: Array.isArray(entry.images) ? entry.images : undefined,
+        } as WorkspaceEntry,
+        document: documentData && entry.document ? fromBase64(documentData, entry.document.mimeType) : undefined,
+    }));
+
+    await transact([ENTRIES, DOCUMENTS], 'readwrite', async tx => {
+        for (const { entry, document } of entries) {
+            await promised(tx.objectStore(ENTRIES).put(document ? entry : { ...entry, document: undefined }));
+            if (document) await promised(tx.objectStore(DOCUMENTS).put(document, entry.id));
+        }
+    });
+    return entries.length;
+};